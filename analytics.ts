@@ -0,0 +1,326 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Business, parseAddressParts } from './business.ts';
+import { escapeXml } from './export.ts';
+import { KM_PER_MILE, LatLng, haversineKm } from './geo.ts';
+import { JsonSchema } from './providers/index.ts';
+
+// Market statistics for a set of results, the charts drawn from them, and
+// the reports they are exported in. Charts are SVG strings so the same
+// markup serves the panel, the HTML report and the PNG.
+
+// --- Types ---
+
+export interface CountBar {
+    label: string;
+    count: number;
+}
+
+/** How many results have a field filled in, e.g. a website. */
+export interface PresenceShare {
+    label: string;
+    count: number;
+    share: number;
+}
+
+export interface MarketStats {
+    total: number;
+    ratings: CountBar[];
+    averageRating: number | null;
+    presence: PresenceShare[];
+    /** Results per ZIP code, or per city where the address has none. */
+    areas: CountBar[];
+    /** Results per compass direction from the center; empty without a center. */
+    sectors: CountBar[];
+    averageDistanceMiles: number | null;
+}
+
+// --- Constants ---
+
+const SOCIAL_PLATFORMS = ['instagram', 'facebook', 'twitter', 'linkedin', 'yelp', 'tiktok'];
+const RATING_BUCKETS: { label: string; min: number }[] = [
+    { label: '4.5 – 5', min: 4.5 },
+    { label: '4 – 4.4', min: 4 },
+    { label: '3.5 – 3.9', min: 3.5 },
+    { label: '3 – 3.4', min: 3 },
+    { label: 'Under 3', min: -Infinity },
+];
+// Areas beyond this many are summed into "Other".
+const MAX_AREAS = 10;
+// Results this close to the center count as central rather than in a direction.
+const CENTRAL_MILES = 1.5;
+const SECTORS = ['North', 'Northeast', 'East', 'Southeast', 'South', 'Southwest', 'West', 'Northwest'];
+
+export const MARKET_SUMMARY_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', description: 'One paragraph of at most 90 words.' },
+    },
+    required: ['summary'],
+};
+
+// --- Statistics ---
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function countBy(values: string[]): CountBar[] {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+    return [...counts.entries()]
+        .map(([label, count]) => ({ label, count }))
+        .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+function areaLabel(address: string): string {
+    const { zip, city } = parseAddressParts(address);
+    return zip ? `ZIP ${zip}` : city || 'Unknown';
+}
+
+function sectorOf(point: LatLng, center: LatLng): string {
+    if (haversineKm(center, point) / KM_PER_MILE < CENTRAL_MILES) return 'Central';
+    const north = point.lat - center.lat;
+    const east = (point.lng - center.lng) * Math.cos(center.lat * Math.PI / 180);
+    const degrees = (Math.atan2(east, north) * 180 / Math.PI + 360) % 360;
+    return SECTORS[Math.round(degrees / 45) % SECTORS.length];
+}
+
+/** Statistics for the given results; distances and directions are measured from `center`. */
+export function computeMarketStats(businesses: Business[], center: LatLng | null): MarketStats {
+    const total = businesses.length;
+    const rated = businesses.filter(b => b.rating !== null);
+    const ratings = RATING_BUCKETS.map(({ label }) => ({ label, count: 0 }));
+    rated.forEach(b => ratings[RATING_BUCKETS.findIndex(bucket => b.rating! >= bucket.min)].count++);
+    ratings.push({ label: 'No rating', count: total - rated.length });
+
+    const platforms = new Set(SOCIAL_PLATFORMS);
+    businesses.forEach(b => Object.entries(b.socialMedia).forEach(([platform, url]) => url && platforms.add(platform)));
+    const share = (label: string, has: (b: Business) => boolean): PresenceShare => {
+        const count = businesses.filter(has).length;
+        return { label, count, share: total > 0 ? count / total : 0 };
+    };
+    const presence = [
+        share('Website', b => !!b.website),
+        share('Phone', b => !!b.phone),
+        ...[...platforms].map(platform => share(capitalize(platform), b => !!b.socialMedia[platform])),
+    ];
+
+    const allAreas = countBy(businesses.map(b => areaLabel(b.address)));
+    const areas = allAreas.slice(0, MAX_AREAS);
+    const otherCount = allAreas.slice(MAX_AREAS).reduce((sum, area) => sum + area.count, 0);
+    if (otherCount > 0) areas.push({ label: 'Other', count: otherCount });
+
+    const located = businesses.filter(b => b.lat !== null && b.lng !== null).map(b => ({ lat: b.lat!, lng: b.lng! }));
+    const distances = center ? located.map(point => haversineKm(center, point) / KM_PER_MILE) : [];
+    return {
+        total,
+        ratings,
+        averageRating: rated.length > 0 ? rated.reduce((sum, b) => sum + b.rating!, 0) / rated.length : null,
+        presence,
+        areas,
+        sectors: center ? countBy(located.map(point => sectorOf(point, center))) : [],
+        averageDistanceMiles: distances.length > 0 ? distances.reduce((sum, d) => sum + d, 0) / distances.length : null,
+    };
+}
+
+/** Identity of a set of statistics, to tell whether a summary still describes them. */
+export const statsKey = (stats: MarketStats): string => JSON.stringify(stats);
+
+// --- Market Summary ---
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+const formatBars = (bars: CountBar[]) => bars.map(bar => `${bar.label}: ${bar.count}`).join(', ');
+
+export function buildMarketSummaryPrompt(stats: MarketStats, searchLabel: string): string {
+    return [
+        'You are a market analyst helping a sales team plan a territory.',
+        `Search: ${searchLabel}`,
+        '',
+        `Businesses found: ${stats.total}`,
+        `Average rating: ${stats.averageRating !== null ? stats.averageRating.toFixed(1) : 'unknown'}`,
+        `Ratings: ${formatBars(stats.ratings)}`,
+        `Online presence: ${stats.presence.map(p => `${p.label} ${percent(p.share)}`).join(', ')}`,
+        `By area: ${formatBars(stats.areas)}`,
+        stats.sectors.length > 0 ? `By direction from the center: ${formatBars(stats.sectors)}` : null,
+        stats.averageDistanceMiles !== null ? `Average distance from the center: ${stats.averageDistanceMiles.toFixed(1)} miles` : null,
+        '',
+        'Write one paragraph on how saturated the market is, where competitors cluster and where they are sparse, and what the online presence numbers suggest as an opening.',
+        'Only use the numbers given above.',
+    ].filter(line => line !== null).join('\n');
+}
+
+export function parseMarketSummary(raw: unknown): string {
+    const summary = (raw as { summary?: unknown } | null)?.summary;
+    return typeof summary === 'string' ? summary.trim() : '';
+}
+
+// --- Charts ---
+
+const CHART_WIDTH = 360;
+const LABEL_WIDTH = 110;
+const ROW_HEIGHT = 22;
+const TITLE_HEIGHT = 26;
+const FONT = 'font-family="system-ui, -apple-system, Segoe UI, sans-serif" font-size="12"';
+// The app's own palette, written out because the SVGs travel without its stylesheet.
+const BAR_COLOR = '#F25A5A';
+const TRACK_COLOR = '#EAEAEA';
+const TEXT_COLOR = '#212121';
+const MUTED_COLOR = '#666666';
+
+export interface Chart {
+    title: string;
+    svg: string;
+    height: number;
+}
+
+function chart(title: string, rows: string[]): Chart {
+    const height = TITLE_HEIGHT + Math.max(rows.length, 1) * ROW_HEIGHT;
+    const body = rows.length > 0 ? rows.join('') : `<text x="0" y="${TITLE_HEIGHT + 15}" fill="${MUTED_COLOR}">No data</text>`;
+    return {
+        title,
+        height,
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${CHART_WIDTH}" height="${height}" viewBox="0 0 ${CHART_WIDTH} ${height}" ${FONT}>`
+            + `<text x="0" y="16" font-weight="600" font-size="13" fill="${TEXT_COLOR}">${escapeXml(title)}</text>${body}</svg>`,
+    };
+}
+
+function barRow(index: number, label: string, fraction: number, value: string): string {
+    const y = TITLE_HEIGHT + index * ROW_HEIGHT;
+    const track = CHART_WIDTH - LABEL_WIDTH - 50;
+    return `<text x="0" y="${y + 14}" fill="${TEXT_COLOR}">${escapeXml(label)}</text>`
+        + `<rect x="${LABEL_WIDTH}" y="${y + 3}" width="${track}" height="14" rx="3" fill="${TRACK_COLOR}"/>`
+        + `<rect x="${LABEL_WIDTH}" y="${y + 3}" width="${(track * fraction).toFixed(1)}" height="14" rx="3" fill="${BAR_COLOR}"/>`
+        + `<text x="${CHART_WIDTH}" y="${y + 14}" text-anchor="end" fill="${TEXT_COLOR}">${escapeXml(value)}</text>`;
+}
+
+/** Horizontal bars scaled to the largest count. */
+export function renderBarChart(title: string, bars: CountBar[]): Chart {
+    const max = Math.max(1, ...bars.map(bar => bar.count));
+    return chart(title, bars.map((bar, i) => barRow(i, bar.label, bar.count / max, String(bar.count))));
+}
+
+/** Horizontal bars showing each share out of 100%. */
+export function renderShareChart(title: string, shares: PresenceShare[]): Chart {
+    return chart(title, shares.map((item, i) => barRow(i, item.label, item.share, percent(item.share))));
+}
+
+export function renderMarketCharts(stats: MarketStats): Chart[] {
+    return [
+        renderBarChart('Rating distribution', stats.ratings),
+        renderShareChart('Online presence', stats.presence),
+        renderBarChart('By ZIP code or city', stats.areas),
+        ...(stats.sectors.length > 0 ? [renderBarChart('By direction from the center', stats.sectors)] : []),
+    ];
+}
+
+/** The headline numbers shown above the charts. */
+export function describeMarketStats(stats: MarketStats): { label: string; value: string }[] {
+    return [
+        { label: 'Businesses', value: String(stats.total) },
+        { label: 'Average rating', value: stats.averageRating !== null ? stats.averageRating.toFixed(1) : '—' },
+        { label: 'Without a website', value: percent(1 - (stats.presence[0]?.share ?? 0)) },
+        { label: 'Average distance', value: stats.averageDistanceMiles !== null ? `${stats.averageDistanceMiles.toFixed(1)} mi` : '—' },
+    ];
+}
+
+// --- Reports ---
+
+export interface MarketReport {
+    title: string;
+    stats: MarketStats;
+    /** The AI market summary, if one was written for these statistics. */
+    summary: string;
+    generatedAt: number;
+}
+
+/** A standalone HTML page with the numbers, charts and summary. */
+export function toMarketReportHtml(report: MarketReport): string {
+    const figures = describeMarketStats(report.stats)
+        .map(({ label, value }) => `<div class="figure"><strong>${escapeXml(value)}</strong><span>${escapeXml(label)}</span></div>`).join('\n');
+    const charts = renderMarketCharts(report.stats).map(c => `<figure>${c.svg}</figure>`).join('\n');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(report.title)}</title>
+<style>
+body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: ${TEXT_COLOR}; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+.figures { display: flex; gap: 1rem; flex-wrap: wrap; margin: 1rem 0; }
+.figure { flex: 1; min-width: 140px; padding: 0.75rem; border: 1px solid ${TRACK_COLOR}; border-radius: 8px; }
+.figure strong { display: block; font-size: 1.5rem; }
+.charts { display: grid; grid-template-columns: repeat(auto-fill, minmax(${CHART_WIDTH}px, 1fr)); gap: 1.5rem; }
+figure { margin: 0; }
+footer { margin-top: 2rem; color: ${MUTED_COLOR}; font-size: 0.85rem; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(report.title)}</h1>
+<div class="figures">
+${figures}
+</div>
+${report.summary ? `<p>${escapeXml(report.summary)}</p>` : ''}
+<div class="charts">
+${charts}
+</div>
+<footer>Generated ${escapeXml(new Date(report.generatedAt).toLocaleString())}</footer>
+</body>
+</html>
+`;
+}
+
+function wrapText(text: string, maxChars: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    text.split(/\s+/).filter(Boolean).forEach(word => {
+        if (line && line.length + word.length + 1 > maxChars) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = line ? `${line} ${word}` : word;
+        }
+    });
+    if (line) lines.push(line);
+    return lines;
+}
+
+/**
+ * The report as a single SVG image, two charts per row, for rasterizing
+ * into a PNG.
+ */
+export function toMarketReportSvg(report: MarketReport): { svg: string; width: number; height: number } {
+    const gap = 32;
+    const width = CHART_WIDTH * 2 + gap * 3;
+    const parts: string[] = [
+        `<text x="${gap}" y="${gap + 8}" font-size="20" font-weight="700" fill="${TEXT_COLOR}">${escapeXml(report.title)}</text>`,
+    ];
+    let y = gap + 36;
+    const figures = describeMarketStats(report.stats);
+    const figureWidth = (width - gap * 2) / figures.length;
+    figures.forEach(({ label, value }, i) => {
+        const x = gap + i * figureWidth;
+        parts.push(`<text x="${x}" y="${y + 18}" font-size="20" font-weight="700" fill="${TEXT_COLOR}">${escapeXml(value)}</text>`);
+        parts.push(`<text x="${x}" y="${y + 36}" fill="${MUTED_COLOR}">${escapeXml(label)}</text>`);
+    });
+    y += 60;
+    if (report.summary) {
+        wrapText(report.summary, 110).forEach(line => {
+            parts.push(`<text x="${gap}" y="${y + 14}" fill="${TEXT_COLOR}">${escapeXml(line)}</text>`);
+            y += 18;
+        });
+        y += 16;
+    }
+    const charts = renderMarketCharts(report.stats);
+    for (let i = 0; i < charts.length; i += 2) {
+        const row = charts.slice(i, i + 2);
+        row.forEach((c, j) => parts.push(`<g transform="translate(${gap + j * (CHART_WIDTH + gap)}, ${y})">${c.svg}</g>`));
+        y += Math.max(...row.map(c => c.height)) + gap;
+    }
+    const height = y;
+    return {
+        width,
+        height,
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ${FONT}>`
+            + `<rect width="100%" height="100%" fill="#fff"/>${parts.join('')}</svg>`,
+    };
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { LatLng, KM_PER_MILE, haversineKm } from './geo.ts';
+
+// --- Types ---
+
+export type SearchBoundary =
+    | { kind: 'circle'; center: LatLng; radiusMiles: number }
+    | { kind: 'rectangle'; southWest: LatLng; northEast: LatLng }
+    | { kind: 'polygon'; points: LatLng[] };
+
+export type BoundaryKind = SearchBoundary['kind'];
+
+// --- Geometry ---
+
+const distanceMiles = (a: LatLng, b: LatLng): number => haversineKm(a, b) / KM_PER_MILE;
+
+function boundaryVertices(boundary: SearchBoundary): LatLng[] {
+    switch (boundary.kind) {
+        case 'circle':
+            return [];
+        case 'rectangle': {
+            const { southWest: sw, northEast: ne } = boundary;
+            return [sw, { lat: sw.lat, lng: ne.lng }, ne, { lat: ne.lat, lng: sw.lng }];
+        }
+        case 'polygon':
+            return boundary.points;
+    }
+}
+
+// Ray casting; treats lat/lng as planar, which is accurate enough at city scale.
+function isInsidePolygon(point: LatLng, polygon: LatLng[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        const crosses = (a.lat > point.lat) !== (b.lat > point.lat) &&
+            point.lng < (b.lng - a.lng) * (point.lat - a.lat) / (b.lat - a.lat) + a.lng;
+        if (crosses) inside = !inside;
+    }
+    return inside;
+}
+
+export function isInsideBoundary(point: LatLng, boundary: SearchBoundary): boolean {
+    switch (boundary.kind) {
+        case 'circle':
+            return distanceMiles(point, boundary.center) <= boundary.radiusMiles;
+        case 'rectangle':
+            return point.lat >= boundary.southWest.lat && point.lat <= boundary.northEast.lat &&
+                point.lng >= boundary.southWest.lng && point.lng <= boundary.northEast.lng;
+        case 'polygon':
+            return isInsidePolygon(point, boundary.points);
+    }
+}
+
+export function boundaryCenter(boundary: SearchBoundary): LatLng {
+    if (boundary.kind === 'circle') return boundary.center;
+    const vertices = boundaryVertices(boundary);
+    return {
+        lat: vertices.reduce((sum, p) => sum + p.lat, 0) / vertices.length,
+        lng: vertices.reduce((sum, p) => sum + p.lng, 0) / vertices.length,
+    };
+}
+
+/** Radius of the smallest circle around `boundaryCenter` that contains the whole boundary. */
+export function boundaryRadiusMiles(boundary: SearchBoundary): number {
+    if (boundary.kind === 'circle') return boundary.radiusMiles;
+    const center = boundaryCenter(boundary);
+    return Math.max(...boundaryVertices(boundary).map(p => distanceMiles(center, p)));
+}
+
+/** Whether a circle overlaps the boundary, checked by sampling its center and rim. */
+export function circleTouchesBoundary(center: LatLng, radiusMiles: number, boundary: SearchBoundary): boolean {
+    if (boundary.kind === 'circle') {
+        return distanceMiles(center, boundary.center) <= radiusMiles + boundary.radiusMiles;
+    }
+    const milesPerDegreeLng = 69 * Math.cos(center.lat * Math.PI / 180);
+    const samples = [center, ...Array.from({ length: 8 }, (_, i) => {
+        const angle = (i / 8) * 2 * Math.PI;
+        return {
+            lat: center.lat + (radiusMiles * Math.cos(angle)) / 69,
+            lng: center.lng + (radiusMiles * Math.sin(angle)) / milesPerDegreeLng,
+        };
+    })];
+    return samples.some(p => isInsideBoundary(p, boundary)) ||
+        boundaryVertices(boundary).some(p => distanceMiles(center, p) <= radiusMiles);
+}
+
+// --- Prompt Text ---
+
+const formatPoint = (p: LatLng): string => `(${p.lat.toFixed(5)}, ${p.lng.toFixed(5)})`;
+
+export function describeBoundary(boundary: SearchBoundary): string {
+    switch (boundary.kind) {
+        case 'circle':
+            return `within ${boundary.radiusMiles.toFixed(1)} miles of the coordinates ${formatPoint(boundary.center)}`;
+        case 'rectangle':
+            return `inside the rectangle with south-west corner ${formatPoint(boundary.southWest)} and north-east corner ${formatPoint(boundary.northEast)}`;
+        case 'polygon':
+            return `inside the polygon with vertices ${boundary.points.map(formatPoint).join(', ')} (latitude, longitude)`;
+    }
+}
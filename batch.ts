@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { SearchParams, describeSearch } from './search.ts';
+
+// --- Types ---
+
+export type BatchJobStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchLocation {
+    city: string;
+    state: string;
+}
+
+/** One business type in one location. */
+export interface BatchJob {
+    id: string;
+    businessType: string;
+    city: string;
+    state: string;
+    status: BatchJobStatus;
+    attempts: number;
+    found: number;
+    error: string;
+}
+
+/** A batch run, saved so it can be resumed after a reload. */
+export interface BatchState {
+    jobs: BatchJob[];
+    radiusMiles: number;
+    /** Leads found so far across all jobs. */
+    resultIds: string[];
+}
+
+// --- Parsing ---
+
+const US_STATES: Record<string, string> = {
+    AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+    CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia',
+    HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas',
+    KY: 'Kentucky', LA: 'Louisiana', ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts',
+    MI: 'Michigan', MN: 'Minnesota', MS: 'Mississippi', MO: 'Missouri', MT: 'Montana',
+    NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire', NJ: 'New Jersey', NM: 'New Mexico',
+    NY: 'New York', NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma',
+    OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota',
+    TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont', VA: 'Virginia', WA: 'Washington',
+    WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+};
+
+const STATE_NAMES = new Map(Object.entries(US_STATES).map(([code, name]) => [name.toLowerCase(), code]));
+
+/** The two-letter code for a state code or name, or null. */
+export function stateCode(text: string): string | null {
+    const trimmed = text.trim();
+    if (US_STATES[trimmed.toUpperCase()]) return trimmed.toUpperCase();
+    return STATE_NAMES.get(trimmed.toLowerCase()) ?? null;
+}
+
+/** Splits "salons, barbers\nnail studios" into distinct business types. */
+export function parseBusinessTypes(text: string): string[] {
+    const seen = new Set<string>();
+    return text.split(/[,;\n]/).map(type => type.trim()).filter(type => {
+        const key = type.toLowerCase();
+        if (!type || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+// Splits "Round Rock TX" or "Santa Fe New Mexico" into city and state.
+function splitTrailingState(piece: string): BatchLocation | null {
+    const words = piece.split(/\s+/);
+    for (let n = Math.min(3, words.length - 1); n >= 1; n--) {
+        const state = stateCode(words.slice(-n).join(' '));
+        if (state) return { city: words.slice(0, -n).join(' '), state };
+    }
+    return null;
+}
+
+/**
+ * Reads locations written one per line or separated by commas or
+ * semicolons, as "Austin TX", "Austin, TX" or "Austin, Texas". Every
+ * location needs a US state; pieces without one are reported as problems.
+ */
+export function parseLocations(text: string): { locations: BatchLocation[]; problems: string[] } {
+    const locations: BatchLocation[] = [];
+    const problems: string[] = [];
+    let pendingCity = '';
+
+    const pieces = text.split(/[,;\n]/).map(piece => piece.trim()).filter(Boolean);
+    pieces.forEach(piece => {
+        const state = stateCode(piece);
+        if (state && pendingCity) {
+            locations.push({ city: pendingCity, state });
+            pendingCity = '';
+            return;
+        }
+        if (pendingCity) problems.push(`"${pendingCity}" has no state.`);
+        pendingCity = '';
+        const location = splitTrailingState(piece);
+        if (location) locations.push(location);
+        // A lone state code cannot be a city, but "Indiana" in "Indiana, PA" can.
+        else if (state && piece.length === 2) problems.push(`"${piece}" has no city.`);
+        else pendingCity = piece;
+    });
+    if (pendingCity) problems.push(`"${pendingCity}" has no state.`);
+
+    const seen = new Set<string>();
+    return {
+        locations: locations.filter(({ city, state }) => {
+            const key = `${city.toLowerCase()}|${state}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        }),
+        problems,
+    };
+}
+
+/**
+ * Reads a queries file for scripted runs: one search per line written as
+ * "dentists | Denver, CO | 10", where the radius in miles is optional.
+ * Blank lines and lines starting with # are skipped.
+ */
+export function parseQueries(text: string, defaultRadiusMiles: number): { queries: SearchParams[]; problems: string[] } {
+    const queries: SearchParams[] = [];
+    const problems: string[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) return;
+        const [businessType = '', place = '', radius = ''] = trimmed.split('|').map(part => part.trim());
+        const { locations, problems: placeProblems } = parseLocations(place);
+        const radiusMiles = radius ? parseFloat(radius) : defaultRadiusMiles;
+        const problem = !businessType ? 'has no business type'
+            : locations.length !== 1 || placeProblems.length > 0 ? 'needs one location such as "Denver, CO"'
+                : !(radiusMiles > 0) ? 'has an invalid radius'
+                    : '';
+        if (problem) problems.push(`Line ${index + 1} ${problem}.`);
+        else queries.push({ businessType, ...locations[0], radiusMiles });
+    });
+    return { queries, problems };
+}
+
+// --- Jobs ---
+
+/** One job per business type and location, grouped by location. */
+export function expandBatch(types: string[], locations: BatchLocation[]): BatchJob[] {
+    return locations.flatMap(({ city, state }) => types.map(businessType => ({
+        id: `${businessType}|${city}|${state}`.toLowerCase(),
+        businessType,
+        city,
+        state,
+        status: 'queued' as const,
+        attempts: 0,
+        found: 0,
+        error: '',
+    })));
+}
+
+export const jobParams = (job: BatchJob, radiusMiles: number): SearchParams =>
+    ({ businessType: job.businessType, city: job.city, state: job.state, radiusMiles });
+
+/** The query a lead is tagged with when this job finds it. */
+export const jobLabel = (job: BatchJob): string => describeSearch(jobParams(job, 0));
+
+/** Jobs that a resume should run again: anything not finished. */
+export const unfinishedJobs = (jobs: BatchJob[]): BatchJob[] => jobs.filter(job => job.status !== 'done');
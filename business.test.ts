@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { isFictionalPhone, normalizeBusiness, normalizeSocialUrl, parseAddressParts } from './business.ts';
+
+describe('parseAddressParts', () => {
+    it('finds the city before a separate state and ZIP part', () => {
+        expect(parseAddressParts('12 Main St, Oakland, CA 94612')).toEqual({ city: 'Oakland', state: 'CA', zip: '94612' });
+    });
+
+    it('splits the city off a part it shares with the state and ZIP', () => {
+        expect(parseAddressParts('12 Main St, Oakland CA 94612, USA')).toEqual({ city: 'Oakland', state: 'CA', zip: '94612' });
+        expect(parseAddressParts('12 Main St, San Leandro CA')).toEqual({ city: 'San Leandro', state: 'CA', zip: '' });
+    });
+
+    it('does not take the street for the city', () => {
+        expect(parseAddressParts('12 Main St CA 94612')).toEqual({ city: '', state: 'CA', zip: '94612' });
+        expect(parseAddressParts('12 Main St')).toEqual({ city: '', state: '', zip: '' });
+    });
+});
+
+describe('isFictionalPhone', () => {
+    it('flags only the 555-01xx range', () => {
+        expect(isFictionalPhone('+15105550123')).toBe(true);
+        expect(isFictionalPhone('+15105551234')).toBe(false);
+        expect(isFictionalPhone('+15105550200')).toBe(false);
+    });
+});
+
+describe('normalizeSocialUrl', () => {
+    it('turns a handle into a profile link, even when it contains a dot', () => {
+        const warnings: string[] = [];
+        expect(normalizeSocialUrl('instagram', '@joes.coffee', warnings)).toBe('https://www.instagram.com/joes.coffee');
+        expect(normalizeSocialUrl('instagram', 'joescoffee', warnings)).toBe('https://www.instagram.com/joescoffee');
+        expect(warnings).toEqual([]);
+    });
+
+    it('keeps a link and warns when it points to another site', () => {
+        const warnings: string[] = [];
+        expect(normalizeSocialUrl('instagram', 'https://m.instagram.com/joes.coffee', warnings)).toBe('https://m.instagram.com/joes.coffee');
+        expect(normalizeSocialUrl('instagram', 'joes.coffee', warnings)).toBe('https://joes.coffee');
+        expect(warnings).toEqual(['The instagram link points to joes.coffee, not instagram.com.']);
+    });
+});
+
+describe('normalizeBusiness', () => {
+    it('rounds the rating to one decimal, also after clamping it', () => {
+        const rated = (rating: unknown) => normalizeBusiness({ name: 'Blue Bottle', rating });
+        expect(rated(4.46)?.rating).toBe(4.5);
+        expect(rated('5.04')?.rating).toBe(5);
+        expect(rated(-0.3)).toMatchObject({ rating: 0, warnings: expect.arrayContaining(['Rating -0.3 was outside 0–5 and has been clamped.']) });
+        expect(rated(undefined)?.rating).toBeNull();
+    });
+});
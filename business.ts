@@ -0,0 +1,404 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { SearchBoundary, isInsideBoundary } from './area.ts';
+import { LatLng, haversineKm, isValidLatLng, medianCenter, milesToKm } from './geo.ts';
+
+// --- Types ---
+
+export interface SocialMedia {
+    instagram?: string;
+    twitter?: string;
+    facebook?: string;
+    [platform: string]: string | undefined;
+}
+
+export interface Business {
+    /** Stable lead key derived from the normalized name and phone or address. */
+    id: string;
+    name: string;
+    address: string;
+    /** E.164 formatted, or empty when the model gave nothing usable. */
+    phone: string;
+    /** Canonical http(s) URL, or empty. */
+    website: string;
+    summary: string;
+    /** 0–5, or null when unknown. */
+    rating: number | null;
+    lat: number | null;
+    lng: number | null;
+    socialMedia: SocialMedia;
+    /** Problems found (and possibly repaired) while normalizing this record. */
+    warnings: string[];
+    /**
+     * Which search each field came from, keyed by field name. Coordinates are
+     * tracked as "location" and social links as "socialMedia.<platform>".
+     */
+    sources: Record<string, string>;
+}
+
+export interface NormalizeContext {
+    /** Label of the search that produced the records, used for field provenance. */
+    source?: string;
+    radiusMiles?: number;
+    /** Known search center. When absent, the median of the batch is used. */
+    center?: LatLng | null;
+    /** Area drawn on the map; records outside it are flagged. */
+    boundary?: SearchBoundary | null;
+}
+
+export interface NormalizeResult {
+    businesses: Business[];
+    dropped: number;
+}
+
+// --- Constants ---
+
+const EMPTY_VALUES = new Set(['', 'n/a', 'na', 'none', 'null', 'undefined', 'unknown', '-']);
+
+export const SOCIAL_HOSTS: Record<string, string[]> = {
+    instagram: ['instagram.com'],
+    twitter: ['twitter.com', 'x.com'],
+    facebook: ['facebook.com', 'fb.com'],
+    linkedin: ['linkedin.com'],
+    yelp: ['yelp.com'],
+    tiktok: ['tiktok.com'],
+};
+
+// Where a bare handle goes on platforms whose profiles are not at the site root.
+const HANDLE_PATHS: Record<string, string> = {
+    linkedin: 'company/',
+    yelp: 'biz/',
+    tiktok: '@',
+};
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid)$/i;
+
+// A record further than this many search radii from the center is treated as
+// misplaced. The floor keeps small radii from flagging the whole metro area.
+const FAR_FROM_CENTER_FACTOR = 3;
+const FAR_FROM_CENTER_MIN_KM = 40;
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+    street: 'st', avenue: 'ave', boulevard: 'blvd', road: 'rd', drive: 'dr', lane: 'ln',
+    court: 'ct', place: 'pl', parkway: 'pkwy', highway: 'hwy', square: 'sq', terrace: 'ter',
+    north: 'n', south: 's', east: 'e', west: 'w', suite: 'ste', apartment: 'apt',
+};
+
+const NAME_NOISE_WORDS = new Set(['the', 'llc', 'inc', 'co', 'corp', 'ltd', 'company', 'and']);
+
+// --- Lead Identity ---
+
+export function normalizeName(name: string): string {
+    return name
+        .toLowerCase()
+        .normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+        .replace(/&/g, ' and ')
+        .replace(/['’]/g, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .split(' ')
+        .filter(word => word && !NAME_NOISE_WORDS.has(word))
+        .join(' ');
+}
+
+/** Lowercased street address with common words abbreviated and unit numbers removed. */
+export function normalizeAddress(address: string): string {
+    return address
+        .toLowerCase()
+        .normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+        .replace(/[.,#]/g, ' ')
+        .replace(/\b(suite|ste|unit|apt|apartment)\s*[a-z0-9-]+\b/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(word => ADDRESS_ABBREVIATIONS[word] ?? word)
+        .join(' ')
+        // "United States", "USA" and the like add nothing but variance.
+        .replace(/\s+(usa|us|united states)$/, '');
+}
+
+export interface AddressParts {
+    city: string;
+    /** Two-letter code when the address has one. */
+    state: string;
+    zip: string;
+}
+
+/**
+ * Best-effort split of a one-line US address such as
+ * "12 Main St, Oakland, CA 94612". Parts that cannot be found are empty.
+ */
+export function parseAddressParts(address: string): AddressParts {
+    const parts = address.split(',').map(part => part.trim()).filter(Boolean)
+        .filter(part => !/^(usa?|united states)$/i.test(part));
+    const zip = address.match(/\b(\d{5})(?:-\d{4})?\b(?!.*\b\d{5}\b)/)?.[1] ?? '';
+    // The state and ZIP usually share the last part; the city is the part before,
+    // unless it shares the last part too ("Oakland CA 94612").
+    let last = parts.length - 1;
+    const tail = parts[last]?.match(/^(?:(.*\S)\s+)?([A-Z]{2})(?:\s+\d{5}(?:-\d{4})?)?$/);
+    const state = tail?.[2] ?? '';
+    if (tail?.[1] && !/^\d/.test(tail[1])) return { city: tail[1], state, zip };
+    if (state || /^\d{5}(?:-\d{4})?$/.test(parts[last] ?? '')) last--;
+    // A lone first part starting with a number is the street, not the city.
+    const city = last > 0 || (last === 0 && !/^\d/.test(parts[0])) ? parts[last] : '';
+    return { city, state, zip };
+}
+
+// cyrb53: a small, well-distributed 53-bit string hash.
+function hashString(value: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < value.length; i++) {
+        const ch = value.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Key that survives the cosmetic differences between two searches returning
+ * the same place: casing, punctuation, "Street" vs "St.", suite numbers. The
+ * phone number is preferred over the address because it varies less.
+ */
+export function getLeadKey(business: Pick<Business, 'name' | 'address' | 'phone'>): string {
+    const name = normalizeName(business.name);
+    const anchor = business.phone
+        ? business.phone.replace(/\D/g, '')
+        : normalizeAddress(business.address).split(' ').slice(0, 3).join(' ');
+    return `lead_${hashString(`${name}|${anchor}`)}`;
+}
+
+/** Names of the fields that currently hold a value, in the form used by `Business.sources`. */
+export function populatedFields(business: Business): string[] {
+    const fields = (['name', 'address', 'phone', 'website', 'summary'] as const).filter(field => business[field]);
+    const populated: string[] = [...fields];
+    if (business.rating !== null) populated.push('rating');
+    if (business.lat !== null && business.lng !== null) populated.push('location');
+    Object.entries(business.socialMedia).forEach(([platform, url]) => {
+        if (url) populated.push(`socialMedia.${platform}`);
+    });
+    return populated;
+}
+
+// --- Field Normalizers ---
+
+function cleanString(value: unknown): string {
+    if (typeof value === 'number') return String(value);
+    if (typeof value !== 'string') return '';
+    const trimmed = value.trim();
+    return EMPTY_VALUES.has(trimmed.toLowerCase()) ? '' : trimmed;
+}
+
+/**
+ * Converts a phone number to E.164. Numbers without a country code are assumed
+ * to be North American. Returns null when the input cannot be a real number.
+ */
+export function normalizePhone(value: string): string | null {
+    const withoutExtension = value.replace(/\s*(?:ext\.?|x|#)\s*\d+\s*$/i, '');
+    const hasPlus = withoutExtension.trim().startsWith('+');
+    const digits = withoutExtension.replace(/\D/g, '');
+
+    if (hasPlus && !digits.startsWith('1')) {
+        return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+    }
+
+    const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+    if (national.length !== 10) return null;
+    // NANP: neither the area code nor the exchange may start with 0 or 1.
+    if (/^[01]/.test(national) || /^[01]/.test(national.slice(3))) return null;
+    return `+1${national}`;
+}
+
+/** Whether a normalized US number is in the 555-0100 to 555-0199 range reserved for fiction. */
+export function isFictionalPhone(phone: string): boolean {
+    return /^\+1\d{3}55501\d{2}$/.test(phone);
+}
+
+/** Canonical form of a website URL, or null when it is not a usable http(s) URL. */
+export function normalizeUrl(value: string): string | null {
+    let candidate = value.trim();
+    if (!candidate) return null;
+    if (candidate.startsWith('//')) candidate = `https:${candidate}`;
+    if (!/^[a-z][a-z0-9+.-]*:/i.test(candidate)) candidate = `https://${candidate}`;
+
+    let url: URL;
+    try {
+        url = new URL(candidate);
+    } catch {
+        return null;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    if (!url.hostname.includes('.') || /\s/.test(url.hostname)) return null;
+
+    url.hash = '';
+    [...url.searchParams.keys()]
+        .filter(key => TRACKING_PARAMS.test(key))
+        .forEach(key => url.searchParams.delete(key));
+
+    let canonical = url.toString();
+    if (url.pathname === '/' && !url.search) canonical = canonical.replace(/\/$/, '');
+    return canonical;
+}
+
+export function normalizeSocialUrl(platform: string, value: string, warnings: string[]): string {
+    const hosts = SOCIAL_HOSTS[platform];
+    const handle = value.match(/^@?([A-Za-z0-9._-]{1,60})$/);
+    // "@joes.coffee" is a handle even though it reads like a domain; a bare dotted value is a link.
+    if (hosts && handle && (value.startsWith('@') || !value.includes('.'))) {
+        return `https://www.${hosts[0]}/${HANDLE_PATHS[platform] ?? ''}${handle[1]}`;
+    }
+
+    const url = normalizeUrl(value);
+    if (!url) {
+        warnings.push(`Dropped malformed ${platform} link "${value}".`);
+        return '';
+    }
+    if (hosts) {
+        const host = new URL(url).hostname.replace(/^(www|m)\./, '');
+        if (!hosts.some(h => host === h || host.endsWith(`.${h}`))) {
+            warnings.push(`The ${platform} link points to ${host}, not ${hosts[0]}.`);
+        }
+    }
+    return url;
+}
+
+function normalizeRating(value: unknown, warnings: string[]): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const rating = typeof value === 'number' ? value : parseFloat(String(value));
+    if (!Number.isFinite(rating)) {
+        warnings.push(`Ignored non-numeric rating "${value}".`);
+        return null;
+    }
+    const clamped = Math.min(5, Math.max(0, rating));
+    if (clamped !== rating) warnings.push(`Rating ${rating} was outside 0–5 and has been clamped.`);
+    return Math.round(clamped * 10) / 10;
+}
+
+function toCoordinate(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'string' && value.trim()) {
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+}
+
+function normalizeCoordinates(rawLat: unknown, rawLng: unknown, warnings: string[]): Pick<Business, 'lat' | 'lng'> {
+    const lat = toCoordinate(rawLat);
+    const lng = toCoordinate(rawLng);
+    if (lat === null || lng === null) {
+        warnings.push('Missing coordinates; this lead cannot be shown on the map.');
+        return { lat: null, lng: null };
+    }
+    if (lat === 0 && lng === 0) {
+        warnings.push('Coordinates were 0,0; this lead cannot be shown on the map.');
+        return { lat: null, lng: null };
+    }
+    if (isValidLatLng(lat, lng)) return { lat, lng };
+    if (isValidLatLng(lng, lat)) {
+        warnings.push('Latitude and longitude appeared to be swapped and have been corrected.');
+        return { lat: lng, lng: lat };
+    }
+    warnings.push(`Coordinates ${lat}, ${lng} are out of range; this lead cannot be shown on the map.`);
+    return { lat: null, lng: null };
+}
+
+// --- Record Normalization ---
+
+/**
+ * Validates and repairs a single record returned by the model. Returns null
+ * when the record is beyond repair (not an object, or no name).
+ */
+export function normalizeBusiness(raw: unknown, source: string = ''): Business | null {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+    const record = raw as Record<string, unknown>;
+    const name = cleanString(record.name);
+    if (!name) return null;
+
+    const warnings: string[] = [];
+
+    const address = cleanString(record.address);
+    if (!address) warnings.push('No address was returned.');
+
+    const rawPhone = cleanString(record.phone);
+    let phone = '';
+    if (rawPhone) {
+        phone = normalizePhone(rawPhone) ?? '';
+        if (!phone) warnings.push(`Dropped invalid phone number "${rawPhone}".`);
+        else if (isFictionalPhone(phone)) warnings.push('Phone number is in the 555-01xx range reserved for fiction.');
+    }
+
+    const rawWebsite = cleanString(record.website);
+    let website = '';
+    if (rawWebsite) {
+        website = normalizeUrl(rawWebsite) ?? '';
+        if (!website) warnings.push(`Dropped malformed website "${rawWebsite}".`);
+    }
+
+    const socialMedia: SocialMedia = {};
+    const rawSocial = record.socialMedia;
+    if (rawSocial && typeof rawSocial === 'object' && !Array.isArray(rawSocial)) {
+        Object.entries(rawSocial as Record<string, unknown>).forEach(([platform, value]) => {
+            const cleaned = cleanString(value);
+            if (!cleaned) return;
+            const url = normalizeSocialUrl(platform.toLowerCase(), cleaned, warnings);
+            if (url) socialMedia[platform.toLowerCase()] = url;
+        });
+    }
+
+    const business: Business = {
+        id: getLeadKey({ name, address, phone }),
+        name,
+        address,
+        phone,
+        website,
+        summary: cleanString(record.summary),
+        rating: normalizeRating(record.rating, warnings),
+        ...normalizeCoordinates(record.lat, record.lng, warnings),
+        socialMedia,
+        warnings,
+        sources: {},
+    };
+    if (source) {
+        populatedFields(business).forEach(field => business.sources[field] = source);
+    }
+    return business;
+}
+
+/**
+ * Normalizes a raw model response. Records whose coordinates are clearly far
+ * from the search center keep their data but lose their map position.
+ */
+export function normalizeBusinesses(raw: unknown, context: NormalizeContext = {}): NormalizeResult {
+    const records = Array.isArray(raw) ? raw : [];
+    const businesses = records
+        .map(record => normalizeBusiness(record, context.source))
+        .filter((b): b is Business => b !== null);
+
+    const located = businesses.filter(b => b.lat !== null && b.lng !== null) as (Business & LatLng)[];
+    const center = context.center ?? (located.length >= 3 ? medianCenter(located) : null);
+    if (center) {
+        const radiusKm = milesToKm(context.radiusMiles && context.radiusMiles > 0 ? context.radiusMiles : 10);
+        const limitKm = Math.max(radiusKm * FAR_FROM_CENTER_FACTOR, FAR_FROM_CENTER_MIN_KM);
+        located.forEach(business => {
+            const distanceKm = haversineKm(center, business);
+            if (distanceKm > limitKm) {
+                business.warnings.push(`Coordinates are ${Math.round(distanceKm)} km from the search area and were discarded.`);
+                business.lat = null;
+                business.lng = null;
+                delete business.sources.location;
+            }
+        });
+    }
+
+    if (context.boundary) {
+        located
+            .filter(b => b.lat !== null && !isInsideBoundary(b, context.boundary!))
+            .forEach(b => b.warnings.push('Located outside the drawn search area.'));
+    }
+
+    return { businesses, dropped: records.length - businesses.length };
+}
@@ -0,0 +1,207 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { parseQueries, stateCode } from './batch.ts';
+import { deepSearchBusinesses, searchBusinesses } from './core.ts';
+import { DEFAULT_COLUMN_IDS, EXPORT_FORMATS, ExportFormat, Exportable, exportLeads, getExportColumns, resolveColumns } from './export.ts';
+import { SORT_FIELDS, matchesQuery, parseQuery, sortItems } from './filter.ts';
+import { LatLng, medianCenter } from './geo.ts';
+import { DEFAULT_PROVIDER_SETTINGS, PROVIDERS, ProviderId, createProvider } from './providers/index.ts';
+import { runQueue, withRetry } from './queue.ts';
+import { DEFAULT_SCORING_PROFILE, scoreBusiness } from './scoring.ts';
+import { SearchParams, describeSearch } from './search.ts';
+import { Lead, mergeSearchResults } from './workspace.ts';
+
+// Command-line front end to the search core, for scripted and scheduled
+// lead pulls. Results go to stdout (or --out) and progress to stderr.
+
+// Multi-search runs want to show which searches found each lead.
+const CLI_COLUMN_IDS = [...DEFAULT_COLUMN_IDS, 'queries'];
+
+const USAGE = `Usage: scout search [options]
+
+Search one place:
+  --type <text>          Business type, e.g. "dentists"
+  --city <name>          City
+  --state <code>         US state, e.g. CO
+  --radius <miles>       Search radius (default 10)
+
+Or run every search in a file:
+  --queries <file>       One search per line: dentists | Denver, CO | 10
+                         (radius optional; # starts a comment)
+
+Options:
+  --deep                 Split each area into tiles for more results
+  --filter <query>       Keep matching leads, e.g. 'rating>=4 website:*'
+  --sort <field>         Sort by ${SORT_FIELDS.map(field => field.id).join(', ')}
+  --desc                 Sort descending
+  --format <format>      ${EXPORT_FORMATS.map(format => format.id).join(', ')} (default csv)
+  --columns <ids>        Comma-separated export columns (default ${CLI_COLUMN_IDS.join(',')})
+  --out <file>           Write to a file instead of stdout
+  --provider <id>        ${PROVIDERS.map(provider => provider.id).join(', ')} (default gemini, which needs GEMINI_API_KEY)
+  --model <name>         Model name
+  --base-url <url>       OpenAI-compatible server URL (or OPENAI_BASE_URL)
+  --concurrency <n>      Searches run at once (default 2)
+  --retries <n>          Retries per search (default 2)
+  --quiet                No progress on stderr
+
+Exit codes: 0 success, 1 some searches or deep-search tiles failed (the rest are still written), 2 bad usage.`;
+
+const DEFAULT_RADIUS_MILES = 10;
+const RETRY_DELAY_MS = 2000;
+
+/** An error caused by the command line itself; it is reported with the usage text. */
+const usageError = (message: string) => Object.assign(new Error(message), { usage: true });
+
+const OPTIONS = {
+    type: { type: 'string' },
+    city: { type: 'string' },
+    state: { type: 'string' },
+    radius: { type: 'string' },
+    queries: { type: 'string' },
+    deep: { type: 'boolean' },
+    filter: { type: 'string' },
+    sort: { type: 'string' },
+    desc: { type: 'boolean' },
+    format: { type: 'string' },
+    columns: { type: 'string' },
+    out: { type: 'string' },
+    provider: { type: 'string' },
+    model: { type: 'string' },
+    'base-url': { type: 'string' },
+    concurrency: { type: 'string' },
+    retries: { type: 'string' },
+    quiet: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+} as const;
+
+type Options = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+function numberOption(value: string | undefined, name: string, fallback: number, min: number): number {
+    if (value === undefined) return fallback;
+    const number = Number(value);
+    if (!(number >= min)) throw usageError(`--${name} must be a number of at least ${min}.`);
+    return number;
+}
+
+function readQueries(options: Options): SearchParams[] {
+    const radiusMiles = numberOption(options.radius, 'radius', DEFAULT_RADIUS_MILES, 0.1);
+    if (options.queries) {
+        const { queries, problems } = parseQueries(readFileSync(options.queries, 'utf8'), radiusMiles);
+        if (problems.length > 0) throw usageError(problems.join('\n'));
+        if (queries.length === 0) throw usageError(`${options.queries} has no searches.`);
+        return queries;
+    }
+    const state = options.state ? stateCode(options.state) : null;
+    if (!options.type || !options.city || !state) {
+        throw usageError('Give --type, --city and --state (a US state), or --queries <file>.');
+    }
+    return [{ businessType: options.type, city: options.city, state, radiusMiles }];
+}
+
+function buildProvider(options: Options) {
+    const id = (options.provider ?? 'gemini') as ProviderId;
+    const info = PROVIDERS.find(provider => provider.id === id);
+    if (!info) throw usageError(`Unknown provider "${id}".`);
+    // Never fall back to the mock: a scheduled run would take its fixtures for real leads.
+    const geminiApiKey = process.env.GEMINI_API_KEY ?? process.env.API_KEY ?? '';
+    if (id === 'gemini' && !geminiApiKey) throw usageError('GEMINI_API_KEY is not set. Set it, or choose another --provider.');
+    return createProvider({
+        ...DEFAULT_PROVIDER_SETTINGS,
+        provider: id,
+        model: options.model ?? info.defaultModel,
+        baseUrl: options['base-url'] ?? process.env.OPENAI_BASE_URL ?? DEFAULT_PROVIDER_SETTINGS.baseUrl,
+        apiKey: process.env.OPENAI_API_KEY ?? '',
+    }, geminiApiKey);
+}
+
+async function runSearch(options: Options): Promise<number> {
+    const queries = readQueries(options);
+    const format = (options.format ?? 'csv') as ExportFormat;
+    if (!EXPORT_FORMATS.some(f => f.id === format)) throw usageError(`Unknown format "${format}".`);
+    const filter = parseQuery(options.filter ?? '');
+    if (filter.errors.length > 0) throw usageError(filter.errors.join(' '));
+    if (options.sort && !SORT_FIELDS.some(field => field.id === options.sort)) throw usageError(`Unknown sort field "${options.sort}".`);
+    const retries = Math.floor(numberOption(options.retries, 'retries', 2, 0));
+    const concurrency = Math.floor(numberOption(options.concurrency, 'concurrency', 2, 1));
+    const provider = buildProvider(options);
+    const log = (message: string) => {
+        if (!options.quiet) process.stderr.write(`${message}\n`);
+    };
+
+    const found = new Map<string, Lead>();
+    let center: LatLng | null = null;
+    let failed = 0;
+    await runQueue(queries, async params => {
+        const label = describeSearch(params);
+        // A deep search with failed tiles still returns the rest, but its results are incomplete.
+        let failedTiles = 0;
+        try {
+            const businesses = await withRetry(async () => {
+                if (!options.deep) return (await searchBusinesses(provider, params)).businesses;
+                const result = await deepSearchBusinesses(provider, params, {
+                    onCenter: c => { center = c; },
+                    onTileError: (tile, error) => log(`${label}: tile ${tile.id} failed: ${error instanceof Error ? error.message : error}`),
+                });
+                failedTiles = result.failed;
+                if (result.failed > 0) log(`${label}: ${result.failed} of ${result.tiles} tiles failed`);
+                return result.businesses;
+            }, {
+                retries,
+                baseDelayMs: RETRY_DELAY_MS,
+                onRetry: (attempt, error) => log(`${label}: retrying (attempt ${attempt + 1}) after ${error}`),
+            });
+            mergeSearchResults(businesses, found, label).forEach(lead => found.set(lead.id, lead));
+            log(`${label}: ${businesses.length} found`);
+            if (failedTiles > 0) failed++;
+        } catch (error) {
+            failed++;
+            log(`${label}: failed: ${error instanceof Error ? error.message : error}`);
+        }
+    }, { concurrency });
+
+    // Distances only mean something around a single searched place.
+    const leads = [...found.values()];
+    const scoringCenter = queries.length === 1
+        ? center ?? medianCenter(leads.filter(b => b.lat !== null && b.lng !== null).map(b => ({ lat: b.lat!, lng: b.lng! })))
+        : null;
+    const context = {
+        center: scoringCenter,
+        score: (item: Exportable) => item.score ?? null,
+    };
+    const scored: Exportable[] = leads.map(lead => ({ ...lead, score: scoreBusiness(lead, DEFAULT_SCORING_PROFILE.rules, { center: scoringCenter }).score }));
+    const matching = scored.filter(item => matchesQuery(item, filter, context));
+    const items = options.sort ? sortItems(matching, options.sort, !!options.desc, context) : matching;
+
+    const columns = resolveColumns(options.columns ? options.columns.split(',').map(id => id.trim()) : CLI_COLUMN_IDS, getExportColumns(items));
+    const file = exportLeads(items, format, columns);
+    if (options.out) writeFileSync(options.out, file.content);
+    else process.stdout.write(file.content);
+    log(`${items.length} lead${items.length === 1 ? '' : 's'} written${failed > 0 ? `; ${failed} of ${queries.length} searches failed or came back incomplete` : ''}`);
+    return failed > 0 ? 1 : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    if (values.help || positionals.length === 0) {
+        process.stdout.write(`${USAGE}\n`);
+        return values.help ? 0 : 2;
+    }
+    if (positionals[0] !== 'search' || positionals.length > 1) throw usageError(`Unknown command "${positionals.join(' ')}".`);
+    return runSearch(values);
+}
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+}, error => {
+    if (error.usage || error.code?.startsWith('ERR_PARSE_ARGS')) {
+        process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+        process.exitCode = 2;
+        return;
+    }
+    console.error('Scout Error:', error);
+    process.exitCode = 1;
+});
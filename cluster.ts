@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface ScreenPoint<T> {
+    /** Pixel position at the current zoom level. */
+    x: number;
+    y: number;
+    item: T;
+}
+
+export interface Cluster<T> {
+    /** Mean pixel position of the members. */
+    x: number;
+    y: number;
+    items: T[];
+}
+
+/**
+ * Groups points that fall in the same `cellSize` pixel square, then merges
+ * clusters whose centers ended up closer than half a cell across a grid
+ * line. Single points come back as clusters of one.
+ */
+export function clusterPoints<T>(points: ScreenPoint<T>[], cellSize: number): Cluster<T>[] {
+    const cells = new Map<string, ScreenPoint<T>[]>();
+    points.forEach(point => {
+        const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+        cells.set(key, [...(cells.get(key) ?? []), point]);
+    });
+
+    const clusters = [...cells.values()].map(members => ({
+        x: members.reduce((sum, p) => sum + p.x, 0) / members.length,
+        y: members.reduce((sum, p) => sum + p.y, 0) / members.length,
+        items: members.map(p => p.item),
+    }));
+
+    const merged: Cluster<T>[] = [];
+    clusters.sort((a, b) => b.items.length - a.items.length).forEach(cluster => {
+        const near = merged.find(other => Math.hypot(other.x - cluster.x, other.y - cluster.y) < cellSize / 2);
+        if (!near) {
+            merged.push(cluster);
+            return;
+        }
+        const total = near.items.length + cluster.items.length;
+        near.x = (near.x * near.items.length + cluster.x * cluster.items.length) / total;
+        near.y = (near.y * near.items.length + cluster.y * cluster.items.length) / total;
+        near.items.push(...cluster.items);
+    });
+    return merged;
+}
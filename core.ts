@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { SearchBoundary, boundaryCenter, circleTouchesBoundary } from './area.ts';
+import { Business, NormalizeContext, normalizeBusinesses } from './business.ts';
+import { mergeBusinesses } from './dedupe.ts';
+import { LatLng, isValidLatLng } from './geo.ts';
+import { createArrayItemParser } from './jsonstream.ts';
+import { GenerateJsonRequest, LlmProvider, streamJson } from './providers/index.ts';
+import { runQueue } from './queue.ts';
+import { BUSINESS_LIST_SCHEMA, LOCATION_SCHEMA, SearchParams, buildCenterPrompt, buildSearchPrompt, describeSearch, searchCacheKey } from './search.ts';
+import { Tile, createTileGrid, subdivideTile } from './tiling.ts';
+
+// The search pipeline without any UI: prompt, model call, normalization and
+// deep-search tiling. The web app and the command-line tool both run it.
+
+// --- Types ---
+
+export interface SearchOptions {
+    signal?: AbortSignal;
+    /** Ask the model again instead of answering from the response cache. */
+    refresh?: boolean;
+}
+
+export interface SearchResult {
+    businesses: Business[];
+    /** Records in the response that were too malformed to keep. */
+    dropped: number;
+    /** When the response came from the cache, the time it was first received. */
+    cachedAt?: number;
+}
+
+export interface StreamSearchOptions extends SearchOptions {
+    /** Each business as soon as its record is complete in the response. */
+    onBusiness?: (business: Business) => void;
+}
+
+export interface StreamSearchResult extends SearchResult {
+    /** Set when the response stopped early; the businesses are those received before. */
+    interrupted?: { cancelled: boolean; error: unknown };
+}
+
+export type TileStatus = 'queued' | 'running' | 'done' | 'subdivided' | 'failed' | 'cancelled';
+
+export interface DeepSearchOptions extends SearchOptions {
+    concurrency?: number;
+    onCenter?: (center: LatLng) => void;
+    /** New tiles to search: the initial grid, then the quadrants of crowded tiles. */
+    onTiles?: (tiles: Tile[]) => void;
+    onTileStatus?: (tile: Tile, status: TileStatus, count?: number) => void;
+    /** Why a tile failed; the search carries on with the others. */
+    onTileError?: (tile: Tile, error: unknown) => void;
+    /** After every tile, with everything found so far. */
+    onProgress?: (progress: { finished: number; total: number; businesses: Business[] }) => void;
+}
+
+export interface DeepSearchResult {
+    businesses: Business[];
+    tiles: number;
+    failed: number;
+    /** Stopped through the signal; the businesses are those from finished tiles. */
+    cancelled: boolean;
+}
+
+// --- Search ---
+
+const DEEP_SEARCH_CONCURRENCY = 3;
+// A tile returning at least this many businesses probably hit the per-response
+// ceiling, so it is split into quadrants and searched again.
+const SUBDIVIDE_MIN_RESULTS = 5;
+
+function searchRequest(params: SearchParams, options: SearchOptions): GenerateJsonRequest {
+    return {
+        prompt: buildSearchPrompt(params),
+        schema: BUSINESS_LIST_SCHEMA,
+        schemaName: 'business_list',
+        label: describeSearch(params),
+        cacheKey: searchCacheKey(params),
+        refresh: options.refresh,
+        signal: options.signal,
+    };
+}
+
+function normalizeContext(params: SearchParams): NormalizeContext {
+    return {
+        source: describeSearch(params),
+        radiusMiles: params.radiusMiles,
+        center: params.boundary ? boundaryCenter(params.boundary) : null,
+        boundary: params.boundary,
+    };
+}
+
+/** One request for the whole search area. */
+export async function searchBusinesses(provider: LlmProvider, params: SearchParams, options: SearchOptions = {}): Promise<SearchResult> {
+    const { data, cachedAt } = await provider.generateJson(searchRequest(params, options));
+    const { businesses, dropped } = normalizeBusinesses(data, normalizeContext(params));
+    return { businesses, dropped, cachedAt };
+}
+
+/**
+ * Like `searchBusinesses`, but streams the response and hands over each
+ * business as soon as its record is complete. When the stream stops early,
+ * through the signal or a failure, the businesses received so far are
+ * returned with `interrupted` set; a failure before the first one throws.
+ */
+export async function streamSearchBusinesses(provider: LlmProvider, params: SearchParams, options: StreamSearchOptions = {}): Promise<StreamSearchResult> {
+    const context = normalizeContext(params);
+    const received: unknown[] = [];
+    const parser = createArrayItemParser(item => {
+        received.push(item);
+        normalizeBusinesses([item], context).businesses.forEach(business => options.onBusiness?.(business));
+    });
+    try {
+        const { data, cachedAt } = await streamJson(provider, searchRequest(params, options), chunk => parser.push(chunk));
+        const { businesses, dropped } = normalizeBusinesses(data, context);
+        return { businesses, dropped, cachedAt };
+    } catch (error) {
+        const cancelled = !!options.signal?.aborted;
+        if (received.length === 0 && !cancelled) throw error;
+        // Normalized together, so the area checks see the whole partial list.
+        const { businesses, dropped } = normalizeBusinesses(received, context);
+        return { businesses, dropped, interrupted: { cancelled, error } };
+    }
+}
+
+export async function locateCity(provider: LlmProvider, city: string, state: string, signal?: AbortSignal): Promise<LatLng> {
+    const { data } = await provider.generateJson({
+        prompt: buildCenterPrompt(city, state),
+        schema: LOCATION_SCHEMA,
+        schemaName: 'location',
+        label: `Locate ${city}, ${state}`,
+        cacheKey: JSON.stringify([city.toLowerCase(), state.toLowerCase()]),
+        signal,
+    });
+    const { lat, lng } = data as Partial<LatLng>;
+    if (!isValidLatLng(lat, lng)) {
+        throw new Error(`Could not locate ${city}, ${state}.`);
+    }
+    return { lat: lat!, lng: lng! };
+}
+
+/**
+ * Splits the search radius into a grid of tiles and queries each one, so the
+ * combined results are not limited to what fits in a single response. Failed
+ * tiles are counted rather than failing the search.
+ */
+export async function deepSearchBusinesses(provider: LlmProvider, params: SearchParams, options: DeepSearchOptions = {}): Promise<DeepSearchResult> {
+    const { signal } = options;
+    const found = new Map<string, Business>();
+    let total = 0;
+    let finished = 0;
+    let failed = 0;
+
+    try {
+        const { boundary } = params;
+        const center = boundary ? boundaryCenter(boundary) : await locateCity(provider, params.city, params.state, signal);
+        options.onCenter?.(center);
+        const touchesArea = (tile: Tile) => !boundary || circleTouchesBoundary(tile.center, tile.radiusMiles, boundary);
+        const tiles = createTileGrid(center, params.radiusMiles).filter(touchesArea);
+        total = tiles.length;
+        options.onTiles?.(tiles);
+        options.onProgress?.({ finished, total, businesses: [] });
+
+        await runQueue(tiles, async (tile, enqueue) => {
+            options.onTileStatus?.(tile, 'running');
+            try {
+                const tileBoundary: SearchBoundary = { kind: 'circle', center: tile.center, radiusMiles: tile.radiusMiles };
+                const { data } = await provider.generateJson({
+                    prompt: buildSearchPrompt(params, tileBoundary),
+                    schema: BUSINESS_LIST_SCHEMA,
+                    schemaName: 'business_list',
+                    label: `Deep search: ${describeSearch(params)}`,
+                    cacheKey: searchCacheKey({ ...params, boundary: tileBoundary }),
+                    refresh: options.refresh,
+                    signal,
+                });
+                const { businesses } = normalizeBusinesses(data, {
+                    source: describeSearch(params),
+                    radiusMiles: params.radiusMiles,
+                    center,
+                    boundary,
+                });
+                businesses.forEach(business => {
+                    const existing = found.get(business.id);
+                    found.set(business.id, existing ? mergeBusinesses([existing, business]) : business);
+                });
+
+                const children = businesses.length >= SUBDIVIDE_MIN_RESULTS ? subdivideTile(tile).filter(touchesArea) : [];
+                options.onTileStatus?.(tile, children.length > 0 ? 'subdivided' : 'done', businesses.length);
+                if (children.length > 0) options.onTiles?.(children);
+                total += children.length;
+                enqueue(...children);
+            } catch (error) {
+                if (signal?.aborted) {
+                    options.onTileStatus?.(tile, 'cancelled');
+                    return;
+                }
+                options.onTileError?.(tile, error);
+                options.onTileStatus?.(tile, 'failed');
+                failed++;
+            } finally {
+                finished++;
+                options.onProgress?.({ finished, total, businesses: [...found.values()] });
+            }
+        }, { concurrency: options.concurrency ?? DEEP_SEARCH_CONCURRENCY, signal });
+    } catch (error) {
+        // Cancelling before the first tile finishes is not an error.
+        if (!signal?.aborted) throw error;
+    }
+    return { businesses: [...found.values()], tiles: total, failed, cancelled: !!signal?.aborted };
+}
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { Business } from './business.ts';
+import { MATCH_THRESHOLD, addressSimilarity, findDuplicateGroups, matchBusinesses, mergeBusinesses, nameSimilarity } from './dedupe.ts';
+
+function business(fields: Partial<Business> & Pick<Business, 'id' | 'name'>): Business {
+    return {
+        address: '',
+        phone: '',
+        website: '',
+        summary: '',
+        rating: null,
+        lat: null,
+        lng: null,
+        socialMedia: {},
+        warnings: [],
+        sources: {},
+        ...fields,
+    };
+}
+
+const blueBottle = business({
+    id: 'a',
+    name: 'Blue Bottle Coffee',
+    address: '66 Mint St, San Francisco, CA 94103',
+    phone: '+14155550100',
+    lat: 37.7825,
+    lng: -122.4074,
+});
+
+describe('nameSimilarity', () => {
+    it('ignores case, punctuation and company suffixes', () => {
+        expect(nameSimilarity('Joe’s Pizza, LLC', 'joes pizza')).toBe(1);
+        expect(nameSimilarity('The Coffee & Tea Co.', 'Coffee and Tea')).toBe(1);
+    });
+
+    it('scores a name plus a descriptor as similar', () => {
+        expect(nameSimilarity('Blue Bottle', 'Blue Bottle Coffee')).toBeGreaterThanOrEqual(0.85);
+    });
+
+    it('scores unrelated names low', () => {
+        expect(nameSimilarity('Blue Bottle', 'Ritual Roasters')).toBeLessThan(0.3);
+        expect(nameSimilarity('', 'Ritual Roasters')).toBe(0);
+    });
+});
+
+describe('addressSimilarity', () => {
+    it('treats abbreviations and suite numbers as the same street', () => {
+        const { similarity } = addressSimilarity('66 Mint Street Suite 4, San Francisco', '66 Mint St, San Francisco');
+        expect(similarity).toBe(1);
+    });
+
+    it('reports a differing street number as a mismatch', () => {
+        expect(addressSimilarity('66 Mint St', '68 Mint St')).toEqual({ similarity: 0, numbersDiffer: true });
+    });
+});
+
+describe('matchBusinesses', () => {
+    it('matches the same place returned with cosmetic differences', () => {
+        const other = business({ ...blueBottle, id: 'b', name: 'Blue Bottle', address: '66 Mint Street, San Francisco' });
+        const { score, reasons } = matchBusinesses(blueBottle, other);
+        expect(score).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+        expect(reasons).toContain('Same phone number');
+        expect(reasons).toContain('Same street address');
+    });
+
+    it('keeps branches with different numbers and locations apart', () => {
+        const branch = business({
+            id: 'b',
+            name: 'Blue Bottle Coffee',
+            address: '300 Webster St, Oakland, CA 94607',
+            phone: '+15105550111',
+            lat: 37.7956,
+            lng: -122.2768,
+        });
+        expect(matchBusinesses(blueBottle, branch).score).toBeLessThan(MATCH_THRESHOLD);
+    });
+});
+
+describe('findDuplicateGroups', () => {
+    const copy = business({ ...blueBottle, id: 'b', name: 'Blue Bottle' });
+    const third = business({ ...blueBottle, id: 'c', name: 'Blue Bottle Coffee Co' });
+    const unrelated = business({ id: 'd', name: 'Ritual Roasters', address: '1026 Valencia St, San Francisco, CA 94110' });
+
+    it('groups every record that matches a candidate, including ones from the pool', () => {
+        const groups = findDuplicateGroups([copy], [blueBottle, unrelated]);
+        expect(groups).toHaveLength(1);
+        expect(groups[0].members.map(member => member.id).sort()).toEqual(['a', 'b']);
+        expect(groups[0].reasons).toContain('Same phone number');
+    });
+
+    it('joins chains of matches into one group', () => {
+        const groups = findDuplicateGroups([blueBottle, copy, third], []);
+        expect(groups.map(group => group.members.map(member => member.id).sort())).toEqual([['a', 'b', 'c']]);
+    });
+
+    it('leaves out pairs the user marked as distinct', () => {
+        expect(findDuplicateGroups([copy], [blueBottle], () => true)).toEqual([]);
+    });
+});
+
+describe('mergeBusinesses', () => {
+    it('keeps the primary record and fills its gaps from the others with their sources', () => {
+        const primary = business({ id: 'a', name: 'Blue Bottle', phone: '+14155550100', sources: { phone: 'search 1' } });
+        const other = business({
+            id: 'b',
+            name: 'Blue Bottle Coffee',
+            phone: '+14155550199',
+            website: 'https://bluebottlecoffee.com',
+            rating: 4.4,
+            socialMedia: { instagram: 'https://instagram.com/bluebottle' },
+            warnings: ['No address was returned.'],
+            sources: { website: 'search 2', rating: 'search 2', 'socialMedia.instagram': 'search 2' },
+        });
+        const merged = mergeBusinesses([primary, other]);
+        expect(merged.id).toBe('a');
+        expect(merged.name).toBe('Blue Bottle');
+        expect(merged.phone).toBe('+14155550100');
+        expect(merged.website).toBe('https://bluebottlecoffee.com');
+        expect(merged.rating).toBe(4.4);
+        expect(merged.socialMedia.instagram).toBe('https://instagram.com/bluebottle');
+        expect(merged.warnings).toEqual(['No address was returned.']);
+        expect(merged.sources).toEqual({ phone: 'search 1', website: 'search 2', rating: 'search 2', 'socialMedia.instagram': 'search 2' });
+    });
+});
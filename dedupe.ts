@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Business, normalizeAddress, normalizeName, populatedFields } from './business.ts';
+import { haversineKm } from './geo.ts';
+
+// --- Types ---
+
+export interface MatchResult {
+    /** Roughly 0–1; pairs at or above MATCH_THRESHOLD are suggested as duplicates. */
+    score: number;
+    reasons: string[];
+}
+
+export interface DuplicateGroup<T extends Business> {
+    members: T[];
+    reasons: string[];
+}
+
+// --- Constants ---
+
+export const MATCH_THRESHOLD = 0.7;
+
+const NEAR_KM = 0.1;
+const CLOSE_KM = 0.3;
+const FAR_KM = 2;
+
+// --- Similarity ---
+
+function bigrams(value: string): string[] {
+    const compact = value.replace(/\s+/g, '');
+    const grams: string[] = [];
+    for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+    return grams;
+}
+
+// Sørensen–Dice coefficient over character bigrams.
+function diceCoefficient(a: string, b: string): number {
+    const gramsA = bigrams(a);
+    const gramsB = bigrams(b);
+    if (gramsA.length === 0 || gramsB.length === 0) return a === b ? 1 : 0;
+    const counts = new Map<string, number>();
+    gramsA.forEach(g => counts.set(g, (counts.get(g) ?? 0) + 1));
+    let overlap = 0;
+    gramsB.forEach(g => {
+        const count = counts.get(g) ?? 0;
+        if (count > 0) {
+            overlap++;
+            counts.set(g, count - 1);
+        }
+    });
+    return (2 * overlap) / (gramsA.length + gramsB.length);
+}
+
+function tokenJaccard(a: string[], b: string[]): number {
+    const setA = new Set(a);
+    const setB = new Set(b);
+    if (setA.size === 0 && setB.size === 0) return 0;
+    let intersection = 0;
+    setA.forEach(token => { if (setB.has(token)) intersection++; });
+    return intersection / (setA.size + setB.size - intersection);
+}
+
+/** 0–1 similarity of two business names after normalization. */
+export function nameSimilarity(a: string, b: string): number {
+    const nameA = normalizeName(a);
+    const nameB = normalizeName(b);
+    if (!nameA || !nameB) return 0;
+    if (nameA === nameB) return 1;
+
+    const tokensA = nameA.split(' ');
+    const tokensB = nameB.split(' ');
+    // "Blue Bottle" vs "Blue Bottle Coffee": one name is the other plus a descriptor.
+    const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+    const contained = shorter.every(token => longer.includes(token)) && shorter.some(token => token.length >= 4);
+
+    return Math.max(diceCoefficient(nameA, nameB), tokenJaccard(tokensA, tokensB), contained ? 0.85 : 0);
+}
+
+function streetNumber(address: string): string | null {
+    return address.match(/^\d+[a-z]?\b/)?.[0] ?? null;
+}
+
+/** Compares the street part of two addresses; a differing street number is a hard mismatch. */
+export function addressSimilarity(a: string, b: string): { similarity: number; numbersDiffer: boolean } {
+    const addressA = normalizeAddress(a);
+    const addressB = normalizeAddress(b);
+    if (!addressA || !addressB) return { similarity: 0, numbersDiffer: false };
+
+    const numberA = streetNumber(addressA);
+    const numberB = streetNumber(addressB);
+    if (numberA && numberB && numberA !== numberB) return { similarity: 0, numbersDiffer: true };
+
+    const street = (address: string) => address.split(' ').slice(0, 4);
+    return { similarity: tokenJaccard(street(addressA), street(addressB)), numbersDiffer: false };
+}
+
+/** Scores how likely two records describe the same business, with human-readable reasons. */
+export function matchBusinesses(a: Business, b: Business): MatchResult {
+    const reasons: string[] = [];
+    const name = nameSimilarity(a.name, b.name);
+    let score = name * 0.5;
+    if (name >= 0.6) reasons.push(`Similar name (${Math.round(name * 100)}%)`);
+
+    if (a.phone && b.phone) {
+        if (a.phone === b.phone) {
+            score += 0.4;
+            reasons.push('Same phone number');
+        } else {
+            score -= 0.15;
+        }
+    }
+
+    const address = addressSimilarity(a.address, b.address);
+    if (address.numbersDiffer) {
+        score -= 0.3;
+    } else if (address.similarity > 0) {
+        score += address.similarity * 0.3;
+        if (address.similarity >= 0.6) reasons.push('Same street address');
+    }
+
+    if (a.lat !== null && a.lng !== null && b.lat !== null && b.lng !== null) {
+        const distanceKm = haversineKm({ lat: a.lat, lng: a.lng }, { lat: b.lat, lng: b.lng });
+        if (distanceKm < NEAR_KM) score += 0.2;
+        else if (distanceKm < CLOSE_KM) score += 0.1;
+        else if (distanceKm > FAR_KM) score -= 0.3;
+        if (distanceKm < CLOSE_KM) reasons.push(`${Math.round(distanceKm * 1000)} m apart`);
+    }
+
+    return { score, reasons };
+}
+
+// --- Grouping ---
+
+/**
+ * Finds clusters of records that probably describe the same business. Every
+ * group contains at least one of `candidates`; the rest may come from `pool`
+ * (for example, leads already in the workspace). `isDistinct` lets callers
+ * suppress pairs the user has already said are different businesses.
+ */
+export function findDuplicateGroups<T extends Business>(
+    candidates: T[],
+    pool: T[],
+    isDistinct: (a: T, b: T) => boolean = () => false,
+): DuplicateGroup<T>[] {
+    const records = [...new Map([...pool, ...candidates].map(r => [r.id, r])).values()];
+    const candidateIds = new Set(candidates.map(c => c.id));
+    const index = new Map(records.map((r, i) => [r.id, i]));
+
+    // Union-find over record indices.
+    const parent = records.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const reasonsByRoot = new Map<number, Set<string>>();
+    const pairReasons: [number, number, string[]][] = [];
+
+    candidates.forEach(candidate => {
+        const i = index.get(candidate.id)!;
+        records.forEach((other, j) => {
+            if (j === i || (candidateIds.has(other.id) && j < i)) return;
+            if (isDistinct(candidate, other)) return;
+            const { score, reasons } = matchBusinesses(candidate, other);
+            if (score >= MATCH_THRESHOLD) {
+                parent[find(i)] = find(j);
+                pairReasons.push([i, j, reasons]);
+            }
+        });
+    });
+
+    pairReasons.forEach(([i, , reasons]) => {
+        const root = find(i);
+        const set = reasonsByRoot.get(root) ?? new Set<string>();
+        reasons.forEach(r => set.add(r));
+        reasonsByRoot.set(root, set);
+    });
+
+    const groups = new Map<number, T[]>();
+    records.forEach((record, i) => {
+        const root = find(i);
+        if (!reasonsByRoot.has(root)) return;
+        groups.set(root, [...(groups.get(root) ?? []), record]);
+    });
+    return [...groups.entries()].map(([root, members]) => ({
+        members,
+        reasons: [...reasonsByRoot.get(root)!],
+    }));
+}
+
+// --- Merging ---
+
+/**
+ * Combines records describing the same business. Fields are taken from the
+ * first record that has them, so callers should pass the preferred record
+ * first. The merged record keeps the primary's id, and each field keeps the
+ * source it was taken from.
+ */
+export function mergeBusinesses(records: Business[]): Business {
+    const [primary, ...rest] = records;
+    const merged: Business = {
+        ...primary,
+        socialMedia: { ...primary.socialMedia },
+        warnings: [...primary.warnings],
+        sources: { ...primary.sources },
+    };
+
+    rest.forEach(record => {
+        const filled = new Set(populatedFields(merged));
+        (['address', 'phone', 'website', 'summary'] as const).forEach(field => {
+            if (!filled.has(field) && record[field]) {
+                merged[field] = record[field];
+                if (record.sources[field]) merged.sources[field] = record.sources[field];
+            }
+        });
+        if (!filled.has('rating') && record.rating !== null) {
+            merged.rating = record.rating;
+            if (record.sources.rating) merged.sources.rating = record.sources.rating;
+        }
+        if (!filled.has('location') && record.lat !== null && record.lng !== null) {
+            merged.lat = record.lat;
+            merged.lng = record.lng;
+            if (record.sources.location) merged.sources.location = record.sources.location;
+        }
+        Object.entries(record.socialMedia).forEach(([platform, url]) => {
+            if (url && !merged.socialMedia[platform]) {
+                merged.socialMedia[platform] = url;
+                const key = `socialMedia.${platform}`;
+                if (record.sources[key]) merged.sources[key] = record.sources[key];
+            }
+        });
+        record.warnings.forEach(w => { if (!merged.warnings.includes(w)) merged.warnings.push(w); });
+    });
+    return merged;
+}
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import * as L from 'leaflet';
+import { BoundaryKind, SearchBoundary } from './area.ts';
+import { KM_PER_MILE } from './geo.ts';
+
+const BOUNDARY_STYLE = { color: '#F25A5A', weight: 2, fillOpacity: 0.08 };
+const METERS_PER_MILE = KM_PER_MILE * 1000;
+// Clicking this close to the first vertex closes a polygon.
+const CLOSE_POLYGON_PX = 10;
+
+const toLatLng = (p: L.LatLng) => ({ lat: p.lat, lng: p.lng });
+
+// The parts of Leaflet's mouse events and vector layers the drawing tools use.
+interface MapMouseEvent {
+    latlng: L.LatLng;
+    containerPoint: L.Point;
+}
+
+interface PreviewLayer {
+    addTo(map: L.Map): this;
+}
+
+interface OutlineLayer extends PreviewLayer {
+    setLatLngs(points: L.LatLng[]): this;
+}
+
+/** Leaflet layer that displays a boundary. */
+export function createBoundaryLayer(boundary: SearchBoundary): L.Circle | L.Polygon {
+    switch (boundary.kind) {
+        case 'circle':
+            return L.circle([boundary.center.lat, boundary.center.lng], { ...BOUNDARY_STYLE, radius: boundary.radiusMiles * METERS_PER_MILE });
+        case 'rectangle':
+            return L.rectangle([[boundary.southWest.lat, boundary.southWest.lng], [boundary.northEast.lat, boundary.northEast.lng]], BOUNDARY_STYLE);
+        case 'polygon':
+            return L.polygon(boundary.points.map(p => [p.lat, p.lng]), BOUNDARY_STYLE);
+    }
+}
+
+/**
+ * Lets the user draw a boundary on the map. Circles and rectangles are
+ * dragged out; polygons are clicked point by point and closed with a
+ * double-click or a click on the first point. Returns a function that
+ * cancels the drawing.
+ */
+export function startDrawing(map: L.Map, kind: BoundaryKind, onComplete: (boundary: SearchBoundary) => void): () => void {
+    const container = map.getContainer();
+    let preview: PreviewLayer | null = null;
+    let start: L.LatLng | null = null;
+    const points: L.LatLng[] = [];
+
+    map.dragging.disable();
+    map.doubleClickZoom.disable();
+    container.classList.add('drawing');
+
+    const setPreview = (layer: PreviewLayer | null) => {
+        if (preview) map.removeLayer(preview);
+        preview = layer ? layer.addTo(map) : null;
+    };
+
+    const cleanup = () => {
+        map.off('mousedown', onMouseDown);
+        map.off('mousemove', onMouseMove);
+        map.off('mouseup', onMouseUp);
+        map.off('click', onClick);
+        map.off('dblclick', onDoubleClick);
+        setPreview(null);
+        map.dragging.enable();
+        map.doubleClickZoom.enable();
+        container.classList.remove('drawing');
+    };
+
+    const finish = (boundary: SearchBoundary) => {
+        cleanup();
+        onComplete(boundary);
+    };
+
+    function onMouseDown(e: MapMouseEvent) {
+        if (kind === 'polygon') return;
+        start = e.latlng;
+    }
+
+    function onMouseMove(e: MapMouseEvent) {
+        if (kind === 'polygon') {
+            if (points.length > 0) setPreview(L.polyline([...points, e.latlng], { ...BOUNDARY_STYLE, dashArray: '4 4' }));
+            return;
+        }
+        if (!start) return;
+        setPreview(kind === 'circle'
+            ? L.circle(start, { ...BOUNDARY_STYLE, radius: start.distanceTo(e.latlng) })
+            : L.rectangle(L.latLngBounds(start, e.latlng), BOUNDARY_STYLE));
+    }
+
+    function onMouseUp(e: MapMouseEvent) {
+        if (kind === 'polygon' || !start) return;
+        const end: L.LatLng = e.latlng;
+        const origin = start;
+        start = null;
+        if (origin.equals(end)) return;
+        if (kind === 'circle') {
+            finish({ kind: 'circle', center: toLatLng(origin), radiusMiles: origin.distanceTo(end) / METERS_PER_MILE });
+        } else {
+            const bounds = L.latLngBounds(origin, end);
+            finish({ kind: 'rectangle', southWest: toLatLng(bounds.getSouthWest()), northEast: toLatLng(bounds.getNorthEast()) });
+        }
+    }
+
+    function closePolygon() {
+        if (points.length >= 3) finish({ kind: 'polygon', points: points.map(toLatLng) });
+    }
+
+    function onClick(e: MapMouseEvent) {
+        if (kind !== 'polygon') return;
+        if (points.length >= 3 && map.latLngToContainerPoint(points[0]).distanceTo(e.containerPoint) < CLOSE_POLYGON_PX) {
+            closePolygon();
+            return;
+        }
+        const last = points[points.length - 1];
+        if (!last || !last.equals(e.latlng)) points.push(e.latlng);
+    }
+
+    function onDoubleClick() {
+        if (kind === 'polygon') closePolygon();
+    }
+
+    map.on('mousedown', onMouseDown);
+    map.on('mousemove', onMouseMove);
+    map.on('mouseup', onMouseUp);
+    map.on('click', onClick);
+    map.on('dblclick', onDoubleClick);
+    return cleanup;
+}
+
+/**
+ * Freehand lasso: press and drag around the points to select, release to
+ * finish. Calls `onComplete` with the traced outline, or not at all if the
+ * drag was too short to enclose anything. Returns a cancel function.
+ */
+export function startLasso(map: L.Map, onComplete: (points: { lat: number; lng: number }[]) => void): () => void {
+    const container = map.getContainer();
+    let preview: OutlineLayer | null = null;
+    let points: L.LatLng[] | null = null;
+
+    map.dragging.disable();
+    container.classList.add('drawing');
+
+    const cleanup = () => {
+        map.off('mousedown', onMouseDown);
+        map.off('mousemove', onMouseMove);
+        map.off('mouseup', onMouseUp);
+        if (preview) map.removeLayer(preview);
+        map.dragging.enable();
+        container.classList.remove('drawing');
+    };
+
+    function onMouseDown(e: MapMouseEvent) {
+        points = [e.latlng];
+    }
+
+    function onMouseMove(e: MapMouseEvent) {
+        if (!points) return;
+        points.push(e.latlng);
+        if (preview) preview.setLatLngs(points);
+        else preview = L.polygon(points, { ...BOUNDARY_STYLE, dashArray: '4 4' }).addTo(map);
+    }
+
+    function onMouseUp() {
+        const traced = points;
+        points = null;
+        if (!traced || traced.length < 3) return;
+        cleanup();
+        onComplete(traced.map(toLatLng));
+    }
+
+    map.on('mousedown', onMouseDown);
+    map.on('mousemove', onMouseMove);
+    map.on('mouseup', onMouseUp);
+    return cleanup;
+}
@@ -0,0 +1,303 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Business, normalizeBusiness, normalizeSocialUrl } from './business.ts';
+import { JsonSchema } from './providers/index.ts';
+
+// --- Types ---
+
+export type EnrichableField = 'phone' | 'website' | 'summary' | 'location' | 'socialMedia';
+
+export interface FieldChange {
+    /** Field name, 'location', or 'socialMedia.<platform>', matching `Business.sources` keys. */
+    key: string;
+    label: string;
+    before: string;
+    after: string;
+}
+
+export type Confidence = 'high' | 'medium' | 'low';
+
+/** One researched fact about a lead. */
+export interface EnrichedValue {
+    value: string | number;
+    confidence: Confidence;
+    /** Epoch milliseconds of the model call that produced it. */
+    enrichedAt: number;
+}
+
+export interface EnrichmentAttribute {
+    key: string;
+    label: string;
+    schema: JsonSchema;
+}
+
+export interface DeepEnrichment {
+    /** Keyed by attribute key, or 'socialMedia.<platform>' for profile links. */
+    values: Record<string, EnrichedValue>;
+    socialMedia: Record<string, string>;
+}
+
+/** One element of a FILL_MISSING_SCHEMA response, before normalization. */
+export interface FillMissingAnswer {
+    /** Position of the business in the prompt, counting from 1. */
+    ref: string;
+    phone?: string;
+    website?: string;
+    summary?: string;
+    lat?: number;
+    lng?: number;
+    socialMedia?: Record<string, string>;
+}
+
+export interface EnrichmentProposal {
+    id: string;
+    name: string;
+    changes: FieldChange[];
+    /** The business with every proposed change applied; changes are copied from here. */
+    proposed: Business;
+}
+
+// --- Constants ---
+
+export const ENRICHMENT_SOURCE = 'AI enrichment';
+/** Businesses per model request. */
+export const ENRICHMENT_BATCH_SIZE = 10;
+
+export const FILL_MISSING_SCHEMA: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            ref: { type: 'string', description: 'The ref given for the business in the prompt.' },
+            phone: { type: 'string' },
+            website: { type: 'string' },
+            summary: { type: 'string' },
+            lat: { type: 'number' },
+            lng: { type: 'number' },
+            socialMedia: {
+                type: 'object',
+                properties: {
+                    instagram: { type: 'string' },
+                    twitter: { type: 'string' },
+                    facebook: { type: 'string' },
+                },
+            },
+        },
+        required: ['ref'],
+    },
+};
+
+export const CONFIDENCE_LEVELS: Confidence[] = ['high', 'medium', 'low'];
+
+export const ENRICHMENT_ATTRIBUTES: EnrichmentAttribute[] = [
+    { key: 'hours', label: 'Opening Hours', schema: { type: 'string', description: 'Opening hours, e.g. "Mon–Fri 7am–6pm, Sat 8am–2pm".' } },
+    { key: 'owner', label: 'Owner / Decision Maker', schema: { type: 'string', description: 'Name of the owner, founder or manager.' } },
+    { key: 'email', label: 'Contact Email', schema: { type: 'string', description: 'A generic contact address such as info@ or hello@.' } },
+    { key: 'employeeCount', label: 'Employees', schema: { type: 'integer', description: 'Estimated number of employees.' } },
+    { key: 'priceTier', label: 'Price Tier', schema: { type: 'string', enum: ['$', '$$', '$$$', '$$$$'] } },
+    { key: 'yearsInBusiness', label: 'Years in Business', schema: { type: 'integer' } },
+];
+
+export const DEEP_ENRICHMENT_PLATFORMS = ['linkedin', 'yelp', 'tiktok'];
+
+const withConfidence = (value: JsonSchema): JsonSchema => ({
+    type: 'object',
+    properties: {
+        value,
+        confidence: { type: 'string', enum: CONFIDENCE_LEVELS },
+    },
+    required: ['value', 'confidence'],
+});
+
+export const DEEP_ENRICHMENT_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        ...Object.fromEntries(ENRICHMENT_ATTRIBUTES.map(attribute => [attribute.key, withConfidence(attribute.schema)])),
+        ...Object.fromEntries(DEEP_ENRICHMENT_PLATFORMS.map(platform => [platform, withConfidence({ type: 'string', description: `${platform} profile URL` })])),
+    },
+};
+
+const FIELD_LABELS: Record<EnrichableField, string> = {
+    phone: 'phone number',
+    website: 'website URL',
+    summary: '1-2 sentence summary',
+    location: 'latitude and longitude',
+    socialMedia: 'social media URLs',
+};
+
+// --- Prompt ---
+
+export function missingFields(business: Business): EnrichableField[] {
+    const missing: EnrichableField[] = [];
+    if (!business.phone) missing.push('phone');
+    if (!business.website) missing.push('website');
+    if (!business.summary) missing.push('summary');
+    if (business.lat === null || business.lng === null) missing.push('location');
+    if (!Object.values(business.socialMedia).some(Boolean)) missing.push('socialMedia');
+    return missing;
+}
+
+/** Refs are the businesses' positions in `businesses`, starting at 1. */
+export function buildFillMissingPrompt(businesses: Business[]): string {
+    const lines = businesses.map((business, i) =>
+        `ref: ${i + 1} | ${business.name} | ${business.address || 'address unknown'} | missing: ${missingFields(business).map(field => FIELD_LABELS[field]).join(', ')}`);
+    return [
+        'For each business below, find the details listed as missing. Use the name and address to identify the business.',
+        'Only answer the missing fields, and leave a field out if you cannot find a reliable value; do not guess.',
+        'Return one object per business with the same ref.',
+        '',
+        ...lines,
+    ].join('\n');
+}
+
+// --- Proposals ---
+
+/**
+ * Compares a model answer with the business and lists the fields it would
+ * fill. Only empty fields are ever proposed, and the answer goes through the
+ * same normalization as search results.
+ */
+export function proposeFill(business: Business, raw: unknown): EnrichmentProposal | null {
+    if (!raw || typeof raw !== 'object') return null;
+    const answer = normalizeBusiness({ ...(raw as object), name: business.name, address: business.address }, ENRICHMENT_SOURCE);
+    if (!answer) return null;
+
+    const missing = missingFields(business);
+    const changes: FieldChange[] = [];
+    const proposed: Business = {
+        ...business,
+        socialMedia: { ...business.socialMedia },
+        sources: { ...business.sources },
+    };
+    const propose = (key: string, label: string, after: string) => {
+        changes.push({ key, label, before: '', after });
+        proposed.sources[key] = ENRICHMENT_SOURCE;
+    };
+
+    (['phone', 'website', 'summary'] as const).forEach(field => {
+        if (missing.includes(field) && answer[field]) {
+            proposed[field] = answer[field];
+            propose(field, field.charAt(0).toUpperCase() + field.slice(1), answer[field]);
+        }
+    });
+    if (missing.includes('location') && answer.lat !== null && answer.lng !== null) {
+        proposed.lat = answer.lat;
+        proposed.lng = answer.lng;
+        propose('location', 'Location', `${answer.lat.toFixed(5)}, ${answer.lng.toFixed(5)}`);
+    }
+    Object.entries(answer.socialMedia).forEach(([platform, url]) => {
+        if (url && !business.socialMedia[platform]) {
+            proposed.socialMedia[platform] = url;
+            propose(`socialMedia.${platform}`, platform.charAt(0).toUpperCase() + platform.slice(1), url);
+        }
+    });
+    return changes.length > 0 ? { id: business.id, name: business.name, changes, proposed } : null;
+}
+
+/** Copies the accepted changes (by key) from the proposal onto `target`. */
+export function applyProposal<T extends Business>(target: T, proposal: EnrichmentProposal, accepted: Set<string>): void {
+    const { proposed } = proposal;
+    proposal.changes.filter(change => accepted.has(change.key)).forEach(({ key }) => {
+        if (key === 'location') {
+            target.lat = proposed.lat;
+            target.lng = proposed.lng;
+            // Drop the normalizer's "no usable position" warnings now there is one.
+            target.warnings = target.warnings.filter(w => !/cannot be shown on the map|were discarded/.test(w));
+        } else if (key.startsWith('socialMedia.')) {
+            const platform = key.slice('socialMedia.'.length);
+            target.socialMedia = { ...target.socialMedia, [platform]: proposed.socialMedia[platform] };
+        } else {
+            const field = key as 'phone' | 'website' | 'summary';
+            target[field] = proposed[field];
+        }
+        target.sources = { ...target.sources, [key]: ENRICHMENT_SOURCE };
+    });
+}
+
+// --- Deep Enrichment ---
+
+export function buildDeepEnrichmentPrompt(business: Business): string {
+    const known = [
+        `Name: ${business.name}`,
+        business.address && `Address: ${business.address}`,
+        business.phone && `Phone: ${business.phone}`,
+        business.website && `Website: ${business.website}`,
+    ].filter(Boolean).join('\n');
+    return [
+        'Research this business:',
+        known,
+        '',
+        'Find its opening hours, the owner or main decision-maker, a generic contact email, an estimated employee count, its price tier, how many years it has been in business, and its LinkedIn, Yelp and TikTok profile URLs.',
+        'For each field give the value and a confidence: "high" if it comes from the business itself (its website or official listing), "medium" if from a reliable third party, "low" if it is an estimate.',
+        'Leave out any field you cannot find; do not invent people or email addresses.',
+    ].join('\n');
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+function cleanValue(attribute: EnrichmentAttribute, value: unknown): string | number | null {
+    if (attribute.schema.type === 'integer') {
+        const number = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+        return Number.isFinite(number) && number >= 0 ? Math.round(number) : null;
+    }
+    const text = typeof value === 'string' ? value.trim() : '';
+    if (!text) return null;
+    if (attribute.key === 'email') return EMAIL_PATTERN.test(text) ? text.toLowerCase() : null;
+    if (attribute.schema.type === 'string' && attribute.schema.enum && !attribute.schema.enum.includes(text)) return null;
+    return text;
+}
+
+/**
+ * Validates a deep enrichment answer. Values that fail validation are
+ * dropped, and an unrecognised confidence is treated as "low".
+ */
+export function parseDeepEnrichment(raw: unknown, now: number = Date.now()): DeepEnrichment {
+    const result: DeepEnrichment = { values: {}, socialMedia: {} };
+    if (!isRecord(raw)) return result;
+    const confidenceOf = (entry: Record<string, unknown>): Confidence =>
+        CONFIDENCE_LEVELS.find(level => level === entry.confidence) ?? 'low';
+
+    ENRICHMENT_ATTRIBUTES.forEach(attribute => {
+        const entry = raw[attribute.key];
+        if (!isRecord(entry)) return;
+        const value = cleanValue(attribute, entry.value);
+        if (value !== null) result.values[attribute.key] = { value, confidence: confidenceOf(entry), enrichedAt: now };
+    });
+    DEEP_ENRICHMENT_PLATFORMS.forEach(platform => {
+        const entry = raw[platform];
+        if (!isRecord(entry)) return;
+        const text = typeof entry.value === 'string' ? entry.value.trim() : '';
+        const url = text && normalizeSocialUrl(platform, text, []);
+        if (!url) return;
+        result.socialMedia[platform] = url;
+        result.values[`socialMedia.${platform}`] = { value: url, confidence: confidenceOf(entry), enrichedAt: now };
+    });
+    return result;
+}
+
+/**
+ * Stores the researched values on a lead. Profile links also go into
+ * `socialMedia`, but only for platforms the lead has no link for yet, so a
+ * link from a search or typed in by hand is never replaced by a guess.
+ */
+export function applyDeepEnrichment<T extends Business & { enrichment: Record<string, EnrichedValue> }>(target: T, result: DeepEnrichment): void {
+    const filled = Object.entries(result.socialMedia).filter(([platform]) => !target.socialMedia[platform]);
+    const kept = new Set(Object.keys(result.socialMedia).filter(platform => target.socialMedia[platform]).map(platform => `socialMedia.${platform}`));
+    target.enrichment = { ...target.enrichment, ...result.values };
+    target.socialMedia = { ...target.socialMedia, ...Object.fromEntries(filled) };
+    target.sources = {
+        ...target.sources,
+        ...Object.fromEntries(Object.keys(result.values).filter(key => !kept.has(key)).map(key => [key, ENRICHMENT_SOURCE])),
+    };
+}
+
+/** The most recent time any value on the lead was enriched, or null. */
+export function lastEnrichedAt(enrichment: Record<string, EnrichedValue> = {}): number | null {
+    const times = Object.values(enrichment).map(entry => entry.enrichedAt);
+    return times.length > 0 ? Math.max(...times) : null;
+}
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Business } from './business.ts';
+import { DEEP_ENRICHMENT_PLATFORMS, ENRICHMENT_ATTRIBUTES, lastEnrichedAt } from './enrich.ts';
+import { VERIFIED_FIELDS, fieldStatus } from './verify.ts';
+import { LeadMeta } from './workspace.ts';
+
+// --- Types ---
+
+/** A business plus whatever workspace and scoring data is available for it. */
+export type Exportable = Business & Partial<LeadMeta> & { score?: number | null };
+
+export type ExportFormat = 'csv' | 'json' | 'geojson' | 'kml' | 'vcf';
+
+export type CellValue = string | number | null;
+
+export interface ExportColumn {
+    id: string;
+    label: string;
+    value: (item: Exportable) => CellValue;
+}
+
+export interface ExportFile {
+    content: string;
+    mimeType: string;
+    extension: string;
+}
+
+export interface ExportOptions {
+    /** Start CSV with a byte order mark, which makes Excel read a downloaded file as UTF-8. Pipelines want it left out. */
+    bom?: boolean;
+}
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+    { id: 'csv', label: 'CSV (spreadsheets)' },
+    { id: 'json', label: 'JSON' },
+    { id: 'geojson', label: 'GeoJSON (GIS tools)' },
+    { id: 'kml', label: 'KML (Google Earth / My Maps)' },
+    { id: 'vcf', label: 'vCard (phone contacts)' },
+];
+
+// --- Columns ---
+
+const BASE_COLUMNS: ExportColumn[] = [
+    { id: 'id', label: 'Lead ID', value: b => b.id },
+    { id: 'name', label: 'Name', value: b => b.name },
+    { id: 'address', label: 'Address', value: b => b.address },
+    { id: 'phone', label: 'Phone', value: b => b.phone },
+    { id: 'website', label: 'Website', value: b => b.website },
+    { id: 'summary', label: 'Summary', value: b => b.summary },
+    { id: 'rating', label: 'Rating', value: b => b.rating },
+    { id: 'score', label: 'Score', value: b => b.score ?? null },
+    { id: 'lat', label: 'Latitude', value: b => b.lat },
+    { id: 'lng', label: 'Longitude', value: b => b.lng },
+    { id: 'stage', label: 'Stage', value: b => b.stage ?? '' },
+    { id: 'tags', label: 'Tags', value: b => (b.tags ?? []).join(', ') },
+    { id: 'notes', label: 'Notes', value: b => b.notes ?? '' },
+    { id: 'queries', label: 'Found By', value: b => (b.queries ?? []).join('; ') },
+    { id: 'lastTouched', label: 'Last Touched', value: b => (b.lastTouched ? new Date(b.lastTouched).toISOString() : '') },
+    { id: 'warnings', label: 'Warnings', value: b => b.warnings.join('; ') },
+];
+
+export const DEFAULT_COLUMN_IDS = ['name', 'address', 'phone', 'website', 'summary', 'rating', 'score', 'stage', 'tags'];
+
+/**
+ * All columns available for these items. Social platforms and enriched
+ * facts are collected from every item, not just the first one that has any.
+ */
+export function getExportColumns(items: Exportable[]): ExportColumn[] {
+    const platforms = [...new Set(items.flatMap(b => Object.keys(b.socialMedia).filter(p => b.socialMedia[p])))].sort();
+    const socialColumns = platforms.map(platform => ({
+        id: `social.${platform}`,
+        label: platform.charAt(0).toUpperCase() + platform.slice(1),
+        value: (b: Exportable) => b.socialMedia[platform] ?? '',
+    }));
+    const enrichedKeys = new Set(items.flatMap(b => Object.keys(b.enrichment ?? {})));
+    const enrichmentColumns = ENRICHMENT_ATTRIBUTES
+        .filter(attribute => enrichedKeys.has(attribute.key))
+        .flatMap(({ key, label }): ExportColumn[] => [
+            { id: `enrichment.${key}`, label, value: b => b.enrichment?.[key]?.value ?? '' },
+            { id: `enrichment.${key}.confidence`, label: `${label} Confidence`, value: b => b.enrichment?.[key]?.confidence ?? '' },
+        ]);
+    DEEP_ENRICHMENT_PLATFORMS
+        .filter(platform => enrichedKeys.has(`socialMedia.${platform}`))
+        .forEach(platform => enrichmentColumns.push({
+            id: `enrichment.socialMedia.${platform}.confidence`,
+            label: `${platform.charAt(0).toUpperCase() + platform.slice(1)} Confidence`,
+            value: b => b.enrichment?.[`socialMedia.${platform}`]?.confidence ?? '',
+        }));
+    if (enrichedKeys.size > 0) {
+        enrichmentColumns.push({
+            id: 'enrichedAt',
+            label: 'Enriched At',
+            value: b => {
+                const time = lastEnrichedAt(b.enrichment);
+                return time ? new Date(time).toISOString() : '';
+            },
+        });
+    }
+    // Once anything was verified, every non-empty field gets a status, checked or not.
+    const verificationColumns = items.some(b => Object.keys(b.verification ?? {}).length > 0)
+        ? [
+            ...VERIFIED_FIELDS.map(({ key, label }): ExportColumn => ({
+                id: `verification.${key}`,
+                label: `${label} Check`,
+                value: b => fieldStatus(b, key)?.status ?? '',
+            })),
+            {
+                id: 'verificationNotes',
+                label: 'Check Notes',
+                value: (b: Exportable) => VERIFIED_FIELDS
+                    .map(({ key, label }) => {
+                        const check = fieldStatus(b, key);
+                        return check && check.status !== 'verified' ? `${label}: ${check.note}` : '';
+                    })
+                    .filter(Boolean)
+                    .join('; '),
+            },
+        ]
+        : [];
+    return [...BASE_COLUMNS, ...socialColumns, ...enrichmentColumns, ...verificationColumns];
+}
+
+/**
+ * Resolves saved column ids against the available columns, keeping the saved
+ * order and dropping ids that no longer exist.
+ */
+export function resolveColumns(ids: string[], available: ExportColumn[]): ExportColumn[] {
+    return ids
+        .map(id => available.find(column => column.id === id))
+        .filter((column): column is ExportColumn => !!column);
+}
+
+// --- CSV (RFC 4180) ---
+
+function csvField(value: CellValue): string {
+    const text = value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** A CSV document from a header row and rows of cells. */
+export function toCsvTable(header: string[], rows: CellValue[][]): string {
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function toCsv(items: Exportable[], columns: ExportColumn[]): string {
+    return toCsvTable(columns.map(column => column.label), items.map(item => columns.map(column => column.value(item))));
+}
+
+// --- JSON / GeoJSON ---
+
+const toRecord = (item: Exportable, columns: ExportColumn[]) =>
+    Object.fromEntries(columns.map(column => [column.id, column.value(item)]));
+
+export function toJson(items: Exportable[], columns: ExportColumn[]): string {
+    return JSON.stringify(items.map(item => toRecord(item, columns)), null, 2);
+}
+
+/** Leads without coordinates are exported with a null geometry, as the spec allows. */
+export function toGeoJson(items: Exportable[], columns: ExportColumn[]): string {
+    return JSON.stringify({
+        type: 'FeatureCollection',
+        features: items.map(item => ({
+            type: 'Feature',
+            id: item.id,
+            geometry: item.lat !== null && item.lng !== null
+                ? { type: 'Point', coordinates: [item.lng, item.lat] }
+                : null,
+            properties: toRecord(item, columns),
+        })),
+    }, null, 2);
+}
+
+// --- KML ---
+
+export const escapeXml = (value: string): string => value.replace(/[&<>"']/g, ch => ({
+    '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;',
+}[ch]!));
+
+/** KML has no way to place a lead without coordinates, so those are skipped. */
+export function toKml(items: Exportable[], columns: ExportColumn[]): string {
+    const placemarks = items
+        .filter(item => item.lat !== null && item.lng !== null)
+        .map(item => {
+            const data = columns
+                .map(column => {
+                    const value = column.value(item);
+                    return `        <Data name="${escapeXml(column.id)}"><displayName>${escapeXml(column.label)}</displayName><value>${escapeXml(value === null ? '' : String(value))}</value></Data>`;
+                })
+                .join('\n');
+            return [
+                '    <Placemark>',
+                `      <name>${escapeXml(item.name)}</name>`,
+                `      <address>${escapeXml(item.address)}</address>`,
+                `      <description>${escapeXml(item.summary)}</description>`,
+                '      <ExtendedData>',
+                data,
+                '      </ExtendedData>',
+                `      <Point><coordinates>${item.lng},${item.lat},0</coordinates></Point>`,
+                '    </Placemark>',
+            ].join('\n');
+        });
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '  <Document>',
+        '    <name>Scout AI Leads</name>',
+        ...placemarks,
+        '  </Document>',
+        '</kml>',
+        '',
+    ].join('\n');
+}
+
+// --- vCard 3.0 ---
+
+const escapeVCard = (value: string): string =>
+    value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// RFC 2426 §2.6: lines longer than 75 octets are folded with CRLF + space.
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    for (const ch of line) {
+        const limit = parts.length === 0 ? 75 : 74;
+        if (encoder.encode(current + ch).length > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += ch;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+/** Contact cards have a fixed set of fields, so column selection does not apply. */
+export function toVCard(items: Exportable[]): string {
+    return items.map(item => {
+        const lines = [
+            'BEGIN:VCARD',
+            'VERSION:3.0',
+            `FN:${escapeVCard(item.name)}`,
+            `ORG:${escapeVCard(item.name)}`,
+            item.phone && `TEL;TYPE=WORK,VOICE:${item.phone}`,
+            item.website && `URL:${item.website}`,
+            item.address && `ADR;TYPE=WORK:;;${escapeVCard(item.address)};;;;`,
+            item.lat !== null && item.lng !== null && `GEO:${item.lat};${item.lng}`,
+            ...Object.entries(item.socialMedia)
+                .filter(([, url]) => url)
+                .map(([platform, url]) => `X-SOCIALPROFILE;TYPE=${platform}:${url}`),
+            item.summary && `NOTE:${escapeVCard(item.summary)}`,
+            item.tags?.length && `CATEGORIES:${item.tags.map(escapeVCard).join(',')}`,
+            'END:VCARD',
+        ];
+        return lines.filter((line): line is string => !!line).map(foldLine).join('\r\n');
+    }).join('\r\n') + '\r\n';
+}
+
+// --- Dispatch ---
+
+export function exportLeads(items: Exportable[], format: ExportFormat, columns: ExportColumn[], options: ExportOptions = {}): ExportFile {
+    switch (format) {
+        case 'csv':
+            return { content: (options.bom ? '\uFEFF' : '') + toCsv(items, columns), mimeType: 'text/csv;charset=utf-8', extension: 'csv' };
+        case 'json':
+            return { content: toJson(items, columns), mimeType: 'application/json', extension: 'json' };
+        case 'geojson':
+            return { content: toGeoJson(items, columns), mimeType: 'application/geo+json', extension: 'geojson' };
+        case 'kml':
+            return { content: toKml(items, columns), mimeType: 'application/vnd.google-earth.kml+xml', extension: 'kml' };
+        case 'vcf':
+            return { content: toVCard(items), mimeType: 'text/vcard', extension: 'vcf' };
+    }
+}
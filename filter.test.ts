@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { Exportable } from './export.ts';
+import { matchesQuery, parseQuery, sortItems, toggleFacet } from './filter.ts';
+
+function item(fields: Partial<Exportable> & Pick<Exportable, 'id' | 'name'>): Exportable {
+    return {
+        address: '',
+        phone: '',
+        website: '',
+        summary: '',
+        rating: null,
+        lat: null,
+        lng: null,
+        socialMedia: {},
+        warnings: [],
+        sources: {},
+        ...fields,
+    };
+}
+
+const cafe = item({
+    id: 'a',
+    name: 'Blue Bottle Coffee',
+    address: '300 Webster St, Oakland, CA 94607',
+    website: 'https://bluebottlecoffee.com',
+    rating: 4.6,
+    tags: ['hot', 'follow up'],
+    socialMedia: { instagram: 'https://instagram.com/bluebottle' },
+    stage: 'contacted',
+});
+const salon = item({
+    id: 'b',
+    name: 'Shear Genius',
+    address: '12 Main St, Berkeley, CA 94704',
+    phone: '+15105550123',
+    rating: 3.8,
+    summary: 'Family-owned salon',
+    stage: 'new',
+});
+const unrated = item({ id: 'c', name: 'Corner Store' });
+
+const matching = (query: string, items = [cafe, salon, unrated]) =>
+    items.filter(i => matchesQuery(i, parseQuery(query))).map(i => i.id);
+
+describe('parseQuery', () => {
+    it('splits fields, operators, quoted values and negation', () => {
+        const { terms, errors } = parseQuery('rating>=4 -website:* city:"San Leandro" coffee');
+        expect(errors).toEqual([]);
+        expect(terms.map(({ field, op, value, negated }) => ({ field, op, value, negated }))).toEqual([
+            { field: 'rating', op: '>=', value: '4', negated: false },
+            { field: 'website', op: ':', value: '*', negated: true },
+            { field: 'city', op: ':', value: 'san leandro', negated: false },
+            { field: null, op: ':', value: 'coffee', negated: false },
+        ]);
+    });
+
+    it('maps field aliases onto their fields', () => {
+        expect(parseQuery('tags:hot stars>4').terms.map(term => term.field)).toEqual(['tag', 'rating']);
+    });
+
+    it('reports terms it cannot use and leaves them out', () => {
+        const { terms, errors } = parseQuery('colour:red rating>high name>b website:"" ok');
+        expect(errors).toEqual([
+            'Unknown field "colour".',
+            '"high" is not a number.',
+            'Name cannot be compared with ">".',
+            '"website:""" needs a value.',
+        ]);
+        expect(terms.map(term => term.value)).toEqual(['ok']);
+    });
+});
+
+describe('matchesQuery', () => {
+    it('compares numbers and leaves out items without a value', () => {
+        expect(matching('rating>=4')).toEqual(['a']);
+        expect(matching('rating<4')).toEqual(['b']);
+        expect(matching('-rating:*')).toEqual(['c']);
+    });
+
+    it('matches part of text fields, or all of it with =', () => {
+        expect(matching('name:bottle')).toEqual(['a']);
+        expect(matching('name=bottle')).toEqual([]);
+        expect(matching('name="shear genius"')).toEqual(['b']);
+    });
+
+    it('matches whole list entries', () => {
+        expect(matching('tag:"follow up"')).toEqual(['a']);
+        expect(matching('tag:follow')).toEqual([]);
+        expect(matching('social:instagram')).toEqual(['a']);
+    });
+
+    it('reads the city, state and ZIP out of the address', () => {
+        expect(matching('city:berkeley')).toEqual(['b']);
+        expect(matching('zip:94607 state:ca')).toEqual(['a']);
+    });
+
+    it('matches free text against names, summaries and tags, and ANDs every term', () => {
+        expect(matching('family')).toEqual(['b']);
+        expect(matching('hot')).toEqual(['a']);
+        expect(matching('hot -website:*')).toEqual([]);
+    });
+
+    it('measures distance from the context center', () => {
+        const located = item({ id: 'd', name: 'Nearby', lat: 37.8044, lng: -122.2712 });
+        const query = parseQuery('distance<2');
+        expect(matchesQuery(located, query, { center: { lat: 37.8049, lng: -122.2730 } })).toBe(true);
+        expect(matchesQuery(located, query, { center: { lat: 37.7749, lng: -122.4194 } })).toBe(false);
+        expect(matchesQuery(located, query)).toBe(false);
+    });
+});
+
+describe('sortItems', () => {
+    it('sorts numbers and text and puts items without a value last', () => {
+        expect(sortItems([unrated, salon, cafe], 'rating', true).map(i => i.id)).toEqual(['a', 'b', 'c']);
+        expect(sortItems([unrated, salon, cafe], 'rating', false).map(i => i.id)).toEqual(['b', 'a', 'c']);
+        expect(sortItems([salon, unrated, cafe], 'name', false).map(i => i.id)).toEqual(['a', 'c', 'b']);
+    });
+
+    it('orders stages along the pipeline', () => {
+        expect(sortItems([cafe, salon], 'stage', false).map(i => i.id)).toEqual(['b', 'a']);
+    });
+});
+
+describe('toggleFacet', () => {
+    it('adds a facet and removes it again', () => {
+        const added = toggleFacet('coffee', 'rating>=4 rating<4.5');
+        expect(added).toBe('coffee rating>=4 rating<4.5');
+        expect(toggleFacet(added, 'rating>=4 rating<4.5')).toBe('coffee');
+    });
+});
@@ -0,0 +1,314 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { parseAddressParts } from './business.ts';
+import { Exportable } from './export.ts';
+import { KM_PER_MILE, LatLng, haversineKm } from './geo.ts';
+import { PIPELINE_STAGES } from './workspace.ts';
+
+// --- Types ---
+
+export type FilterOperator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+/** One condition from a filter query; `field` is null for free text. */
+export interface FilterTerm {
+    /** The term as typed, used to toggle facets in and out of the query. */
+    raw: string;
+    field: string | null;
+    op: FilterOperator;
+    value: string;
+    negated: boolean;
+}
+
+export interface ParsedQuery {
+    terms: FilterTerm[];
+    /** Terms that could not be understood; they are left out of the filter. */
+    errors: string[];
+}
+
+export interface FilterContext {
+    /** Distances are measured from here; without it `distance` is unknown. */
+    center?: LatLng | null;
+    /** Scores items that do not carry a `score` of their own. */
+    score?: (item: Exportable) => number | null;
+}
+
+type FieldValue = string | number | string[] | null;
+
+interface FieldDef {
+    id: string;
+    label: string;
+    kind: 'text' | 'number' | 'list';
+    get: (item: Exportable, context: FilterContext) => FieldValue;
+    /** Order used when sorting, if not the value itself. */
+    sortValue?: (item: Exportable, context: FilterContext) => string | number | null;
+    /** List fields match whole entries unless partial matching is allowed. */
+    partial?: boolean;
+    /** Number fields that hold dates accept values like 2024-05-01. */
+    date?: boolean;
+}
+
+export interface FacetOption {
+    label: string;
+    /** The query terms the facet adds. */
+    query: string;
+    count: number;
+    active: boolean;
+}
+
+export interface FacetGroup {
+    label: string;
+    options: FacetOption[];
+}
+
+// --- Fields ---
+
+const platforms = (item: Exportable): string[] =>
+    Object.entries(item.socialMedia).filter(([, url]) => url).map(([platform]) => platform);
+
+const enriched = (key: string) => (item: Exportable): FieldValue => {
+    const value = item.enrichment?.[key]?.value;
+    return value === undefined ? '' : String(value);
+};
+
+const SOCIAL_FIELDS = ['instagram', 'facebook', 'twitter', 'linkedin', 'yelp', 'tiktok'];
+
+export const FILTER_FIELDS: FieldDef[] = [
+    { id: 'name', label: 'Name', kind: 'text', get: b => b.name },
+    { id: 'address', label: 'Address', kind: 'text', get: b => b.address },
+    { id: 'city', label: 'City', kind: 'text', get: b => parseAddressParts(b.address).city },
+    { id: 'state', label: 'State', kind: 'text', get: b => parseAddressParts(b.address).state },
+    { id: 'zip', label: 'ZIP', kind: 'text', get: b => parseAddressParts(b.address).zip },
+    { id: 'phone', label: 'Phone', kind: 'text', get: b => b.phone },
+    { id: 'website', label: 'Website', kind: 'text', get: b => b.website },
+    { id: 'summary', label: 'Summary', kind: 'text', get: b => b.summary },
+    { id: 'notes', label: 'Notes', kind: 'text', get: b => b.notes ?? '' },
+    {
+        id: 'stage', label: 'Stage', kind: 'text', get: b => b.stage ?? '',
+        sortValue: b => (b.stage ? PIPELINE_STAGES.indexOf(b.stage) : null),
+    },
+    { id: 'tag', label: 'Tags', kind: 'list', get: b => b.tags ?? [] },
+    { id: 'social', label: 'Social platforms', kind: 'list', get: platforms },
+    { id: 'query', label: 'Found by', kind: 'list', get: b => b.queries ?? [], partial: true },
+    { id: 'rating', label: 'Rating', kind: 'number', get: b => b.rating },
+    { id: 'score', label: 'Lead score', kind: 'number', get: (b, { score }) => b.score ?? score?.(b) ?? null },
+    {
+        id: 'distance', label: 'Distance (mi)', kind: 'number',
+        get: (b, { center }) => (center && b.lat !== null && b.lng !== null
+            ? Math.round(haversineKm(center, { lat: b.lat, lng: b.lng }) / KM_PER_MILE * 10) / 10
+            : null),
+    },
+    { id: 'touched', label: 'Last touched', kind: 'number', get: b => b.lastTouched ?? null, date: true },
+    { id: 'created', label: 'First found', kind: 'number', get: b => b.createdAt ?? null, date: true },
+    { id: 'owner', label: 'Owner', kind: 'text', get: enriched('owner') },
+    { id: 'email', label: 'Email', kind: 'text', get: enriched('email') },
+    ...SOCIAL_FIELDS.map((platform): FieldDef => ({
+        id: platform,
+        label: platform.charAt(0).toUpperCase() + platform.slice(1),
+        kind: 'text',
+        get: b => b.socialMedia[platform] ?? '',
+    })),
+];
+
+const FIELD_ALIASES: Record<string, string> = { tags: 'tag', queries: 'query', site: 'website', url: 'website', stars: 'rating' };
+
+const findField = (name: string): FieldDef | undefined =>
+    FILTER_FIELDS.find(field => field.id === (FIELD_ALIASES[name] ?? name));
+
+// Free text is matched against these fields, never against ids or coordinates.
+const TEXT_SEARCH_FIELDS = ['name', 'address', 'summary', 'notes', 'phone', 'website', 'tag', 'query'];
+
+// --- Parsing ---
+
+const TERM_PATTERN = /(-?)(?:([a-z]+)(>=|<=|:|=|>|<))?("[^"]*"?|[^\s"]+)/gi;
+
+const unquote = (value: string): string => value.replace(/^"|"$/g, '');
+
+/**
+ * Parses a query such as `rating>=4 -website:* city:"Oakland" tag:hot`.
+ * Terms are ANDed; a leading `-` negates one. `field:*` means the field has
+ * a value, `field:text` matches part of it (whole entries for tags and
+ * social platforms), and numbers compare with `= > >= < <=`. Anything
+ * without a field is free text.
+ */
+export function parseQuery(query: string): ParsedQuery {
+    const terms: FilterTerm[] = [];
+    const errors: string[] = [];
+    for (const match of query.matchAll(TERM_PATTERN)) {
+        const [raw, minus, name, op, rawValue] = match;
+        const value = unquote(rawValue).trim();
+        if (!name) {
+            if (value) terms.push({ raw, field: null, op: ':', value: value.toLowerCase(), negated: !!minus });
+            continue;
+        }
+        const field = findField(name.toLowerCase());
+        if (!field) {
+            errors.push(`Unknown field "${name}".`);
+            continue;
+        }
+        if (!value) {
+            errors.push(`"${raw}" needs a value.`);
+            continue;
+        }
+        if (field.kind !== 'number' && op !== ':' && op !== '=') {
+            errors.push(`${field.label} cannot be compared with "${op}".`);
+            continue;
+        }
+        if (field.kind === 'number' && value !== '*' && parseNumber(field, value) === null) {
+            errors.push(`"${value}" is not a ${field.date ? 'date' : 'number'}.`);
+            continue;
+        }
+        terms.push({ raw, field: field.id, op: op as FilterOperator, value: value.toLowerCase(), negated: !!minus });
+    }
+    return { terms, errors };
+}
+
+function parseNumber(field: FieldDef, value: string): number | null {
+    const number = Number(value);
+    if (value !== '' && Number.isFinite(number)) return number;
+    if (!field.date) return null;
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : date;
+}
+
+// --- Matching ---
+
+const hasValue = (value: FieldValue): boolean =>
+    Array.isArray(value) ? value.length > 0 : value !== null && value !== '';
+
+function matchesField(field: FieldDef, term: FilterTerm, value: FieldValue): boolean {
+    if (term.value === '*') return hasValue(value);
+    if (field.kind === 'number') {
+        if (typeof value !== 'number') return false;
+        const target = parseNumber(field, term.value)!;
+        switch (term.op) {
+            case '>': return value > target;
+            case '>=': return value >= target;
+            case '<': return value < target;
+            case '<=': return value <= target;
+            default: return value === target;
+        }
+    }
+    if (field.kind === 'list') {
+        const entries = (value as string[]).map(entry => entry.toLowerCase());
+        return field.partial && term.op === ':'
+            ? entries.some(entry => entry.includes(term.value))
+            : entries.includes(term.value);
+    }
+    const text = String(value ?? '').toLowerCase();
+    return term.op === '=' ? text === term.value : text.includes(term.value);
+}
+
+function matchesTerm(item: Exportable, term: FilterTerm, context: FilterContext): boolean {
+    if (term.field === null) {
+        return TEXT_SEARCH_FIELDS.some(id => {
+            const value = findField(id)!.get(item, context);
+            return (Array.isArray(value) ? value.join(' ') : String(value ?? '')).toLowerCase().includes(term.value);
+        });
+    }
+    const field = findField(term.field)!;
+    return matchesField(field, term, field.get(item, context));
+}
+
+export function matchesQuery(item: Exportable, query: ParsedQuery, context: FilterContext = {}): boolean {
+    return query.terms.every(term => matchesTerm(item, term, context) !== term.negated);
+}
+
+// --- Sorting ---
+
+/** Numbers sort high to low by default, text A to Z. */
+export const SORT_FIELDS = FILTER_FIELDS.map(({ id, label, kind }) => ({ id, label, descending: kind === 'number' }));
+
+/**
+ * Stable sort on any filter field. Items without a value go last in both
+ * directions; text compares case-insensitively and numbers numerically.
+ */
+export function sortItems<T extends Exportable>(items: T[], fieldId: string, descending: boolean, context: FilterContext = {}): T[] {
+    const field = findField(fieldId);
+    if (!field) return [...items];
+    const keyOf = (item: T): string | number | null => {
+        if (field.sortValue) return field.sortValue(item, context);
+        const value = field.get(item, context);
+        if (Array.isArray(value)) return value.length > 0 ? value.join(', ').toLowerCase() : null;
+        return value === '' ? null : typeof value === 'string' ? value.toLowerCase() : value;
+    };
+    const keyed = items.map(item => ({ item, key: keyOf(item) }));
+    keyed.sort((a, b) => {
+        if (a.key === null || b.key === null) return a.key === b.key ? 0 : a.key === null ? 1 : -1;
+        const order = typeof a.key === 'number' && typeof b.key === 'number'
+            ? a.key - b.key
+            : String(a.key).localeCompare(String(b.key));
+        return descending ? -order : order;
+    });
+    return keyed.map(({ item }) => item);
+}
+
+// --- Facets ---
+
+const RATING_BANDS = [
+    { label: '4.5 and up', query: 'rating>=4.5' },
+    { label: '4 – 4.4', query: 'rating>=4 rating<4.5' },
+    { label: '3 – 3.9', query: 'rating>=3 rating<4' },
+    { label: 'Under 3', query: 'rating<3' },
+    { label: 'Unrated', query: '-rating:*' },
+];
+
+const MAX_TAG_FACETS = 8;
+
+/** True when every term of `facet` is already in `query`. */
+function hasTerms(query: ParsedQuery, facet: ParsedQuery): boolean {
+    const raws = new Set(query.terms.map(term => term.raw.toLowerCase()));
+    return facet.terms.every(term => raws.has(term.raw.toLowerCase()));
+}
+
+/**
+ * Facet counts over `items` (normally the already filtered list), so each
+ * count says how many would remain after clicking it.
+ */
+export function computeFacets(items: Exportable[], query: ParsedQuery, context: FilterContext = {}): FacetGroup[] {
+    const option = (label: string, facetQuery: string): FacetOption => {
+        const facet = parseQuery(facetQuery);
+        return {
+            label,
+            query: facetQuery,
+            count: items.filter(item => matchesQuery(item, facet, context)).length,
+            active: hasTerms(query, facet),
+        };
+    };
+    const present = (values: string[]) => [...new Set(values)].sort();
+    const tagCounts = new Map<string, number>();
+    items.forEach(item => (item.tags ?? []).forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1)));
+    const topTags = [...tagCounts.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_TAG_FACETS).map(([tag]) => tag);
+
+    return [
+        {
+            label: 'Contact',
+            options: [
+                option('Has website', 'website:*'),
+                option('No website', '-website:*'),
+                option('Has phone', 'phone:*'),
+                option('No phone', '-phone:*'),
+            ],
+        },
+        { label: 'Rating', options: RATING_BANDS.map(band => option(band.label, band.query)) },
+        {
+            label: 'Social',
+            options: present(items.flatMap(platforms)).map(platform =>
+                option(platform.charAt(0).toUpperCase() + platform.slice(1), `social:${platform}`)),
+        },
+        { label: 'Tags', options: topTags.map(tag => option(`#${tag}`, `tag:${/\s/.test(tag) ? `"${tag}"` : tag}`)) },
+    ].filter(group => group.options.some(o => o.count > 0 || o.active));
+}
+
+/** Adds the facet's terms to the query, or removes them if all are present. */
+export function toggleFacet(query: string, facetQuery: string): string {
+    const parsed = parseQuery(query);
+    const facet = parseQuery(facetQuery);
+    if (!hasTerms(parsed, facet)) return [query.trim(), facetQuery].filter(Boolean).join(' ');
+    const remove = new Set(facet.terms.map(term => term.raw.toLowerCase()));
+    return [...query.matchAll(TERM_PATTERN)]
+        .map(([raw]) => raw)
+        .filter(raw => !remove.has(raw.toLowerCase()))
+        .join(' ');
+}
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface LatLng {
+    lat: number;
+    lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+export const KM_PER_MILE = 1.609344;
+
+const toRadians = (deg: number): number => deg * Math.PI / 180;
+
+export function isValidLatLng(lat: unknown, lng: unknown): boolean {
+    return typeof lat === 'number' && typeof lng === 'number'
+        && Number.isFinite(lat) && Number.isFinite(lng)
+        && lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+}
+
+// Great-circle distance between two points, in kilometres.
+export function haversineKm(a: LatLng, b: LatLng): number {
+    const dLat = toRadians(b.lat - a.lat);
+    const dLng = toRadians(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export const milesToKm = (miles: number): number => miles * KM_PER_MILE;
+
+// Component-wise median, which is far less sensitive to a single hallucinated
+// coordinate than the mean.
+export function medianCenter(points: LatLng[]): LatLng | null {
+    if (points.length === 0) return null;
+    const median = (values: number[]) => {
+        const sorted = [...values].sort((a, b) => a - b);
+        const mid = Math.floor(sorted.length / 2);
+        return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    };
+    return { lat: median(points.map(p => p.lat)), lng: median(points.map(p => p.lng)) };
+}
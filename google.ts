@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Session, Drive and save-history helpers for the Google integration. The
+// API calls themselves stay in the app; these are the parts worth keeping
+// free of gapi.
+
+// --- Types ---
+
+/** Where Drive saves go; remembered between sessions. */
+export interface DriveTarget {
+    /** Empty for the root of My Drive. */
+    folderId: string;
+    folderName: string;
+    /** Saving again under the same name adds a revision to that file. */
+    fileName: string;
+}
+
+export interface DriveFolder {
+    id: string;
+    name: string;
+}
+
+export type SaveKind = 'sheets' | 'drive';
+
+/** One completed save to Sheets or Drive, for the history list. */
+export interface SaveRecord {
+    kind: SaveKind;
+    /** The spreadsheet tab or Drive file name. */
+    name: string;
+    url: string;
+    /** What the save did, e.g. "3 added, 2 changed" or "New revision". */
+    detail: string;
+    savedAt: number;
+}
+
+// --- Session ---
+
+// Tokens are renewed this long before they expire, so a save never races the expiry.
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const MIN_REFRESH_DELAY_MS = 30 * 1000;
+
+/** How long to wait before silently renewing a token that expires in `expiresInSeconds`. */
+export function tokenRefreshDelay(expiresInSeconds: number): number {
+    return Math.max(MIN_REFRESH_DELAY_MS, expiresInSeconds * 1000 - TOKEN_REFRESH_MARGIN_MS);
+}
+
+/** Whether a gapi or HTTP error means the access token is no longer accepted. */
+export function isUnauthorized(error: unknown): boolean {
+    if (typeof error !== 'object' || error === null) return false;
+    if ('status' in error && error.status === 401) return true;
+    // gapi rejects with the parsed response body under `result`.
+    if (!('result' in error) || typeof error.result !== 'object' || error.result === null) return false;
+    const body = error.result;
+    return 'error' in body && typeof body.error === 'object' && body.error !== null && 'code' in body.error && body.error.code === 401;
+}
+
+// --- Drive ---
+
+export const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+export const DEFAULT_DRIVE_TARGET: DriveTarget = { folderId: '', folderName: '', fileName: 'Scout AI Leads.csv' };
+
+const quoteQueryValue = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+/** Drive search for the folders this app can see, i.e. the ones it created. */
+export const FOLDER_LIST_QUERY = `mimeType = ${quoteQueryValue(FOLDER_MIME_TYPE)} and trashed = false`;
+
+/** Drive search for a file by exact name inside a folder (or My Drive's root). */
+export function fileLookupQuery(target: DriveTarget): string {
+    return [
+        `name = ${quoteQueryValue(target.fileName)}`,
+        `${quoteQueryValue(target.folderId || 'root')} in parents`,
+        `mimeType != ${quoteQueryValue(FOLDER_MIME_TYPE)}`,
+        'trashed = false',
+    ].join(' and ');
+}
+
+/** A multipart/related upload body: JSON metadata followed by the file content. */
+export function buildMultipartBody(metadata: object, content: string, mimeType: string): { body: string; contentType: string } {
+    const boundary = '-------314159265358979323846';
+    const delimiter = `\r\n--${boundary}\r\n`;
+    return {
+        contentType: `multipart/related; boundary="${boundary}"`,
+        body: delimiter
+            + 'Content-Type: application/json; charset=UTF-8\r\n\r\n'
+            + JSON.stringify(metadata)
+            + delimiter
+            + `Content-Type: ${mimeType}\r\n\r\n`
+            + content
+            + `\r\n--${boundary}--`,
+    };
+}
+
+// --- History ---
+
+export const MAX_SAVE_HISTORY = 50;
+
+/** Adds a record to the front of the history, dropping the oldest past the limit. */
+export function addSaveRecord(history: SaveRecord[], record: SaveRecord): SaveRecord[] {
+    return [record, ...history].slice(0, MAX_SAVE_HISTORY);
+}
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import * as L from 'leaflet';
+import { LatLng } from './geo.ts';
+
+const RADIUS_PX = 25;
+const BLUR_PX = 15;
+// Each point adds this much opacity, so about twelve overlapping points saturate.
+const POINT_ALPHA = 0.08;
+
+// Transparent through blue, green and yellow to red, sampled into 256 RGBA entries.
+const GRADIENT_STOPS: [number, string][] = [[0.2, 'rgba(37, 99, 235, 0)'], [0.4, '#2563eb'], [0.6, '#16a34a'], [0.8, '#facc15'], [1, '#dc2626']];
+
+let palette: Uint8ClampedArray | null = null;
+
+function getPalette(): Uint8ClampedArray {
+    if (palette) return palette;
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 256;
+    const ctx = canvas.getContext('2d')!;
+    const gradient = ctx.createLinearGradient(0, 0, 0, 256);
+    GRADIENT_STOPS.forEach(([offset, color]) => gradient.addColorStop(offset, color));
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, 1, 256);
+    palette = ctx.getImageData(0, 0, 1, 256).data;
+    return palette;
+}
+
+// A blurred dot drawn once and stamped for every point.
+function createStamp(): HTMLCanvasElement {
+    const stamp = document.createElement('canvas');
+    const size = (RADIUS_PX + BLUR_PX) * 2;
+    stamp.width = stamp.height = size;
+    const ctx = stamp.getContext('2d')!;
+    ctx.shadowOffsetX = ctx.shadowOffsetY = size * 2;
+    ctx.shadowBlur = BLUR_PX;
+    ctx.shadowColor = '#000';
+    ctx.beginPath();
+    ctx.arc(-size * 1.5, -size * 1.5, RADIUS_PX, 0, Math.PI * 2);
+    ctx.fill();
+    return stamp;
+}
+
+/**
+ * A density layer drawn on a canvas over the map. Point densities are
+ * accumulated as opacity and then colored through a cold-to-hot palette, so
+ * saturated neighborhoods show red and sparse ones blue.
+ */
+export function createHeatLayer(points: LatLng[]): L.Layer {
+    let canvas: HTMLCanvasElement;
+    let map: L.Map;
+    const stamp = createStamp();
+
+    function redraw() {
+        const size = map.getSize();
+        canvas.width = size.x;
+        canvas.height = size.y;
+        L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+        const ctx = canvas.getContext('2d')!;
+        ctx.globalAlpha = POINT_ALPHA;
+        const offset = RADIUS_PX + BLUR_PX;
+        points.forEach(point => {
+            const p = map.latLngToContainerPoint([point.lat, point.lng]);
+            if (p.x < -offset || p.y < -offset || p.x > size.x + offset || p.y > size.y + offset) return;
+            ctx.drawImage(stamp, p.x - offset, p.y - offset);
+        });
+        if (size.x === 0 || size.y === 0) return;
+        const image = ctx.getImageData(0, 0, size.x, size.y);
+        const colors = getPalette();
+        for (let i = 3; i < image.data.length; i += 4) {
+            const alpha = image.data[i];
+            if (!alpha) continue;
+            image.data[i - 3] = colors[alpha * 4];
+            image.data[i - 2] = colors[alpha * 4 + 1];
+            image.data[i - 1] = colors[alpha * 4 + 2];
+            image.data[i] = colors[alpha * 4 + 3];
+        }
+        ctx.putImageData(image, 0, 0);
+    }
+
+    const hide = () => { canvas.style.visibility = 'hidden'; };
+    const show = () => {
+        redraw();
+        canvas.style.visibility = '';
+    };
+
+    const HeatLayer = L.Layer.extend({
+        onAdd(target: L.Map) {
+            map = target;
+            canvas = L.DomUtil.create('canvas', 'heatmap-layer leaflet-zoom-hide') as HTMLCanvasElement;
+            canvas.style.pointerEvents = 'none';
+            // Below the vector markers, which share the overlay pane.
+            const pane = map.getPanes().overlayPane;
+            pane.insertBefore(canvas, pane.firstChild);
+            map.on('moveend', show);
+            map.on('zoomstart', hide);
+            map.on('resize', show);
+            show();
+            return this;
+        },
+        onRemove(target: L.Map) {
+            target.off('moveend', show);
+            target.off('zoomstart', hide);
+            target.off('resize', show);
+            canvas.remove();
+            return this;
+        },
+    });
+    return new HeatLayer();
+}
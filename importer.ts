@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Business, normalizeBusiness } from './business.ts';
+import { Lead, LeadMeta, PIPELINE_STAGES, PipelineStage, parseTags } from './workspace.ts';
+
+// --- Types ---
+
+/** Rows of text cells with their column headers, whatever the file format. */
+export interface ImportTable {
+    headers: string[];
+    rows: string[][];
+    /** Position of `rows[0]` in the file, for messages. */
+    firstRow: number;
+}
+
+export interface ImportedRecord {
+    row: number;
+    business: Business;
+    meta: Partial<Pick<LeadMeta, 'stage' | 'tags' | 'notes'>>;
+}
+
+/** The parts of a GeoJSON feature an import reads. */
+interface GeoJsonFeature {
+    type: 'Feature';
+    properties?: unknown;
+    geometry?: { type?: unknown; coordinates?: unknown } | null;
+}
+
+export interface ImportResult {
+    records: ImportedRecord[];
+    /** One message per rejected row or ignored value. */
+    problems: string[];
+}
+
+// --- Fields ---
+
+const SOCIAL_PLATFORMS = ['instagram', 'facebook', 'twitter', 'linkedin', 'yelp', 'tiktok'];
+
+export const IMPORT_FIELDS: { id: string; label: string }[] = [
+    { id: 'name', label: 'Name' },
+    { id: 'address', label: 'Address (several columns are joined)' },
+    { id: 'phone', label: 'Phone' },
+    { id: 'website', label: 'Website' },
+    { id: 'summary', label: 'Summary' },
+    { id: 'rating', label: 'Rating' },
+    { id: 'lat', label: 'Latitude' },
+    { id: 'lng', label: 'Longitude' },
+    { id: 'stage', label: 'Pipeline stage' },
+    { id: 'tags', label: 'Tags' },
+    { id: 'notes', label: 'Notes' },
+    ...SOCIAL_PLATFORMS.map(platform => ({ id: `social.${platform}`, label: platform.charAt(0).toUpperCase() + platform.slice(1) })),
+];
+
+// Header names, after normalizeHeader, that map onto each field.
+const HEADER_SYNONYMS: Record<string, string[]> = {
+    name: ['name', 'business', 'business name', 'company', 'company name', 'organization', 'account', 'account name'],
+    address: ['address', 'full address', 'street', 'street address', 'address 1', 'address 2', 'city', 'state', 'zip', 'zip code', 'postal code', 'postcode'],
+    phone: ['phone', 'phone number', 'telephone', 'tel', 'mobile', 'business phone'],
+    website: ['website', 'web', 'url', 'site', 'homepage', 'website url'],
+    summary: ['summary', 'description', 'about'],
+    rating: ['rating', 'stars', 'review rating', 'google rating'],
+    lat: ['lat', 'latitude'],
+    lng: ['lng', 'lon', 'long', 'longitude'],
+    stage: ['stage', 'status', 'pipeline stage', 'lead status'],
+    tags: ['tags', 'tag', 'labels'],
+    notes: ['notes', 'note', 'comments'],
+    ...Object.fromEntries(SOCIAL_PLATFORMS.map(platform => [`social.${platform}`, [platform, `${platform} url`, `${platform} handle`, `social ${platform}`, `socialmedia ${platform}`]])),
+};
+
+const normalizeHeader = (header: string): string =>
+    header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Best-guess field for each column; '' leaves the column unmapped. */
+export function guessMapping(headers: string[]): string[] {
+    const used = new Set<string>();
+    return headers.map(header => {
+        const normalized = normalizeHeader(header);
+        const field = Object.keys(HEADER_SYNONYMS).find(id => HEADER_SYNONYMS[id].includes(normalized)) ?? '';
+        // Only address may be fed by several columns.
+        if (!field || (used.has(field) && field !== 'address')) return '';
+        used.add(field);
+        return field;
+    });
+}
+
+// --- Parsing ---
+
+/** RFC 4180 parser: quoted fields may contain commas, doubled quotes and line breaks. */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (quoted) {
+            if (ch === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+export function csvToTable(text: string): ImportTable {
+    const [headers = [], ...rows] = parseCsv(text);
+    return { headers: headers.map(h => h.trim()), rows, firstRow: 2 };
+}
+
+function flatten(value: unknown, prefix: string, into: Record<string, string>) {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        Object.entries(value as Record<string, unknown>).forEach(([key, inner]) => flatten(inner, prefix ? `${prefix}.${key}` : key, into));
+    } else if (Array.isArray(value)) {
+        into[prefix] = value.join(', ');
+    } else if (value !== null && value !== undefined) {
+        into[prefix] = String(value);
+    }
+}
+
+function isFeature(item: unknown): item is GeoJsonFeature {
+    return !!item && typeof item === 'object' && (item as { type?: unknown }).type === 'Feature';
+}
+
+/** Latitude and longitude of a Point geometry, which GeoJSON lists longitude first. */
+function pointOf(feature: GeoJsonFeature): { lat: number; lng: number } | null {
+    const coordinates = feature.geometry?.type === 'Point' ? feature.geometry.coordinates : null;
+    if (!Array.isArray(coordinates)) return null;
+    const [lng, lat] = coordinates;
+    return typeof lat === 'number' && typeof lng === 'number' ? { lat, lng } : null;
+}
+
+/**
+ * Accepts an array of records, an object wrapping one (`leads`,
+ * `businesses`, `results`) or a GeoJSON FeatureCollection such as our own
+ * GeoJSON export. Nested objects become dotted column names.
+ */
+export function jsonToTable(text: string): ImportTable {
+    const parsed = JSON.parse(text);
+    const list: unknown[] = Array.isArray(parsed)
+        ? parsed
+        : parsed?.type === 'FeatureCollection'
+            ? parsed.features
+            : parsed?.leads ?? parsed?.businesses ?? parsed?.results;
+    if (!Array.isArray(list)) {
+        throw new Error('Expected a JSON array of leads.');
+    }
+    const records = list.map(item => {
+        const flat: Record<string, string> = {};
+        if (isFeature(item)) {
+            flatten(item.properties, '', flat);
+            const point = pointOf(item);
+            if (point) Object.assign(flat, { lat: String(point.lat), lng: String(point.lng) });
+        } else {
+            flatten(item, '', flat);
+        }
+        return flat;
+    });
+    const headers = [...new Set(records.flatMap(record => Object.keys(record)))];
+    return { headers, rows: records.map(record => headers.map(header => record[header] ?? '')), firstRow: 1 };
+}
+
+// --- Validation ---
+
+/**
+ * Turns mapped rows into normalized businesses. Rows without a name and
+ * repeats of an earlier row are rejected; unknown stages are ignored. Other
+ * problems (bad phone numbers, swapped coordinates) become record warnings
+ * as they do for search results.
+ */
+export function buildImportRecords(table: ImportTable, mapping: string[], source: string): ImportResult {
+    const records: ImportedRecord[] = [];
+    const problems: string[] = [];
+    const seen = new Map<string, number>();
+
+    table.rows.forEach((cells, index) => {
+        const row = table.firstRow + index;
+        const values = new Map<string, string[]>();
+        mapping.forEach((field, column) => {
+            const value = (cells[column] ?? '').trim();
+            if (field && value) values.set(field, [...(values.get(field) ?? []), value]);
+        });
+        const first = (field: string) => values.get(field)?.[0] ?? '';
+
+        const raw = {
+            name: first('name'),
+            address: (values.get('address') ?? []).join(', '),
+            phone: first('phone'),
+            website: first('website'),
+            summary: first('summary'),
+            rating: first('rating'),
+            lat: first('lat'),
+            lng: first('lng'),
+            socialMedia: Object.fromEntries(SOCIAL_PLATFORMS.map(platform => [platform, first(`social.${platform}`)])),
+        };
+        const business = normalizeBusiness(raw, source);
+        if (!business) {
+            problems.push(`Row ${row}: skipped because it has no name.`);
+            return;
+        }
+        if (seen.has(business.id)) {
+            problems.push(`Row ${row}: skipped as a repeat of row ${seen.get(business.id)}.`);
+            return;
+        }
+        seen.set(business.id, row);
+
+        const meta: ImportedRecord['meta'] = {};
+        const stage = first('stage').toLowerCase();
+        if (PIPELINE_STAGES.includes(stage as PipelineStage)) meta.stage = stage as PipelineStage;
+        else if (stage) problems.push(`Row ${row}: ignored unknown stage "${first('stage')}".`);
+        if (values.has('tags')) meta.tags = parseTags(values.get('tags')!.join(','));
+        if (values.has('notes')) meta.notes = values.get('notes')!.join('\n');
+        records.push({ row, business, meta });
+    });
+    return { records, problems };
+}
+
+// --- Merging ---
+
+/**
+ * Applies a row's stage, tags and notes to its lead. A new lead takes them
+ * as they are; an existing lead keeps its stage, gains the tags it lacks and
+ * has the notes appended, so an import never discards the team's work.
+ */
+export function applyImportedMeta(lead: Lead, meta: ImportedRecord['meta'], isNew: boolean) {
+    if (isNew) {
+        Object.assign(lead, meta);
+        return;
+    }
+    if (meta.tags) lead.tags = [...new Set([...lead.tags, ...meta.tags])];
+    if (meta.notes && !lead.notes.includes(meta.notes)) lead.notes = lead.notes ? `${lead.notes}\n\n${meta.notes}` : meta.notes;
+}
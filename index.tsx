@@ -3,7 +3,55 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import * as L from 'leaflet';
-import { GoogleGenAI, Type } from '@google/genai';
+import { MARKET_SUMMARY_SCHEMA, MarketReport, buildMarketSummaryPrompt, computeMarketStats, describeMarketStats, parseMarketSummary, renderMarketCharts, statsKey, toMarketReportHtml, toMarketReportSvg } from './analytics.ts';
+import { SearchBoundary, boundaryCenter, boundaryRadiusMiles, isInsideBoundary } from './area.ts';
+import { BatchJob, BatchState, expandBatch, jobLabel, jobParams, parseBusinessTypes, parseLocations, unfinishedJobs } from './batch.ts';
+import { Business } from './business.ts';
+import { DuplicateGroup, findDuplicateGroups } from './dedupe.ts';
+import { clusterPoints } from './cluster.ts';
+import { DeepSearchResult, StreamSearchResult, TileStatus, deepSearchBusinesses, searchBusinesses, streamSearchBusinesses } from './core.ts';
+import { createBoundaryLayer, startDrawing, startLasso } from './drawing.ts';
+import { DEEP_ENRICHMENT_PLATFORMS, DEEP_ENRICHMENT_SCHEMA, ENRICHMENT_ATTRIBUTES, ENRICHMENT_BATCH_SIZE, EnrichmentProposal, FILL_MISSING_SCHEMA, FillMissingAnswer, applyDeepEnrichment, applyProposal, buildDeepEnrichmentPrompt, buildFillMissingPrompt, lastEnrichedAt, missingFields, parseDeepEnrichment, proposeFill } from './enrich.ts';
+import { CellValue, DEFAULT_COLUMN_IDS, EXPORT_FORMATS, ExportColumn, ExportFormat, Exportable, exportLeads, getExportColumns, resolveColumns, toCsv } from './export.ts';
+import { createHeatLayer } from './heatmap.ts';
+import { FilterContext, SORT_FIELDS, computeFacets, matchesQuery, parseQuery, sortItems, toggleFacet } from './filter.ts';
+import { KM_PER_MILE, LatLng, medianCenter } from './geo.ts';
+import { DEFAULT_DRIVE_TARGET, DriveFolder, DriveTarget, FOLDER_LIST_QUERY, FOLDER_MIME_TYPE, SaveKind, SaveRecord, addSaveRecord, buildMultipartBody, fileLookupQuery, isUnauthorized, tokenRefreshDelay } from './google.ts';
+import { IMPORT_FIELDS, ImportTable, applyImportedMeta, buildImportRecords, csvToTable, guessMapping, jsonToTable } from './importer.ts';
+import { CHANGE_LABELS, ChangeKind, LeadChange, MAX_SNAPSHOTS, SavedSearch, Snapshot, SnapshotDiff, describeChange, diffSnapshots, takeSnapshot, toChangeReportCsv } from './monitor.ts';
+import { DEFAULT_OUTREACH_TEMPLATE, OUTREACH_CHANNELS, OUTREACH_SCHEMA, OutreachChannel, OutreachTemplate, TEMPLATE_VARIABLES, buildOutreachPrompt, emlFileName, parseOutreachDraft, toEml, toMailMergeCsv } from './outreach.ts';
+import { DEFAULT_PROVIDER_SETTINGS, GenerateJsonRequest, LlmProvider, PROVIDERS, ProviderId, ProviderSettings, UsageEvent, createCachedProvider, createMeteredProvider, createProvider } from './providers/index.ts';
+import { runQueue, withRetry } from './queue.ts';
+import { RoutePlan, RouteStop, directionsUrls, planRoute, routePath, toGpx } from './route.ts';
+import { DEFAULT_SCORING_PROFILE, RuleKind, ScoreResult, ScoringProfile, ScoringRule, createRule, describeRule, scoreBusiness } from './scoring.ts';
+import { SearchParams, describeSearch } from './search.ts';
+import { loadSetting, saveSetting } from './settings.ts';
+import { PushedValues, SheetTarget, changedSinceLastPush, parseSpreadsheetId, planUpsert, quoteSheetName, readSheetEdits, recordPushedValues, sheetTargetKey } from './sheets.ts';
+import { Tile } from './tiling.ts';
+import { EMPTY_TOTALS, UsageLedger, UsageTotals, addTotals, dayTotals, hasKnownPrice, monthTotals, recordUsage } from './usage.ts';
+import { UrlState, isSameSearch, parseQueryString, toQueryString } from './urlstate.ts';
+import { DEFAULT_VERIFICATION_SETTINGS, GEOCODE_INTERVAL_MS, VERIFIED_FIELDS, VerificationSettings, fieldStatus, verifyBusiness } from './verify.ts';
+import { Lead, PIPELINE_STAGES, PipelineStage, SearchRecord, clearResponseCache, deleteLeads, deleteSnapshots, loadLeads, loadSearchRecords, loadSnapshots, mergeLeads, mergeSearchResults, parseTags, responseStore, saveLeads, saveSearchRecord, saveSnapshot } from './workspace.ts';
+
+type ExportScope = 'filtered' | 'selected' | 'all';
+
+interface ExportSettings {
+    format: ExportFormat;
+    scope: ExportScope;
+    /** Ticked column ids, in export order. */
+    columns: string[];
+}
+
+interface MapSettings {
+    colorBy: 'stage' | 'score';
+    cluster: boolean;
+    heatmap: boolean;
+}
+
+interface RouteSettings {
+    start: 'center' | 'location' | 'map';
+    returnToStart: boolean;
+}
 
 // --- Type Declarations for Google APIs ---
 declare const gapi: any;
@@ -15,15 +63,121 @@ const cityInput = document.getElementById('city-input') as HTMLInputElement;
 const stateInput = document.getElementById('state-input') as HTMLInputElement;
 const searchRadiusInput = document.getElementById('search-radius-input') as HTMLInputElement;
 const aiSearchButton = document.getElementById('ai-search-button') as HTMLButtonElement;
-const exportCsvButton = document.getElementById('export-csv-button') as HTMLButtonElement;
+const deepSearchCheckbox = document.getElementById('deep-search-checkbox') as HTMLInputElement;
+const forceRefreshCheckbox = document.getElementById('force-refresh-checkbox') as HTMLInputElement;
+const cacheTtlInput = document.getElementById('cache-ttl-input') as HTMLInputElement;
+const clearCacheButton = document.getElementById('clear-cache-button') as HTMLButtonElement;
+const usageSummary = document.getElementById('usage-summary') as HTMLDListElement;
+const dailyBudgetInput = document.getElementById('daily-budget-input') as HTMLInputElement;
+const usageRecentList = document.getElementById('usage-recent') as HTMLOListElement;
+const providerSelect = document.getElementById('provider-select') as HTMLSelectElement;
+const modelInput = document.getElementById('model-input') as HTMLInputElement;
+const modelSuggestions = document.getElementById('model-suggestions') as HTMLDataListElement;
+const temperatureInput = document.getElementById('temperature-input') as HTMLInputElement;
+const baseUrlInput = document.getElementById('base-url-input') as HTMLInputElement;
+const providerApiKeyInput = document.getElementById('provider-api-key-input') as HTMLInputElement;
+const drawButtons = document.querySelectorAll<HTMLButtonElement>('.draw-button[data-kind]');
+const clearAreaButton = document.getElementById('clear-area-button') as HTMLButtonElement;
+const territorySelect = document.getElementById('territory-select') as HTMLSelectElement;
+const areaSummary = document.getElementById('area-summary') as HTMLParagraphElement;
+const importFileInput = document.getElementById('import-file-input') as HTMLInputElement;
+const geocoderUrlInput = document.getElementById('geocoder-url-input') as HTMLInputElement;
+const maxOffsetInput = document.getElementById('max-offset-input') as HTMLInputElement;
+const checkReachabilityCheckbox = document.getElementById('check-reachability-checkbox') as HTMLInputElement;
+const autoVerifyCheckbox = document.getElementById('auto-verify-checkbox') as HTMLInputElement;
+const verificationProgress = document.getElementById('verification-progress') as HTMLParagraphElement;
+const verifyButton = document.getElementById('verify-button') as HTMLButtonElement;
+const batchTypesInput = document.getElementById('batch-types-input') as HTMLTextAreaElement;
+const batchLocationsInput = document.getElementById('batch-locations-input') as HTMLTextAreaElement;
+const batchRadiusInput = document.getElementById('batch-radius-input') as HTMLInputElement;
+const batchConcurrencyInput = document.getElementById('batch-concurrency-input') as HTMLInputElement;
+const batchRetriesInput = document.getElementById('batch-retries-input') as HTMLInputElement;
+const batchPreview = document.getElementById('batch-preview') as HTMLParagraphElement;
+const batchRunButton = document.getElementById('batch-run-button') as HTMLButtonElement;
+const batchPanel = document.getElementById('batch-panel') as HTMLDivElement;
+const batchSummary = document.getElementById('batch-summary') as HTMLSpanElement;
+const batchProgress = document.getElementById('batch-progress') as HTMLProgressElement;
+const batchJobsList = document.getElementById('batch-jobs') as HTMLOListElement;
+const batchResumeButton = document.getElementById('batch-resume-button') as HTMLButtonElement;
+const batchCancelButton = document.getElementById('batch-cancel-button') as HTMLButtonElement;
+const streamPanel = document.getElementById('stream-panel') as HTMLDivElement;
+const streamSummary = document.getElementById('stream-summary') as HTMLSpanElement;
+const streamStopButton = document.getElementById('stream-stop-button') as HTMLButtonElement;
+const deepSearchPanel = document.getElementById('deep-search-panel') as HTMLDivElement;
+const deepSearchSummary = document.getElementById('deep-search-summary') as HTMLSpanElement;
+const deepSearchProgress = document.getElementById('deep-search-progress') as HTMLProgressElement;
+const deepSearchTilesList = document.getElementById('deep-search-tiles') as HTMLOListElement;
+const deepSearchCancelButton = document.getElementById('deep-search-cancel-button') as HTMLButtonElement;
+const exportButton = document.getElementById('export-button') as HTMLButtonElement;
 const resultsContainer = document.getElementById('results-container') as HTMLDivElement;
 const mapContainer = document.getElementById('map') as HTMLDivElement;
+const mapToolbar = document.getElementById('map-toolbar') as HTMLDivElement;
+const markerColorSelect = document.getElementById('marker-color-select') as HTMLSelectElement;
+const clusterCheckbox = document.getElementById('cluster-checkbox') as HTMLInputElement;
+const heatmapCheckbox = document.getElementById('heatmap-checkbox') as HTMLInputElement;
+const boxSelectButton = document.getElementById('box-select-button') as HTMLButtonElement;
+const lassoSelectButton = document.getElementById('lasso-select-button') as HTMLButtonElement;
+const mapLegend = document.getElementById('map-legend') as HTMLUListElement;
 const searchInput = document.getElementById('search-input') as HTMLInputElement;
-const instagramHandleInput = document.getElementById('instagram-handle-input') as HTMLInputElement;
-const followsFilterCheckbox = document.getElementById('follows-filter-checkbox') as HTMLInputElement;
+const filterErrors = document.getElementById('filter-errors') as HTMLParagraphElement;
+const facetsPanel = document.getElementById('facets-panel') as HTMLElement;
+const outsideAreaCheckbox = document.getElementById('outside-area-checkbox') as HTMLInputElement;
+const sortSelect = document.getElementById('sort-select') as HTMLSelectElement;
+const sortDirectionButton = document.getElementById('sort-direction-button') as HTMLButtonElement;
+const scoringRulesButton = document.getElementById('scoring-rules-button') as HTMLButtonElement;
+const viewSelect = document.getElementById('view-select') as HTMLSelectElement;
+const stageFilterSelect = document.getElementById('stage-filter-select') as HTMLSelectElement;
 const authContainer = document.getElementById('auth-container') as HTMLDivElement;
 const authErrorContainer = document.getElementById('auth-error-message') as HTMLDivElement;
+const sessionRenewBanner = document.getElementById('session-renew-banner') as HTMLDivElement;
+const renewSessionButton = document.getElementById('renew-session-button') as HTMLButtonElement;
 const googleClientIdInput = document.getElementById('google-client-id-input') as HTMLInputElement;
+const saveHistoryContainer = document.getElementById('save-history') as HTMLDivElement;
+const saveHistoryList = document.getElementById('save-history-list') as HTMLOListElement;
+const clearSaveHistoryButton = document.getElementById('clear-save-history-button') as HTMLButtonElement;
+const enrichSelectedButton = document.getElementById('enrich-selected-button') as HTMLButtonElement;
+const outreachButton = document.getElementById('outreach-button') as HTMLButtonElement;
+const analyticsButton = document.getElementById('analytics-button') as HTMLButtonElement;
+const analyticsPanel = document.getElementById('analytics-panel') as HTMLDivElement;
+const analyticsTitle = document.getElementById('analytics-title') as HTMLSpanElement;
+const analyticsFigures = document.getElementById('analytics-figures') as HTMLDivElement;
+const analyticsCharts = document.getElementById('analytics-charts') as HTMLDivElement;
+const marketSummaryText = document.getElementById('market-summary') as HTMLParagraphElement;
+const marketSummaryButton = document.getElementById('market-summary-button') as HTMLButtonElement;
+const analyticsPngButton = document.getElementById('analytics-png-button') as HTMLButtonElement;
+const analyticsHtmlButton = document.getElementById('analytics-html-button') as HTMLButtonElement;
+const analyticsCloseButton = document.getElementById('analytics-close-button') as HTMLButtonElement;
+const planRouteButton = document.getElementById('plan-route-button') as HTMLButtonElement;
+const savedSearchNameInput = document.getElementById('saved-search-name-input') as HTMLInputElement;
+const saveSearchButton = document.getElementById('save-search-button') as HTMLButtonElement;
+const savedSearchesList = document.getElementById('saved-searches-list') as HTMLOListElement;
+const changesPanel = document.getElementById('changes-panel') as HTMLDivElement;
+const changesSummary = document.getElementById('changes-summary') as HTMLSpanElement;
+const changesExportButton = document.getElementById('changes-export-button') as HTMLButtonElement;
+const changesCloseButton = document.getElementById('changes-close-button') as HTMLButtonElement;
+const changesList = document.getElementById('changes-list') as HTMLOListElement;
+const bulkBar = document.getElementById('bulk-bar') as HTMLDivElement;
+const bulkCount = document.getElementById('bulk-count') as HTMLSpanElement;
+const selectAllButton = document.getElementById('select-all-button') as HTMLButtonElement;
+const selectNoneButton = document.getElementById('select-none-button') as HTMLButtonElement;
+const bulkTagInput = document.getElementById('bulk-tag-input') as HTMLInputElement;
+const bulkTagButton = document.getElementById('bulk-tag-button') as HTMLButtonElement;
+const bulkStageSelect = document.getElementById('bulk-stage-select') as HTMLSelectElement;
+const bulkExportButton = document.getElementById('bulk-export-button') as HTMLButtonElement;
+const bulkSheetsButton = document.getElementById('bulk-sheets-button') as HTMLButtonElement;
+const bulkDeleteButton = document.getElementById('bulk-delete-button') as HTMLButtonElement;
+const triageButton = document.getElementById('triage-button') as HTMLButtonElement;
+const triageBar = document.getElementById('triage-bar') as HTMLDivElement;
+const triageSummary = document.getElementById('triage-summary') as HTMLSpanElement;
+const triageExitButton = document.getElementById('triage-exit-button') as HTMLButtonElement;
+const routePanel = document.getElementById('route-panel') as HTMLDivElement;
+const routeSummary = document.getElementById('route-summary') as HTMLSpanElement;
+const routeGpxButton = document.getElementById('route-gpx-button') as HTMLButtonElement;
+const routeClearButton = document.getElementById('route-clear-button') as HTMLButtonElement;
+const routeStartSelect = document.getElementById('route-start-select') as HTMLSelectElement;
+const routeReturnCheckbox = document.getElementById('route-return-checkbox') as HTMLInputElement;
+const routeDirections = document.getElementById('route-directions') as HTMLDivElement;
+const routeStopsList = document.getElementById('route-stops') as HTMLOListElement;
 const saveToSheetsButton = document.getElementById('save-to-sheets-button') as HTMLButtonElement;
 const saveToDriveButton = document.getElementById('save-to-drive-button') as HTMLButtonElement;
 const statusMessage = document.getElementById('status-message') as HTMLDivElement;
@@ -34,18 +188,167 @@ const modalBusinessName = document.getElementById('modal-business-name') as HTML
 const modalBody = document.getElementById('modal-body') as HTMLDivElement;
 const modalCloseButton = document.getElementById('modal-close-button') as HTMLButtonElement;
 
+// Scoring Elements
+const scoringModal = document.getElementById('scoring-modal') as HTMLDivElement;
+const scoringCloseButton = document.getElementById('scoring-close-button') as HTMLButtonElement;
+const scoringProfileSelect = document.getElementById('scoring-profile-select') as HTMLSelectElement;
+const scoringProfileNameInput = document.getElementById('scoring-profile-name-input') as HTMLInputElement;
+const scoringSaveAsButton = document.getElementById('scoring-save-as-button') as HTMLButtonElement;
+const scoringDeleteButton = document.getElementById('scoring-delete-button') as HTMLButtonElement;
+const scoringRulesList = document.getElementById('scoring-rules-list') as HTMLDivElement;
+const addRuleSelect = document.getElementById('add-rule-select') as HTMLSelectElement;
+const addRuleButton = document.getElementById('add-rule-button') as HTMLButtonElement;
+
+// Outreach Modal Elements
+const outreachModal = document.getElementById('outreach-modal') as HTMLDivElement;
+const outreachCloseButton = document.getElementById('outreach-close-button') as HTMLButtonElement;
+const outreachTemplateSelect = document.getElementById('outreach-template-select') as HTMLSelectElement;
+const outreachTemplateNameInput = document.getElementById('outreach-template-name-input') as HTMLInputElement;
+const outreachSaveAsButton = document.getElementById('outreach-save-as-button') as HTMLButtonElement;
+const outreachDeleteButton = document.getElementById('outreach-delete-button') as HTMLButtonElement;
+const outreachTemplateForm = document.getElementById('outreach-template-form') as HTMLFormElement;
+const outreachVariablesHint = document.getElementById('outreach-variables-hint') as HTMLParagraphElement;
+const outreachSelectionNote = document.getElementById('outreach-selection-note') as HTMLParagraphElement;
+const outreachChannelSelect = document.getElementById('outreach-channel-select') as HTMLSelectElement;
+const outreachDraftButton = document.getElementById('outreach-draft-button') as HTMLButtonElement;
+const outreachCsvButton = document.getElementById('outreach-csv-button') as HTMLButtonElement;
+const outreachEmlButton = document.getElementById('outreach-eml-button') as HTMLButtonElement;
+
+// Export Modal Elements
+const exportModal = document.getElementById('export-modal') as HTMLDivElement;
+const exportCloseButton = document.getElementById('export-close-button') as HTMLButtonElement;
+const exportScopeOptions = document.getElementById('export-scope-options') as HTMLDivElement;
+const exportFormatSelect = document.getElementById('export-format-select') as HTMLSelectElement;
+const exportColumnsNote = document.getElementById('export-columns-note') as HTMLParagraphElement;
+const exportColumnsList = document.getElementById('export-columns-list') as HTMLOListElement;
+const exportDownloadButton = document.getElementById('export-download-button') as HTMLButtonElement;
+
+// Import Modal Elements
+const importModal = document.getElementById('import-modal') as HTMLDivElement;
+const importTitle = document.getElementById('import-title') as HTMLHeadingElement;
+const importCloseButton = document.getElementById('import-close-button') as HTMLButtonElement;
+const importDescription = document.getElementById('import-description') as HTMLParagraphElement;
+const importMapping = document.getElementById('import-mapping') as HTMLDivElement;
+const importProblems = document.getElementById('import-problems') as HTMLUListElement;
+const importDiff = document.getElementById('import-diff') as HTMLDivElement;
+const importEnrichButton = document.getElementById('import-enrich-button') as HTMLButtonElement;
+const importApplyButton = document.getElementById('import-apply-button') as HTMLButtonElement;
+const importConfirmButton = document.getElementById('import-confirm-button') as HTMLButtonElement;
+
+// Sheets Modal Elements
+const sheetsModal = document.getElementById('sheets-modal') as HTMLDivElement;
+const sheetsCloseButton = document.getElementById('sheets-close-button') as HTMLButtonElement;
+const sheetsSpreadsheetInput = document.getElementById('sheets-spreadsheet-input') as HTMLInputElement;
+const sheetsTabInput = document.getElementById('sheets-tab-input') as HTMLInputElement;
+const sheetsTabSuggestions = document.getElementById('sheets-tab-suggestions') as HTMLDataListElement;
+const sheetsTargetLink = document.getElementById('sheets-target-link') as HTMLParagraphElement;
+const sheetsPullButton = document.getElementById('sheets-pull-button') as HTMLButtonElement;
+const sheetsPushButton = document.getElementById('sheets-push-button') as HTMLButtonElement;
+
+// Drive Modal Elements
+const driveModal = document.getElementById('drive-modal') as HTMLDivElement;
+const driveCloseButton = document.getElementById('drive-close-button') as HTMLButtonElement;
+const driveFolderSelect = document.getElementById('drive-folder-select') as HTMLSelectElement;
+const driveNewFolderInput = document.getElementById('drive-new-folder-input') as HTMLInputElement;
+const driveCreateFolderButton = document.getElementById('drive-create-folder-button') as HTMLButtonElement;
+const driveFileNameInput = document.getElementById('drive-file-name-input') as HTMLInputElement;
+const driveSaveButton = document.getElementById('drive-save-button') as HTMLButtonElement;
+
+// Duplicate Review Elements
+const runSearchBanner = document.getElementById('run-search-banner') as HTMLDivElement;
+const runSearchBannerText = document.getElementById('run-search-banner-text') as HTMLSpanElement;
+const runSearchButton = document.getElementById('run-search-button') as HTMLButtonElement;
+const duplicatesBanner = document.getElementById('duplicates-banner') as HTMLDivElement;
+const duplicatesBannerText = document.getElementById('duplicates-banner-text') as HTMLSpanElement;
+const reviewDuplicatesButton = document.getElementById('review-duplicates-button') as HTMLButtonElement;
+const dedupeModal = document.getElementById('dedupe-modal') as HTMLDivElement;
+const dedupeGroupsContainer = document.getElementById('dedupe-groups') as HTMLDivElement;
+const dedupeApplyButton = document.getElementById('dedupe-apply-button') as HTMLButtonElement;
+const dedupeCloseButton = document.getElementById('dedupe-close-button') as HTMLButtonElement;
+
 
 // --- Google API Config ---
 const API_KEY = process.env.API_KEY;
-const ai = new GoogleGenAI({ apiKey: API_KEY });
 
 const SCOPES = 'https://www.googleapis.com/auth/spreadsheets https://www.googleapis.com/auth/drive.file';
 
+const DEFAULT_CACHE_TTL_HOURS = 24;
+const HOUR_MS = 60 * 60 * 1000;
+
 
 // --- App State ---
 let map: L.Map | null = null;
 let markersLayer: L.FeatureGroup | null = null;
-let currentBusinesses: any[] = [];
+let boundaryLayer: L.Circle | L.Polygon | null = null;
+let activeBoundary: SearchBoundary | null = null;
+let cancelDrawing: (() => void) | null = null;
+let cancelMapSelection: (() => void) | null = null;
+let heatLayer: L.Layer | null = null;
+let mapSettings: MapSettings = loadSetting('map', { colorBy: 'stage', cluster: true, heatmap: false });
+/** Located leads currently on the map, and their marker or cluster by lead id. */
+let mappedBusinesses: Lead[] = [];
+const markerById = new Map<string, L.Layer>();
+// The set of leads the map was last fitted to, so re-filtering does not jump the view.
+let fittedKey = '';
+let searchHistory: SearchRecord[] = [];
+// Without a Gemini key the app starts on the offline mock provider.
+let providerSettings: ProviderSettings = loadSetting('provider', API_KEY
+    ? DEFAULT_PROVIDER_SETTINGS
+    : { ...DEFAULT_PROVIDER_SETTINGS, provider: 'mock', model: 'fixtures' });
+let cacheSettings: { ttlHours: number } = loadSetting('cache', { ttlHours: DEFAULT_CACHE_TTL_HOURS });
+let usageSettings: { dailyBudgetUsd: number } = loadSetting('usage', { dailyBudgetUsd: 0 });
+let usageLedger: UsageLedger = loadSetting('usage-ledger', { days: {}, recent: [] });
+let sessionUsage: UsageTotals = EMPTY_TOTALS;
+let provider: LlmProvider = buildProvider();
+let scoringProfiles: ScoringProfile[] = loadSetting('scoring-profiles', [structuredClone(DEFAULT_SCORING_PROFILE)]);
+let activeProfileId: string = loadSetting('active-scoring-profile', DEFAULT_SCORING_PROFILE.id);
+let currentScores = new Map<string, ScoreResult>();
+let lastSearchCenter: LatLng | null = null;
+/** The search behind lastSearchResults; null for batch runs and imports. */
+let currentSearch: SearchParams | null = null;
+let detailsLeadId: string | null = null;
+// Set while a link or history entry is applied, so applying it does not write the URL back.
+let isRestoringUrl = false;
+let viewportSyncTimer = 0;
+let currentBusinesses: Lead[] = [];
+let lastSearchResults: Lead[] = [];
+let visibleBusinesses: Lead[] = [];
+let sortDescending = false;
+const selectedIds = new Set<string>();
+let triageIndex: number | null = null;
+let sheetsSelectedOnly = false;
+let savedSearches: SavedSearch[] = loadSetting('saved-searches', []);
+let activeChanges: { search: SavedSearch; diff: SnapshotDiff } | null = null;
+const leadChanges = new Map<string, LeadChange>();
+let exportSettings: ExportSettings = loadSetting('export', { format: 'csv', scope: 'filtered', columns: DEFAULT_COLUMN_IDS });
+let importTable: ImportTable | null = null;
+let importFileName = '';
+let importedLeads: Lead[] = [];
+let enrichmentProposals: EnrichmentProposal[] = [];
+let outreachTemplates: OutreachTemplate[] = loadSetting('outreach-templates', [structuredClone(DEFAULT_OUTREACH_TEMPLATE)]);
+let activeOutreachTemplateId: string = loadSetting('active-outreach-template', DEFAULT_OUTREACH_TEMPLATE.id);
+/** The AI market summary and the statistics it was written for. */
+let marketSummary: { key: string; text: string } | null = null;
+let routeSettings: RouteSettings = loadSetting('route', { start: 'center', returnToStart: false });
+let routePlan: RoutePlan | null = null;
+let routeLayer: L.Layer | null = null;
+let cancelRouteStartPick: (() => void) | null = null;
+let verificationSettings: VerificationSettings = loadSetting('verification', DEFAULT_VERIFICATION_SETTINGS);
+let verifyController: AbortController | null = null;
+let sheetTarget: SheetTarget = loadSetting('sheets-target', { spreadsheetId: '', sheetName: 'Leads' });
+/** Each lead's stage and notes as last pushed to or pulled from a tab, keyed by sheetTargetKey. */
+let sheetsPushed: Record<string, PushedValues> = loadSetting('sheets-pushed', {});
+let driveTarget: DriveTarget = loadSetting('drive-target', DEFAULT_DRIVE_TARGET);
+let saveHistory: SaveRecord[] = loadSetting('save-history', []);
+/** Saves that failed because the session expired; retried after the next sign-in. */
+let pendingGoogleSaves: { label: string; run: () => Promise<void> }[] = [];
+let tokenRefreshTimer = 0;
+// Set while a token is renewed in the background, so its outcome stays quiet.
+let isRefreshingToken = false;
+/** Every column id in the order shown in the export dialog, ticked or not. */
+let exportColumnOrder: string[] = [];
+const workspace = new Map<string, Lead>();
+let pendingDuplicates: DuplicateGroup<Lead>[] = [];
 let tokenClient: any = null;
 let gapiInited = false;
 let gisInited = false; // True once the GIS script has loaded
@@ -82,22 +385,19 @@ function setButtonLoadingState(button: HTMLButtonElement, isLoading: boolean) {
     }
 }
 
-// --- Data Handling ---
-const getBusinessId = (business: any): string => btoa(encodeURIComponent(business.name + business.address));
-
-const convertToCsv = (data: any[]): string => {
-    if (data.length === 0) return '';
-    const headers = Object.keys(data[0]).filter(key => key !== 'socialMedia');
-    const socialHeaders = data.some(d => d.socialMedia) ? Object.keys(data.find(d => d.socialMedia)?.socialMedia || {}) : [];
-    const allHeaders = [...headers, ...socialHeaders];
+function downloadFile(content: string, mimeType: string, fileName: string) {
+    downloadBlob(new Blob([content], { type: mimeType }), fileName);
+}
 
-    const headerRow = allHeaders.map(h => `"${h}"`).join(',');
-    const rows = data.map(row => {
-        const mainValues = headers.map(header => `"${escapeHTML(row[header])}"`);
-        const socialValues = socialHeaders.map(header => `"${escapeHTML(row.socialMedia?.[header] || '')}"`);
-        return [...mainValues, ...socialValues].join(',');
-    });
-    return [headerRow, ...rows].join('\n');
+function downloadBlob(blob: Blob, fileName: string) {
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
 }
 
 // --- Google Auth ---
@@ -121,10 +421,33 @@ function initializeGisClient(clientId: string) {
             client_id: clientId,
             scope: SCOPES,
             callback: (tokenResponse: any) => {
+                const wasRefresh = isRefreshingToken;
+                isRefreshingToken = false;
+                if (tokenResponse.error) {
+                    console.error('Google Token Error:', tokenResponse);
+                    if (wasRefresh) {
+                        sessionRenewBanner.classList.remove('hidden');
+                    } else {
+                        updateAuthUI(false);
+                        showStatus(`Google sign-in failed: ${escapeHTML(tokenResponse.error_description || tokenResponse.error)}`, 'error');
+                    }
+                    return;
+                }
                 gapi.client.setToken(tokenResponse);
-                updateAuthUI(true);
+                sessionRenewBanner.classList.add('hidden');
+                scheduleTokenRefresh(Number(tokenResponse.expires_in));
+                if (!wasRefresh) updateAuthUI(true);
+                retryPendingSaves();
             },
             error_callback: (error: any) => {
+                // Browsers usually block the renewal popup outside a click, so a
+                // failed renewal asks the user to renew before the token expires.
+                if (isRefreshingToken) {
+                    isRefreshingToken = false;
+                    console.error('Google Token Refresh Error:', error);
+                    sessionRenewBanner.classList.remove('hidden');
+                    return;
+                }
                 console.error("Google Sign-In Error:", error);
                 const signInButton = document.getElementById('authorize-button') as HTMLButtonElement;
                 
@@ -175,10 +498,12 @@ function maybeEnableAuth() {
 
 async function updateAuthUI(isAuthed: boolean) {
     authContainer.innerHTML = '';
+    sessionRenewBanner.classList.add('hidden');
     authErrorContainer.classList.remove('visible');
     authErrorContainer.innerHTML = '';
     saveToSheetsButton.disabled = !isAuthed;
     saveToDriveButton.disabled = !isAuthed;
+    renderBulkBar();
 
     if (isAuthed) {
         try {
@@ -250,6 +575,8 @@ function handleAuthClick() {
 
 function handleSignoutClick() {
     const token = gapi.client.getToken();
+    clearTimeout(tokenRefreshTimer);
+    pendingGoogleSaves = [];
     if (token !== null) {
         google.accounts.oauth2.revoke(token.access_token, () => {
             gapi.client.setToken(null);
@@ -260,347 +587,3425 @@ function handleSignoutClick() {
     }
 }
 
+/** Renews the token silently shortly before it expires. */
+function scheduleTokenRefresh(expiresInSeconds: number) {
+    clearTimeout(tokenRefreshTimer);
+    if (!(expiresInSeconds > 0)) return;
+    tokenRefreshTimer = window.setTimeout(() => {
+        if (!tokenClient || gapi.client.getToken() === null) return;
+        isRefreshingToken = true;
+        tokenClient.requestAccessToken({ prompt: '' });
+    }, tokenRefreshDelay(expiresInSeconds));
+}
+
+/** Renews the token from a click, which browsers let open the consent popup. */
+function renewSession() {
+    if (!tokenClient || gapi.client.getToken() === null) return;
+    isRefreshingToken = true;
+    tokenClient.requestAccessToken({ prompt: '' });
+}
+
+/** Drops a token Google no longer accepts, so the next sign-in starts fresh. */
+function expireSession(message: string) {
+    clearTimeout(tokenRefreshTimer);
+    gapi.client.setToken(null);
+    updateAuthUI(false);
+    showStatus(message, 'error');
+}
+
+/**
+ * Runs a Sheets or Drive save. When Google rejects the token (401) the save
+ * is queued and run again after the user signs back in; other errors are
+ * thrown for the caller to report.
+ */
+async function runGoogleSave(label: string, run: () => Promise<void>): Promise<void> {
+    try {
+        await run();
+    } catch (error) {
+        if (!isUnauthorized(error)) throw error;
+        pendingGoogleSaves.push({ label, run });
+        expireSession(`Your Google session expired. Sign in again and ${escapeHTML(label)} will be retried.`);
+    }
+}
+
+async function retryPendingSaves() {
+    const saves = pendingGoogleSaves;
+    pendingGoogleSaves = [];
+    for (const save of saves) {
+        try {
+            await runGoogleSave(save.label, save.run);
+        } catch (error) {
+            console.error('Google Save Retry Error:', error);
+            showStatus(`Retrying ${escapeHTML(save.label)} failed.`, 'error');
+        }
+    }
+}
+
 // --- AI Search ---
 
-async function handleAiSearch() {
+/**
+ * Runs the search in the form. Resolves to whether it ran to completion, so
+ * a stopped or broken-off search is not taken for a full run.
+ */
+async function handleAiSearch(): Promise<boolean> {
     const businessType = businessTypeInput.value.trim();
     const city = cityInput.value.trim();
     const state = stateInput.value.trim();
     const radius = searchRadiusInput.value.trim();
 
-    if (!businessType || !city || !state || !radius) {
-        showStatus('Please fill in all search fields.', 'error');
-        return;
+    if (activeBoundary) {
+        if (!businessType) {
+            showStatus('Please enter a business type.', 'error');
+            return false;
+        }
+    } else if (!businessType || !city || !state || !radius) {
+        showStatus('Please fill in all search fields, or draw a search area on the map.', 'error');
+        return false;
+    }
+    const radiusMiles = activeBoundary ? boundaryRadiusMiles(activeBoundary) : parseFloat(radius);
+    if (!(radiusMiles > 0)) {
+        showStatus('Please enter the radius as a number of miles.', 'error');
+        return false;
+    }
+    if (isOverBudget()) {
+        showStatus(budgetMessage(), 'error');
+        return false;
     }
+    const params: SearchParams = { businessType, city, state, radiusMiles, boundary: activeBoundary };
+    runSearchBanner.classList.add('hidden');
+    clearChanges();
+    lastSearchCenter = activeBoundary ? boundaryCenter(activeBoundary) : null;
+    currentSearch = params;
+    syncUrl(true);
 
     setButtonLoadingState(aiSearchButton, true);
     resultsContainer.innerHTML = '<div class="loader"></div>';
-    mapContainer.classList.add('hidden');
-    exportCsvButton.classList.add('hidden');
+    if (!activeBoundary) mapContainer.classList.add('hidden');
+    exportButton.classList.add('hidden');
+    enrichSelectedButton.classList.add('hidden');
     saveToSheetsButton.classList.add('hidden');
     saveToDriveButton.classList.add('hidden');
-
-
-    const prompt = `Find ${businessType} in or near ${city}, ${state} within a ${radius} mile radius. For each business, provide the name, full address, phone number, website URL, a 1-2 sentence descriptive summary, an estimated customer rating out of 5 (as a number), and a list of social media URLs (like Instagram, Twitter, Facebook).`;
-    const responseSchema = {
-        type: Type.ARRAY,
-        items: {
-            type: Type.OBJECT,
-            properties: {
-                name: { type: Type.STRING },
-                address: { type: Type.STRING },
-                phone: { type: Type.STRING },
-                website: { type: Type.STRING },
-                summary: { type: Type.STRING },
-                rating: { type: Type.NUMBER },
-                lat: { type: Type.NUMBER, description: 'Latitude for mapping.' },
-                lng: { type: Type.NUMBER, description: 'Longitude for mapping.' },
-                socialMedia: {
-                    type: Type.OBJECT,
-                    properties: {
-                        instagram: { type: Type.STRING },
-                        twitter: { type: Type.STRING },
-                        facebook: { type: Type.STRING },
-                    },
-                },
-            },
-            required: ['name', 'address', 'lat', 'lng']
-        }
-    };
+    duplicatesBanner.classList.add('hidden');
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema,
-            },
-        });
-        const businesses = JSON.parse(response.text.trim());
-        currentBusinesses = businesses;
-        if (businesses.length > 0) {
-            initMap();
-        }
-        filterAndRenderResults();
+        const complete = deepSearchCheckbox.checked ? await runDeepSearch(params) : await runStandardSearch(params);
+        suggestDuplicates();
+        recordSearch(params);
+        if (verificationSettings.autoVerify) verifyLeads(lastSearchResults);
+        return complete;
     } catch (error) {
         console.error('AI Search Error:', error);
         showStatus('Failed to get results from AI. Please try again.', 'error');
         resultsContainer.innerHTML = '<p class="error">An error occurred. Please refine your search and try again.</p>';
+        return false;
     } finally {
         setButtonLoadingState(aiSearchButton, false);
+        forceRefreshCheckbox.checked = false;
     }
 }
 
-// --- Rendering ---
-function renderResults(businesses: any[]) {
-    resultsContainer.innerHTML = '';
-    if (businesses.length === 0) {
-        resultsContainer.innerHTML = '<p>No businesses found matching your criteria.</p>';
-        mapContainer.classList.add('hidden');
-        exportCsvButton.classList.add('hidden');
-        saveToSheetsButton.classList.add('hidden');
-        saveToDriveButton.classList.add('hidden');
-        return;
+let streamController: AbortController | null = null;
+
+/**
+ * Streams the response and shows each business as soon as it is complete.
+ * The cards and markers are provisional until the response ends; then the
+ * results are saved and rendered with the filters like any other search.
+ */
+async function runStandardSearch(params: SearchParams): Promise<boolean> {
+    const label = describeSearch(params);
+    const received: Business[] = [];
+    let shown: Lead[] = [];
+    streamController = new AbortController();
+    streamSummary.textContent = 'Waiting for the first result…';
+    streamStopButton.disabled = false;
+    streamPanel.classList.remove('hidden');
+
+    let result: StreamSearchResult;
+    try {
+        result = await streamSearchBusinesses(provider, params, {
+            signal: streamController.signal,
+            refresh: forceRefreshCheckbox.checked,
+            onBusiness: business => {
+                received.push(business);
+                shown = mergeSearchResults(received, workspace, label);
+                showStreamedLead(shown.find(lead => lead.id === business.id || lead.aliases.includes(business.id)), shown);
+            },
+        });
+    } finally {
+        streamPanel.classList.add('hidden');
+        streamController = null;
     }
 
-    businesses.forEach(business => {
-        resultsContainer.appendChild(createBusinessCard(business));
-    });
+    const { businesses, dropped, cachedAt, interrupted } = result;
+    showSearchResults(businesses, label);
+    if (interrupted?.cancelled) {
+        showStatus(`Search stopped. Kept the ${businesses.length} businesses received so far.`, 'success');
+    } else if (interrupted) {
+        console.error('AI Search Stream Error:', interrupted.error);
+        showStatus(`The response broke off after ${businesses.length} businesses. They are kept; search again for the rest.`, 'error');
+    } else if (dropped > 0) {
+        showStatus(`Skipped ${dropped} malformed record${dropped === 1 ? '' : 's'} returned by the AI.`, 'error');
+    } else if (cachedAt) {
+        showStatus(describeCachedAt(cachedAt), 'success');
+    }
+    return !interrupted;
+}
 
-    updateMapMarkers(businesses);
-    mapContainer.classList.remove('hidden');
-    exportCsvButton.classList.remove('hidden');
-    saveToSheetsButton.classList.remove('hidden');
-    saveToDriveButton.classList.remove('hidden');
+/** Adds or replaces the card and marker of a business that just arrived. */
+function showStreamedLead(lead: Lead | undefined, leads: Lead[]) {
+    if (!lead) return;
+    if (!resultsContainer.querySelector('.business-card')) {
+        resultsContainer.innerHTML = '';
+        mapContainer.classList.remove('hidden');
+        initMap();
+    }
+    const card = createBusinessCard(lead);
+    const existing = findCard(lead.id);
+    if (existing) existing.replaceWith(card);
+    else resultsContainer.appendChild(card);
+    updateMapMarkers(leads);
+    streamSummary.textContent = `Receiving results: ${leads.length} so far`;
 }
 
-function createBusinessCard(business: any): HTMLElement {
-    const card = document.createElement('div');
-    card.className = 'business-card';
-    card.dataset.id = getBusinessId(business);
+function stopStreamedSearch() {
+    streamController?.abort();
+    streamStopButton.disabled = true;
+}
 
-    const socialLinks = business.socialMedia ? Object.entries(business.socialMedia).map(([platform, url]) => {
-        if (!url) return '';
-        return `<a href="${escapeHTML(url)}" target="_blank" rel="noopener noreferrer" class="social-link" aria-label="${platform}">${platform.charAt(0).toUpperCase() + platform.slice(1)}</a>`;
-    }).join('') : 'N/A';
+function showSearchResults(businesses: Business[], query?: string) {
+    showLatestLeads(mergeSearchResults(businesses, workspace, query));
+}
 
-    card.innerHTML = `
-        <div class="card-header">
-            <h3>${escapeHTML(business.name)}</h3>
-        </div>
-        ${business.rating ? `<div class="rating">Rating: ${escapeHTML(business.rating)} / 5 ★</div>` : ''}
-        <p class="address">${escapeHTML(business.address)}</p>
-        <div class="business-details">
-            <p>${escapeHTML(business.summary)}</p>
-            <p><strong>Phone:</strong> ${escapeHTML(business.phone) || 'N/A'}</p>
-            <p><strong>Website:</strong> ${business.website ? `<a href="${escapeHTML(business.website)}" target="_blank" rel="noopener noreferrer">${escapeHTML(business.website)}</a>` : 'N/A'}</p>
-            <p><strong>Social:</strong> ${socialLinks}</p>
-        </div>
-    `;
-    card.addEventListener('click', () => showDetailsModal(business));
-    card.addEventListener('mouseenter', () => highlightMarker(business, true));
-    card.addEventListener('mouseleave', () => highlightMarker(business, false));
-    return card;
+function showLatestLeads(leads: Lead[]) {
+    lastSearchResults = leads;
+    lastSearchResults.forEach(lead => workspace.set(lead.id, lead));
+    persistLeads(lastSearchResults);
+    viewSelect.value = 'search';
+    showCurrentView();
 }
 
-// --- Map Logic ---
+// --- Deep Search ---
 
-function initMap() {
-    if (map) return;
-    map = L.map(mapContainer).setView([37.7749, -122.4194], 10); // Default to SF
-    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-    }).addTo(map);
-    markersLayer = L.featureGroup().addTo(map);
+let deepSearchController: AbortController | null = null;
+
+function renderTileRow(tile: Tile) {
+    const row = document.createElement('li');
+    row.dataset.tile = tile.id;
+    row.style.marginLeft = `${tile.depth * 1.25}rem`;
+    deepSearchTilesList.appendChild(row);
+    setTileStatus(tile, 'queued');
 }
 
-function updateMapMarkers(businesses: any[]) {
-    if (!map || !markersLayer) return;
-    markersLayer.clearLayers();
-    const markers: L.Marker[] = [];
-    businesses.forEach(business => {
-        if (business.lat && business.lng) {
-            const marker = L.marker([business.lat, business.lng]);
-            marker.bindPopup(`<b>${escapeHTML(business.name)}</b><br>${escapeHTML(business.address)}`);
-            (marker as any).businessId = getBusinessId(business);
-            markersLayer!.addLayer(marker);
-            markers.push(marker);
-        }
-    });
-    if (markers.length > 0) {
-        map.fitBounds(L.featureGroup(markers).getBounds().pad(0.1));
+function setTileStatus(tile: Tile, status: TileStatus, count?: number) {
+    const row = deepSearchTilesList.querySelector<HTMLLIElement>(`li[data-tile="${tile.id}"]`);
+    if (!row) return;
+    const labels = {
+        queued: 'Queued',
+        running: 'Searching…',
+        done: `${count} found`,
+        subdivided: `${count} found, splitting into smaller tiles`,
+        failed: 'Failed',
+        cancelled: 'Cancelled',
+    };
+    row.className = `tile-status tile-${status}`;
+    row.textContent = `${tile.radiusMiles.toFixed(1)} mi around ${tile.center.lat.toFixed(3)}, ${tile.center.lng.toFixed(3)} — ${labels[status]}`;
+}
+
+function updateDeepSearchProgress(finished: number, total: number, found: number) {
+    deepSearchProgress.max = total;
+    deepSearchProgress.value = finished;
+    deepSearchSummary.textContent = `Deep search: ${finished} of ${total} tiles searched, ${found} unique businesses found`;
+}
+
+/**
+ * Splits the search radius into a grid of tiles and queries each one, so the
+ * combined results are not limited to what fits in a single response.
+ */
+async function runDeepSearch(params: SearchParams): Promise<boolean> {
+    deepSearchController = new AbortController();
+    deepSearchTilesList.innerHTML = '';
+    deepSearchPanel.classList.remove('hidden');
+    deepSearchCancelButton.disabled = false;
+    deepSearchSummary.textContent = `Locating ${params.city}, ${params.state}…`;
+
+    let shown = 0;
+    let result: DeepSearchResult;
+    try {
+        result = await deepSearchBusinesses(provider, params, {
+            signal: deepSearchController.signal,
+            refresh: forceRefreshCheckbox.checked,
+            onCenter: center => { lastSearchCenter = center; },
+            onTiles: tiles => tiles.forEach(renderTileRow),
+            onTileStatus: setTileStatus,
+            onTileError: (_, error) => console.error('Deep Search Tile Error:', error),
+            onProgress: ({ finished, total, businesses }) => {
+                updateDeepSearchProgress(finished, total, businesses.length);
+                if (businesses.length === shown) return;
+                shown = businesses.length;
+                showSearchResults(businesses, describeSearch(params));
+            },
+        });
+    } finally {
+        deepSearchCancelButton.disabled = true;
+        deepSearchController = null;
+    }
+
+    const { businesses, tiles, failed, cancelled } = result;
+    showSearchResults(businesses, describeSearch(params));
+    if (cancelled) {
+        showStatus(`Deep search cancelled. Kept ${businesses.length} businesses from the finished tiles.`, 'success');
+    } else if (failed > 0) {
+        showStatus(`Deep search finished, but ${failed} of ${tiles} tiles failed.`, 'error');
+    } else {
+        showStatus(`Deep search finished: ${businesses.length} businesses across ${tiles} tiles.`, 'success');
     }
+    return !cancelled;
 }
 
-function highlightMarker(business: any, isHighlighted: boolean) {
-    if (!markersLayer) return;
-    const businessId = getBusinessId(business);
-    markersLayer.eachLayer((layer: any) => {
-        if (layer.businessId === businessId) {
-            if (isHighlighted) {
-                layer.openPopup();
-            } else {
-                layer.closePopup();
-            }
-        }
-    });
+function cancelDeepSearch() {
+    deepSearchController?.abort();
+    deepSearchCancelButton.disabled = true;
 }
 
-// --- Filtering ---
-function filterAndRenderResults() {
-    const searchTerm = searchInput.value.toLowerCase();
-    const instagramSearchTerm = instagramHandleInput.value.toLowerCase();
-    const hasInstagramOnly = followsFilterCheckbox.checked;
+// --- Batch Search ---
 
-    const filtered = currentBusinesses.filter(b => {
-        const fullText = JSON.stringify(b).toLowerCase();
-        const matchesSearch = searchTerm ? fullText.includes(searchTerm) : true;
-        const matchesInstagram = instagramSearchTerm ? (b.socialMedia?.instagram || '').toLowerCase().includes(instagramSearchTerm) : true;
-        const matchesHasInstagram = hasInstagramOnly ? !!b.socialMedia?.instagram : true;
-        return matchesSearch && matchesInstagram && matchesHasInstagram;
-    });
-    renderResults(filtered);
+const MAX_BATCH_CONCURRENCY = 6;
+const MAX_BATCH_RETRIES = 5;
+const BATCH_RETRY_DELAY_MS = 2000;
+
+let batchState: BatchState | null = loadSetting<BatchState | null>('batch', null);
+let batchController: AbortController | null = null;
+const batchJobControllers = new Map<string, AbortController>();
+
+const clampInput = (input: HTMLInputElement, min: number, max: number): number =>
+    Math.min(max, Math.max(min, Math.round(parseFloat(input.value)) || min));
+
+function updateBatchPreview() {
+    const types = parseBusinessTypes(batchTypesInput.value);
+    const { locations, problems } = parseLocations(batchLocationsInput.value);
+    const count = types.length * locations.length;
+    batchPreview.textContent = types.length || locations.length
+        ? `${types.length} type${types.length === 1 ? '' : 's'} × ${locations.length} location${locations.length === 1 ? '' : 's'} = ${count} search${count === 1 ? '' : 'es'}. ${problems.join(' ')}`
+        : '';
 }
 
-// --- Export/Save ---
+function saveBatchState() {
+    saveSetting('batch', batchState);
+}
 
-function exportToCsv() {
-    const csvContent = convertToCsv(currentBusinesses);
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", "scout-ai-leads.csv");
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    showStatus('CSV file downloaded.', 'success');
+function renderBatchJob(job: BatchJob): string {
+    const labels = {
+        queued: 'Queued',
+        running: job.attempts > 1 ? `Searching… (attempt ${job.attempts})` : 'Searching…',
+        retrying: `Attempt ${job.attempts} failed, retrying…`,
+        done: `${job.found} found`,
+        failed: `Failed after ${job.attempts} attempt${job.attempts === 1 ? '' : 's'}${job.error ? `: ${job.error}` : ''}`,
+        cancelled: 'Cancelled',
+    };
+    const running = batchController !== null;
+    const action = ['queued', 'running', 'retrying'].includes(job.status) && running
+        ? '<button type="button" data-action="cancel">Cancel</button>'
+        : ['failed', 'cancelled'].includes(job.status) && !running
+            ? '<button type="button" data-action="retry">Retry</button>'
+            : '';
+    return `<li class="batch-job tile-${job.status}" data-job="${escapeHTML(job.id)}"><span>${escapeHTML(jobLabel(job))} — ${escapeHTML(labels[job.status])}</span>${action}</li>`;
 }
 
-async function saveToSheets() {
-    if (currentBusinesses.length === 0) {
-        showStatus('No data to save.', 'error');
+function renderBatchPanel() {
+    if (!batchState) {
+        batchPanel.classList.add('hidden');
         return;
     }
-    setButtonLoadingState(saveToSheetsButton, true);
-    try {
-        const sheetResponse = await gapi.client.sheets.spreadsheets.create({
-            properties: { title: `Scout AI Leads - ${new Date().toLocaleString()}` }
-        });
-        const spreadsheetId = sheetResponse.result.spreadsheetId;
-        const csv = convertToCsv(currentBusinesses);
-        const data = csv.split('\n').map(row => row.split(','));
-
-        await gapi.client.sheets.spreadsheets.values.update({
-            spreadsheetId,
-            range: 'A1',
-            valueInputOption: 'USER_ENTERED',
-            resource: { values: data }
-        });
-        showStatus(`Successfully saved to <a href="${sheetResponse.result.spreadsheetUrl}" target="_blank">Google Sheet</a>.`, 'success');
-    } catch (error) {
-        console.error('Save to Sheets Error:', error);
-        showStatus('Failed to save to Google Sheets.', 'error');
-    } finally {
-        setButtonLoadingState(saveToSheetsButton, false);
+    const { jobs, resultIds } = batchState;
+    const finished = jobs.filter(job => ['done', 'failed', 'cancelled'].includes(job.status)).length;
+    const running = batchController !== null;
+    batchJobsList.innerHTML = jobs.map(renderBatchJob).join('');
+    batchProgress.max = jobs.length;
+    batchProgress.value = finished;
+    batchSummary.textContent = `Batch search: ${finished} of ${jobs.length} searches finished, ${resultIds.length} unique leads`;
+    batchResumeButton.disabled = running || unfinishedJobs(jobs).length === 0;
+    batchCancelButton.disabled = !running;
+    batchRunButton.disabled = running;
+    batchPanel.classList.remove('hidden');
+}
+
+function startBatch() {
+    const types = parseBusinessTypes(batchTypesInput.value);
+    const { locations, problems } = parseLocations(batchLocationsInput.value);
+    if (types.length === 0 || locations.length === 0) {
+        showStatus('Enter at least one business type and one location with its state.', 'error');
+        return;
     }
+    if (problems.length > 0) {
+        showStatus(`Please fix the locations first. ${escapeHTML(problems.join(' '))}`, 'error');
+        return;
+    }
+    const radiusMiles = parseFloat(batchRadiusInput.value);
+    if (!(radiusMiles > 0)) {
+        showStatus('Please enter the radius as a number of miles.', 'error');
+        return;
+    }
+    batchState = { jobs: expandBatch(types, locations), radiusMiles, resultIds: [] };
+    clearChanges();
+    lastSearchCenter = null;
+    currentSearch = null;
+    syncUrl(true);
+    runBatch(batchState.jobs);
 }
 
-async function saveToDrive() {
-    if (currentBusinesses.length === 0) {
-        showStatus('No data to save.', 'error');
+function resumeBatch() {
+    if (batchState) runBatch(unfinishedJobs(batchState.jobs));
+}
+
+/**
+ * Runs the given jobs of the current batch. Each job is a standard search
+ * retried with backoff on errors; its results are merged into the batch's
+ * combined list and tagged with the job's query as they arrive.
+ */
+async function runBatch(jobs: BatchJob[]) {
+    if (isOverBudget()) {
+        showStatus(budgetMessage(), 'error');
         return;
     }
-    setButtonLoadingState(saveToDriveButton, true);
-    const csvContent = convertToCsv(currentBusinesses);
-    const fileName = `scout-ai-leads-${new Date().toISOString()}.csv`;
-    const metadata = {
-        name: fileName,
-        mimeType: 'text/csv'
-    };
-    const boundary = '-------314159265358979323846';
-    const delimiter = `\r\n--${boundary}\r\n`;
-    const close_delim = `\r\n--${boundary}--`;
-
-    const multipartRequestBody =
-        delimiter +
-        'Content-Type: application/json; charset=UTF-8\r\n\r\n' +
-        JSON.stringify(metadata) +
-        delimiter +
-        'Content-Type: text/csv\r\n\r\n' +
-        csvContent +
-        close_delim;
+    const state = batchState!;
+    const concurrency = clampInput(batchConcurrencyInput, 1, MAX_BATCH_CONCURRENCY);
+    const retries = clampInput(batchRetriesInput, 0, MAX_BATCH_RETRIES);
+    const results = new Map(state.resultIds.filter(id => workspace.has(id)).map(id => [id, workspace.get(id)!]));
+    batchController = new AbortController();
+    jobs.forEach(job => Object.assign(job, { status: 'queued', attempts: 0, error: '' }));
+    setButtonLoadingState(batchRunButton, true);
+    duplicatesBanner.classList.add('hidden');
+    if (results.size === 0) resultsContainer.innerHTML = '<div class="loader"></div>';
+    renderBatchPanel();
+
+    await runQueue(jobs, async job => {
+        if (job.status === 'cancelled') return;
+        const controller = new AbortController();
+        batchJobControllers.set(job.id, controller);
+        try {
+            const businesses = await withRetry(async attempt => {
+                Object.assign(job, { status: 'running', attempts: attempt });
+                renderBatchPanel();
+                const { businesses } = await searchBusinesses(provider, jobParams(job, state.radiusMiles), { signal: controller.signal, refresh: forceRefreshCheckbox.checked });
+                return businesses;
+            }, {
+                retries,
+                baseDelayMs: BATCH_RETRY_DELAY_MS,
+                signal: controller.signal,
+                onRetry: () => {
+                    job.status = 'retrying';
+                    renderBatchPanel();
+                },
+            });
+            const leads = mergeSearchResults(businesses, workspace, jobLabel(job));
+            leads.forEach(lead => {
+                workspace.set(lead.id, lead);
+                results.set(lead.id, lead);
+            });
+            Object.assign(job, { status: 'done', found: leads.length });
+            state.resultIds = [...results.keys()];
+            showLatestLeads([...results.values()]);
+        } catch (error) {
+            if (controller.signal.aborted) {
+                job.status = 'cancelled';
+            } else {
+                console.error('Batch Search Error:', error);
+                Object.assign(job, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+            }
+        } finally {
+            batchJobControllers.delete(job.id);
+            saveBatchState();
+            renderBatchPanel();
+        }
+    }, { concurrency, signal: batchController.signal });
+
+    jobs.filter(job => job.status === 'queued').forEach(job => job.status = 'cancelled');
+    batchController = null;
+    saveBatchState();
+    setButtonLoadingState(batchRunButton, false);
+    renderBatchPanel();
+    if (results.size > 0) suggestDuplicates();
+    else showLatestLeads([]);
+    if (results.size > 0 && verificationSettings.autoVerify) verifyLeads([...results.values()]);
+
+    const failed = jobs.filter(job => job.status === 'failed').length;
+    const cancelled = jobs.filter(job => job.status === 'cancelled').length;
+    if (failed > 0 || cancelled > 0) {
+        showStatus(`Batch search stopped with ${results.size} leads: ${failed} search${failed === 1 ? '' : 'es'} failed and ${cancelled} ${cancelled === 1 ? 'was' : 'were'} cancelled. Use Resume to run them again.`, 'error');
+    } else {
+        showStatus(`Batch search finished: ${results.size} unique leads from ${state.jobs.length} searches.`, 'success');
+    }
+}
 
-    try {
-        const driveResponse = await gapi.client.request({
-            path: '/upload/drive/v3/files',
-            method: 'POST',
-            params: { uploadType: 'multipart' },
-            headers: {
-                'Content-Type': `multipart/related; boundary="${boundary}"`
-            },
-            body: multipartRequestBody
-        });
-        showStatus(`CSV saved to Google Drive as "${fileName}".`, 'success');
-    } catch (error) {
-        console.error('Save to Drive Error:', error);
-        showStatus('Failed to save CSV to Google Drive.', 'error');
-    } finally {
-        setButtonLoadingState(saveToDriveButton, false);
+function cancelBatch() {
+    batchController?.abort();
+    batchJobControllers.forEach(controller => controller.abort());
+}
+
+function handleBatchJobClick(e: Event) {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+    const job = batchState?.jobs.find(j => j.id === button?.closest<HTMLElement>('.batch-job')?.dataset.job);
+    if (!button || !job) return;
+    if (button.dataset.action === 'retry') {
+        runBatch([job]);
+    } else if (job.status === 'queued') {
+        job.status = 'cancelled';
+        renderBatchPanel();
+    } else {
+        batchJobControllers.get(job.id)?.abort();
     }
 }
 
+// Jobs that were running when the page closed can be resumed.
+function restoreBatch() {
+    if (!batchState) return;
+    batchState.jobs
+        .filter(job => ['queued', 'running', 'retrying'].includes(job.status))
+        .forEach(job => job.status = 'cancelled');
+    renderBatchPanel();
+}
 
-// --- Modal ---
-function showDetailsModal(business: any) {
-    modalBusinessName.textContent = business.name;
-    const socialLinks = business.socialMedia ? Object.entries(business.socialMedia).map(([platform, url]) => {
-        if (!url) return '';
-        return `<a href="${escapeHTML(url)}" target="_blank" rel="noopener noreferrer" class="social-link" aria-label="${platform}">${platform.charAt(0).toUpperCase() + platform.slice(1)}</a>`;
-    }).join('') : 'N/A';
+// --- Model Settings ---
 
-    modalBody.innerHTML = `
-        <p><strong>Address:</strong> ${escapeHTML(business.address)}</p>
-        ${business.rating ? `<p><strong>Rating:</strong> ${escapeHTML(business.rating)} / 5 ★</p>` : ''}
-        <p>${escapeHTML(business.summary)}</p>
-        <p><strong>Phone:</strong> ${escapeHTML(business.phone) || 'N/A'}</p>
-        <p><strong>Website:</strong> ${business.website ? `<a href="${escapeHTML(business.website)}" target="_blank" rel="noopener noreferrer">${escapeHTML(business.website)}</a>` : 'N/A'}</p>
-        <p><strong>Social Media:</strong> ${socialLinks}</p>
-    `;
-    detailsModal.classList.remove('hidden');
+function renderProviderSettings() {
+    providerSelect.innerHTML = PROVIDERS.map(info => `<option value="${info.id}">${escapeHTML(info.label)}</option>`).join('');
+    providerSelect.value = providerSettings.provider;
+    modelInput.value = providerSettings.model;
+    temperatureInput.value = String(providerSettings.temperature);
+    baseUrlInput.value = providerSettings.baseUrl;
+    providerApiKeyInput.value = providerSettings.apiKey;
+    updateProviderFields();
 }
 
-function hideDetailsModal() {
-    detailsModal.classList.add('hidden');
+function updateProviderFields() {
+    const info = PROVIDERS.find(p => p.id === providerSettings.provider)!;
+    modelSuggestions.innerHTML = info.suggestedModels.map(model => `<option value="${escapeHTML(model)}"></option>`).join('');
+    document.querySelectorAll<HTMLElement>('.openai-only').forEach(el => el.classList.toggle('hidden', info.id !== 'openai'));
+    modelInput.disabled = info.id === 'mock';
 }
 
-// --- Event Listeners ---
-aiSearchButton.addEventListener('click', handleAiSearch);
-exportCsvButton.addEventListener('click', exportToCsv);
-saveToSheetsButton.addEventListener('click', saveToSheets);
-saveToDriveButton.addEventListener('click', saveToDrive);
+function handleProviderSettingsChange(e: Event) {
+    const providerId = providerSelect.value as ProviderId;
+    if (e.target === providerSelect) {
+        modelInput.value = PROVIDERS.find(p => p.id === providerId)!.defaultModel;
+    }
+    const temperature = parseFloat(temperatureInput.value);
+    providerSettings = {
+        provider: providerId,
+        model: modelInput.value.trim() || PROVIDERS.find(p => p.id === providerId)!.defaultModel,
+        temperature: Number.isFinite(temperature) ? Math.min(2, Math.max(0, temperature)) : DEFAULT_PROVIDER_SETTINGS.temperature,
+        baseUrl: baseUrlInput.value.trim() || DEFAULT_PROVIDER_SETTINGS.baseUrl,
+        apiKey: providerApiKeyInput.value.trim(),
+    };
+    provider = buildProvider();
+    saveSetting('provider', providerSettings);
+    updateProviderFields();
+    renderUsage();
+}
 
-[searchInput, instagramHandleInput].forEach(input => input.addEventListener('input', filterAndRenderResults));
-followsFilterCheckbox.addEventListener('change', filterAndRenderResults);
+// --- Cache & Usage ---
 
-modalCloseButton.addEventListener('click', hideDetailsModal);
-detailsModal.addEventListener('click', (e) => {
-    if (e.target === detailsModal) {
-        hideDetailsModal();
-    }
-});
-document.addEventListener('keydown', (e) => {
-    if (e.key === 'Escape' && !detailsModal.classList.contains('hidden')) {
-        hideDetailsModal();
-    }
-});
+/** The configured provider, answering repeat searches from the cache and reporting usage. */
+function buildProvider(): LlmProvider {
+    const metered = createMeteredProvider(createProvider(providerSettings, API_KEY), { onUsage: handleUsage, guard: guardBudget });
+    return createCachedProvider(metered, responseStore, { ttlMs: () => cacheSettings.ttlHours * HOUR_MS });
+}
 
-googleClientIdInput.addEventListener('input', () => {
-    const button = document.getElementById('authorize-button') as HTMLButtonElement;
-    if (button) {
-        button.disabled = !googleClientIdInput.value.trim();
+const formatUsd = (amount: number): string => `$${amount < 1 ? amount.toFixed(4) : amount.toFixed(2)}`;
+const formatTokens = (totals: UsageTotals): string => `${(totals.inputTokens + totals.outputTokens).toLocaleString()} tokens`;
+
+const isOverBudget = (): boolean =>
+    usageSettings.dailyBudgetUsd > 0 && dayTotals(usageLedger, Date.now()).costUsd >= usageSettings.dailyBudgetUsd;
+
+const budgetMessage = (): string =>
+    `Today's estimated spend has reached the ${formatUsd(usageSettings.dailyBudgetUsd)} daily budget. Searches are paused until tomorrow, or raise the budget under API Usage.`;
+
+// Searches are the requests that carry a cache key; enrichment and drafts are not blocked.
+function guardBudget(request: GenerateJsonRequest) {
+    if (request.cacheKey && isOverBudget()) throw new Error(budgetMessage());
+}
+
+function handleUsage(event: UsageEvent) {
+    usageLedger = recordUsage(usageLedger, event);
+    sessionUsage = addTotals(sessionUsage, event);
+    saveSetting('usage-ledger', usageLedger);
+    renderUsage();
+}
+
+function renderUsage() {
+    const now = Date.now();
+    const today = dayTotals(usageLedger, now);
+    const budget = usageSettings.dailyBudgetUsd;
+    const cell = (label: string, totals: UsageTotals, note = '', className = '') => `
+        <div>
+            <dt>${label}</dt>
+            <dd class="${className}">${formatUsd(totals.costUsd)}<small>${formatTokens(totals)}, ${totals.requests} request${totals.requests === 1 ? '' : 's'}${note}</small></dd>
+        </div>`;
+    usageSummary.innerHTML = [
+        cell('This session', sessionUsage),
+        cell('Today', today, budget > 0 ? ` of ${formatUsd(budget)} budget` : '', isOverBudget() ? 'over-budget' : ''),
+        cell('This month', monthTotals(usageLedger, now)),
+    ].join('');
+    const unpriced = !hasKnownPrice(provider.model) ? `<li class="usage-entry">No list price is known for ${escapeHTML(provider.model)}, so its requests count as free.</li>` : '';
+    usageRecentList.innerHTML = unpriced + usageLedger.recent.slice(0, 10).map(entry => `
+        <li class="usage-entry" title="${escapeHTML(`${entry.model}, ${new Date(entry.startedAt).toLocaleString()}`)}">
+            <span>${escapeHTML(entry.label)}</span>
+            <span>${formatTokens(entry)} · ${formatUsd(entry.costUsd)}</span>
+        </li>`).join('');
+    dailyBudgetInput.value = String(budget);
+    cacheTtlInput.value = String(cacheSettings.ttlHours);
+}
+
+function handleUsageSettingsChange() {
+    const budget = parseFloat(dailyBudgetInput.value);
+    const ttlHours = parseFloat(cacheTtlInput.value);
+    usageSettings = { dailyBudgetUsd: budget > 0 ? budget : 0 };
+    cacheSettings = { ttlHours: ttlHours >= 0 ? ttlHours : DEFAULT_CACHE_TTL_HOURS };
+    saveSetting('usage', usageSettings);
+    saveSetting('cache', cacheSettings);
+    renderUsage();
+}
+
+async function clearCache() {
+    try {
+        await clearResponseCache();
+        showStatus('Cleared cached answers. The next searches will ask the model again.', 'success');
+    } catch (error) {
+        console.error('Response Cache Error:', error);
+        showStatus('Could not clear the cache.', 'error');
     }
-});
+}
 
+/** A note for results that came from the cache, or '' for fresh ones. */
+function describeCachedAt(cachedAt?: number): string {
+    if (!cachedAt) return '';
+    const minutes = Math.round((Date.now() - cachedAt) / 60000);
+    const age = minutes < 60 ? `${minutes} min` : `${Math.round(minutes / 60)} h`;
+    return `Showing a cached answer from ${age} ago. Tick Force refresh to ask the model again.`;
+}
 
-// --- App Initialization ---
-function init() {
-    // Load Google authentication scripts dynamically to prevent race conditions
-    const gapiScript = document.createElement('script');
-    gapiScript.src = 'https://apis.google.com/js/api.js';
-    gapiScript.async = true;
-    gapiScript.onload = () => gapi.load('client', initializeGapiClient);
-    document.body.appendChild(gapiScript);
+// --- Lead Scoring ---
 
-    const gisScript = document.createElement('script');
-    gisScript.src = 'https://accounts.google.com/gsi/client';
-    gisScript.async = true;
+const getActiveProfile = (): ScoringProfile =>
+    scoringProfiles.find(p => p.id === activeProfileId) ?? scoringProfiles[0] ?? DEFAULT_SCORING_PROFILE;
+
+// Distances are measured from the drawn area or the last searched center,
+// falling back to the middle of the leads on screen.
+function getScoringCenter(): LatLng | null {
+    if (activeBoundary) return boundaryCenter(activeBoundary);
+    if (lastSearchCenter) return lastSearchCenter;
+    const located = currentBusinesses
+        .filter(b => b.lat !== null && b.lng !== null)
+        .map(b => ({ lat: b.lat!, lng: b.lng! }));
+    return medianCenter(located);
+}
+
+function computeScores() {
+    const { rules } = getActiveProfile();
+    const context = { center: getScoringCenter() };
+    currentScores = new Map(currentBusinesses.map(b => [b.id, scoreBusiness(b, rules, context)]));
+}
+
+function getScore(business: Business): ScoreResult {
+    return currentScores.get(business.id) ?? scoreBusiness(business, getActiveProfile().rules, { center: getScoringCenter() });
+}
+
+function saveScoringProfiles() {
+    saveSetting('scoring-profiles', scoringProfiles);
+    saveSetting('active-scoring-profile', activeProfileId);
+}
+
+function showScoringModal() {
+    renderScoringProfiles();
+    renderScoringRules();
+    scoringModal.classList.remove('hidden');
+}
+
+function hideScoringModal() {
+    scoringModal.classList.add('hidden');
+}
+
+function renderScoringProfiles() {
+    scoringProfileSelect.innerHTML = scoringProfiles.map(profile =>
+        `<option value="${escapeHTML(profile.id)}">${escapeHTML(profile.name)}</option>`).join('');
+    scoringProfileSelect.value = getActiveProfile().id;
+    scoringDeleteButton.disabled = scoringProfiles.length <= 1;
+}
+
+function renderRuleParams(rule: ScoringRule): string {
+    const whenSelect = (when: string) => `
+        <select data-field="when">
+            <option value="present" ${when === 'present' ? 'selected' : ''}>present</option>
+            <option value="missing" ${when === 'missing' ? 'selected' : ''}>missing</option>
+        </select>`;
+    switch (rule.kind) {
+        case 'website':
+        case 'phone':
+            return whenSelect(rule.when);
+        case 'rating':
+            return `<input type="number" data-field="min" value="${rule.min}" min="0" max="5" step="0.1" aria-label="Minimum rating"> to
+                <input type="number" data-field="max" value="${rule.max}" min="0" max="5" step="0.1" aria-label="Maximum rating">`;
+        case 'social':
+            return `<input type="text" data-field="platform" value="${escapeHTML(rule.platform)}" aria-label="Platform"> ${whenSelect(rule.when)}`;
+        case 'distance':
+            return `within <input type="number" data-field="maxMiles" value="${rule.maxMiles}" min="0" step="0.5" aria-label="Miles"> mi`;
+        case 'keyword':
+            return `<input type="text" data-field="keywords" value="${escapeHTML(rule.keywords.join(', '))}" placeholder="comma separated" aria-label="Keywords">`;
+    }
+}
+
+function renderScoringRules() {
+    const profile = getActiveProfile();
+    scoringRulesList.innerHTML = profile.rules.map(rule => `
+        <div class="scoring-rule" data-rule="${escapeHTML(rule.id)}">
+            <input type="checkbox" data-field="enabled" ${rule.enabled ? 'checked' : ''} aria-label="Enabled">
+            <span class="rule-kind">${escapeHTML(describeRule(rule))}</span>
+            ${renderRuleParams(rule)}
+            <input type="number" data-field="points" value="${rule.points}" step="1" aria-label="Points"> pts
+            <button type="button" class="remove-rule-button" aria-label="Remove rule">&times;</button>
+        </div>
+    `).join('') || '<p>No rules yet. Add one below.</p>';
+}
+
+function handleRuleInput(e: Event) {
+    const input = e.target as HTMLInputElement | HTMLSelectElement;
+    const row = input.closest<HTMLElement>('.scoring-rule');
+    const field = input.dataset.field;
+    const rule = getActiveProfile().rules.find(r => r.id === row?.dataset.rule);
+    if (!rule || !field) return;
+    const value = parseFloat(input.value);
+    if (input.type === 'number' && !Number.isFinite(value)) return;
+
+    switch (field) {
+        case 'enabled':
+            rule.enabled = (input as HTMLInputElement).checked;
+            break;
+        case 'points':
+            rule.points = value;
+            break;
+        case 'when':
+            if ('when' in rule) rule.when = input.value === 'missing' ? 'missing' : 'present';
+            break;
+        case 'min':
+        case 'max':
+            if (rule.kind === 'rating') rule[field] = value;
+            break;
+        case 'maxMiles':
+            if (rule.kind === 'distance') rule.maxMiles = value;
+            break;
+        case 'platform':
+            if (rule.kind === 'social') rule.platform = input.value.trim().toLowerCase();
+            break;
+        case 'keywords':
+            if (rule.kind === 'keyword') rule.keywords = input.value.split(',').map(k => k.trim()).filter(Boolean);
+            break;
+    }
+    (row!.querySelector('.rule-kind') as HTMLElement).textContent = describeRule(rule);
+    saveScoringProfiles();
+    filterAndRenderResults();
+}
+
+function handleRuleClick(e: Event) {
+    const button = (e.target as HTMLElement).closest('.remove-rule-button');
+    if (!button) return;
+    const ruleId = button.closest<HTMLElement>('.scoring-rule')!.dataset.rule;
+    const profile = getActiveProfile();
+    profile.rules = profile.rules.filter(rule => rule.id !== ruleId);
+    saveScoringProfiles();
+    renderScoringRules();
+    filterAndRenderResults();
+}
+
+function addScoringRule() {
+    getActiveProfile().rules.push(createRule(addRuleSelect.value as RuleKind, `rule_${Date.now()}`));
+    saveScoringProfiles();
+    renderScoringRules();
+    filterAndRenderResults();
+}
+
+function selectScoringProfile() {
+    activeProfileId = scoringProfileSelect.value;
+    saveScoringProfiles();
+    renderScoringRules();
+    filterAndRenderResults();
+}
+
+function saveScoringProfileAs() {
+    const name = scoringProfileNameInput.value.trim();
+    if (!name) {
+        showStatus('Please enter a name for the new profile.', 'error');
+        return;
+    }
+    const profile: ScoringProfile = {
+        id: `profile_${Date.now()}`,
+        name,
+        rules: structuredClone(getActiveProfile().rules),
+    };
+    scoringProfiles.push(profile);
+    activeProfileId = profile.id;
+    scoringProfileNameInput.value = '';
+    saveScoringProfiles();
+    renderScoringProfiles();
+    renderScoringRules();
+}
+
+function deleteScoringProfile() {
+    if (scoringProfiles.length <= 1) return;
+    scoringProfiles = scoringProfiles.filter(p => p.id !== getActiveProfile().id);
+    activeProfileId = scoringProfiles[0].id;
+    saveScoringProfiles();
+    renderScoringProfiles();
+    renderScoringRules();
+    filterAndRenderResults();
+}
+
+// --- Search Area ---
+
+function showMap() {
+    initMap();
+    mapContainer.classList.remove('hidden');
+    map!.invalidateSize();
+}
+
+function beginDrawing(kind: SearchBoundary['kind']) {
+    cancelDrawing?.();
+    stopMapSelection();
+    showMap();
+    drawButtons.forEach(button => button.classList.toggle('active', button.dataset.kind === kind));
+    showStatus(kind === 'polygon'
+        ? 'Click to add points. Double-click or click the first point to finish.'
+        : 'Click and drag on the map to draw the area.', 'success');
+    cancelDrawing = startDrawing(map!, kind, (boundary) => {
+        cancelDrawing = null;
+        drawButtons.forEach(button => button.classList.remove('active'));
+        setSearchBoundary(boundary);
+    });
+}
+
+function setSearchBoundary(boundary: SearchBoundary | null) {
+    activeBoundary = boundary;
+    if (boundaryLayer && map) map.removeLayer(boundaryLayer);
+    boundaryLayer = null;
+    clearAreaButton.disabled = !boundary;
+    searchRadiusInput.disabled = !!boundary;
+
+    if (!boundary) {
+        areaSummary.classList.add('hidden');
+        if (currentBusinesses.length > 0) filterAndRenderResults();
+        return;
+    }
+    showMap();
+    boundaryLayer = createBoundaryLayer(boundary).addTo(map!);
+    map!.fitBounds(boundaryLayer.getBounds().pad(0.1));
+    areaSummary.textContent = `Searching inside the drawn ${boundary.kind} (about ${boundaryRadiusMiles(boundary).toFixed(1)} mi across from its center). City and state are optional.`;
+    areaSummary.classList.remove('hidden');
+    if (currentBusinesses.length > 0) filterAndRenderResults();
+}
+
+function stopDrawing() {
+    cancelDrawing?.();
+    cancelDrawing = null;
+    drawButtons.forEach(button => button.classList.remove('active'));
+}
+
+function clearSearchBoundary() {
+    stopDrawing();
+    territorySelect.value = '';
+    setSearchBoundary(null);
+}
+
+function renderTerritoryOptions() {
+    const withAreas = searchHistory.filter(record => record.params.boundary);
+    territorySelect.innerHTML = '<option value="">Reuse a past area…</option>' + withAreas.map(record =>
+        `<option value="${escapeHTML(record.id)}">${escapeHTML(record.label)} (${new Date(record.ranAt).toLocaleDateString()})</option>`
+    ).join('');
+    territorySelect.classList.toggle('hidden', withAreas.length === 0);
+}
+
+function applyTerritory() {
+    const record = searchHistory.find(r => r.id === territorySelect.value);
+    if (record?.params.boundary) setSearchBoundary(record.params.boundary);
+}
+
+async function recordSearch(params: SearchParams) {
+    const record: SearchRecord = {
+        id: `search_${Date.now()}`,
+        label: describeSearch(params),
+        params,
+        ranAt: Date.now(),
+        resultIds: lastSearchResults.map(lead => lead.id),
+    };
+    searchHistory.unshift(record);
+    renderTerritoryOptions();
+    try {
+        await saveSearchRecord(record);
+    } catch (error) {
+        console.error('Search History Save Error:', error);
+    }
+}
+
+// --- URL State ---
+
+// Panning fires many moveend events; only the viewport the user settles on is written.
+const VIEWPORT_SYNC_DELAY_MS = 500;
+
+function getUrlState(): UrlState {
+    const center = map && !mapContainer.classList.contains('hidden') ? map.getCenter() : null;
+    return {
+        search: currentSearch,
+        view: viewSelect.value === 'workspace' ? 'workspace' : 'search',
+        query: searchInput.value.trim(),
+        stage: stageFilterSelect.value,
+        insideArea: outsideAreaCheckbox.checked,
+        sort: sortSelect.value,
+        descending: sortDescending,
+        viewport: center ? { lat: center.lat, lng: center.lng, zoom: map!.getZoom() } : null,
+        lead: detailsLeadId,
+    };
+}
+
+/** Writes the app state to the address bar; `push` starts a new history entry instead. */
+function syncUrl(push = false) {
+    if (isRestoringUrl) return;
+    const query = toQueryString(getUrlState());
+    const url = `${location.pathname}${query ? `?${query}` : ''}`;
+    if (url === `${location.pathname}${location.search}`) return;
+    if (push) history.pushState(null, '', url);
+    else history.replaceState(null, '', url);
+}
+
+function scheduleViewportSync() {
+    clearTimeout(viewportSyncTimer);
+    viewportSyncTimer = window.setTimeout(() => syncUrl(), VIEWPORT_SYNC_DELAY_MS);
+}
+
+/** Reopens the app as a link or history entry describes it. */
+async function applyUrlState(state: UrlState) {
+    isRestoringUrl = true;
+    try {
+        searchInput.value = state.query;
+        stageFilterSelect.value = state.stage;
+        outsideAreaCheckbox.checked = state.insideArea;
+        sortSelect.value = state.sort;
+        sortDescending = state.descending;
+        renderSortDirection();
+        if (state.search && !isSameSearch(state.search, currentSearch)) {
+            restoreSearch(state.search);
+        }
+        viewSelect.value = state.view;
+        showCurrentView();
+        if (state.viewport && map && !mapContainer.classList.contains('hidden')) {
+            map.setView([state.viewport.lat, state.viewport.lng], state.viewport.zoom);
+        }
+        const lead = state.lead ? workspace.get(state.lead) : undefined;
+        if (lead) showDetailsModal(lead);
+        else hideDetailsModal();
+    } finally {
+        isRestoringUrl = false;
+    }
+    syncUrl();
+}
+
+/**
+ * Shows a search's results from history when it ran in this browser before.
+ * Otherwise, e.g. when the link came from a colleague, the form is filled in
+ * and the user is offered to run it, since running it costs a model call.
+ */
+function restoreSearch(params: SearchParams) {
+    businessTypeInput.value = params.businessType;
+    cityInput.value = params.city;
+    stateInput.value = params.state;
+    if (!params.boundary) searchRadiusInput.value = String(params.radiusMiles);
+    setSearchBoundary(params.boundary ?? null);
+
+    const record = searchHistory.find(r => isSameSearch(r.params, params));
+    const leads = (record?.resultIds ?? []).map(id => workspace.get(id)).filter((lead): lead is Lead => !!lead);
+    if (leads.length === 0) {
+        runSearchBannerText.textContent = `${describeSearch(params)} has not run in this browser yet. Running it uses the AI model.`;
+        runSearchBanner.classList.remove('hidden');
+        return;
+    }
+    runSearchBanner.classList.add('hidden');
+    currentSearch = params;
+    lastSearchCenter = params.boundary ? boundaryCenter(params.boundary) : null;
+    lastSearchResults = leads;
+}
+
+// --- Saved Searches ---
+
+const CHANGE_COLORS: Record<ChangeKind, string> = { new: '#16a34a', changed: '#d97706', gone: '#6b7280' };
+
+const saveSavedSearches = () => saveSetting('saved-searches', savedSearches);
+
+function saveCurrentSearch() {
+    if (!currentSearch || lastSearchResults.length === 0) {
+        showStatus('Run a search first, then save it.', 'error');
+        return;
+    }
+    const search: SavedSearch = {
+        id: `saved_${Date.now()}`,
+        name: savedSearchNameInput.value.trim() || describeSearch(currentSearch),
+        params: currentSearch,
+        deep: deepSearchCheckbox.checked,
+        filters: { query: searchInput.value, stage: stageFilterSelect.value, insideArea: outsideAreaCheckbox.checked },
+        createdAt: Date.now(),
+        lastRunAt: Date.now(),
+        lastCounts: null,
+    };
+    savedSearches.unshift(search);
+    saveSavedSearches();
+    savedSearchNameInput.value = '';
+    renderSavedSearches();
+    // The results on screen become the first run that later runs are compared with.
+    saveSnapshot(takeSnapshot(search.id, lastSearchResults), MAX_SNAPSHOTS)
+        .then(() => showStatus(`Saved "${escapeHTML(search.name)}". Run it again later to see what changed.`, 'success'))
+        .catch(error => {
+            console.error('Snapshot Save Error:', error);
+            showStatus('Saved the search, but could not keep its results for comparison.', 'error');
+        });
+}
+
+function renderSavedSearches() {
+    savedSearchesList.innerHTML = savedSearches.map(search => {
+        const counts = search.lastCounts
+            ? ` · ${search.lastCounts.new} new, ${search.lastCounts.gone} gone, ${search.lastCounts.changed} changed`
+            : '';
+        return `
+            <li class="saved-search" data-id="${escapeHTML(search.id)}">
+                <span><strong>${escapeHTML(search.name)}</strong> — last run ${new Date(search.lastRunAt).toLocaleDateString()}${counts}</span>
+                <button type="button" data-action="run">Run</button>
+                <button type="button" data-action="delete">Delete</button>
+            </li>`;
+    }).join('') || '<li>No saved searches yet.</li>';
+}
+
+async function handleSavedSearchClick(e: Event) {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+    const search = savedSearches.find(s => s.id === button?.closest<HTMLElement>('.saved-search')?.dataset.id);
+    if (!button || !search) return;
+    if (button.dataset.action === 'run') {
+        runSavedSearch(search);
+        return;
+    }
+    savedSearches = savedSearches.filter(s => s.id !== search.id);
+    saveSavedSearches();
+    renderSavedSearches();
+    try {
+        await deleteSnapshots(search.id);
+    } catch (error) {
+        console.error('Snapshot Delete Error:', error);
+    }
+}
+
+/**
+ * Runs a saved search with its filters, bypassing the response cache, and
+ * compares the results with the previous run's snapshot.
+ */
+async function runSavedSearch(search: SavedSearch) {
+    businessTypeInput.value = search.params.businessType;
+    cityInput.value = search.params.city;
+    stateInput.value = search.params.state;
+    if (!search.params.boundary) searchRadiusInput.value = String(search.params.radiusMiles);
+    setSearchBoundary(search.params.boundary ?? null);
+    deepSearchCheckbox.checked = search.deep;
+    forceRefreshCheckbox.checked = true;
+    searchInput.value = search.filters.query;
+    stageFilterSelect.value = search.filters.stage;
+    outsideAreaCheckbox.checked = search.filters.insideArea;
+
+    if (!(await handleAiSearch())) return;
+    const snapshot = takeSnapshot(search.id, lastSearchResults);
+    let previous: Snapshot | undefined;
+    try {
+        previous = (await loadSnapshots(search.id))[0];
+        await saveSnapshot(snapshot, MAX_SNAPSHOTS);
+    } catch (error) {
+        console.error('Snapshot Save Error:', error);
+        showStatus('Could not keep this run for comparison.', 'error');
+        return;
+    }
+    const diff = previous ? diffSnapshots(previous, snapshot) : null;
+    Object.assign(search, { lastRunAt: snapshot.ranAt, lastCounts: diff?.counts ?? null });
+    saveSavedSearches();
+    renderSavedSearches();
+    if (diff) {
+        showChanges(search, diff);
+    } else {
+        showStatus('No earlier run to compare with; the next run will be compared with this one.', 'success');
+    }
+}
+
+function showChanges(search: SavedSearch, diff: SnapshotDiff) {
+    activeChanges = { search, diff };
+    leadChanges.clear();
+    diff.changes.forEach(change => leadChanges.set(change.id, change));
+    const { counts } = diff;
+    changesSummary.textContent = `${search.name}: ${counts.new} new, ${counts.gone} no longer found, ${counts.changed} changed since ${new Date(diff.fromRanAt).toLocaleDateString()}`;
+    changesList.innerHTML = diff.changes.map(change => `
+        <li class="change-row" data-id="${escapeHTML(change.id)}">
+            <span class="change-badge change-${change.kind}">${CHANGE_LABELS[change.kind]}</span>
+            <strong>${escapeHTML(change.entry.name)}</strong>
+            <span>${escapeHTML(describeChange(change))}</span>
+        </li>`).join('') || '<li>Nothing changed.</li>';
+    changesExportButton.disabled = diff.changes.length === 0;
+    changesPanel.classList.remove('hidden');
+    renderMapControls();
+    filterAndRenderResults();
+}
+
+function clearChanges() {
+    if (!activeChanges) return;
+    activeChanges = null;
+    leadChanges.clear();
+    changesPanel.classList.add('hidden');
+    renderMapControls();
+    if (currentBusinesses.length > 0) filterAndRenderResults();
+}
+
+function handleChangeRowClick(e: Event) {
+    const id = (e.target as HTMLElement).closest<HTMLElement>('.change-row')?.dataset.id;
+    if (!id) return;
+    const lead = workspace.get(id);
+    if (visibleBusinesses.some(b => b.id === id)) focusCard(id);
+    else if (lead) showDetailsModal(lead);
+}
+
+function exportChangeReport() {
+    if (!activeChanges) return;
+    const { search, diff } = activeChanges;
+    const date = new Date(diff.toRanAt).toISOString().slice(0, 10);
+    downloadFile(toChangeReportCsv(diff, search.name), 'text/csv', `scout-ai-changes-${date}.csv`);
+}
+
+function renderChangeBadge(lead: Lead): string {
+    const change = leadChanges.get(lead.id);
+    if (!change) return '';
+    return `<span class="change-badge change-${change.kind}" title="${escapeHTML(describeChange(change))}">${CHANGE_LABELS[change.kind]}</span>`;
+}
+
+/** Hollow markers where businesses from the previous run were not found again. */
+function createGoneMarkers(): L.Layer[] {
+    return (activeChanges?.diff.changes ?? [])
+        .filter(change => change.kind === 'gone' && change.entry.lat !== null && change.entry.lng !== null)
+        .map(({ entry }) => L.circleMarker([entry.lat!, entry.lng!], {
+            radius: 7,
+            color: CHANGE_COLORS.gone,
+            weight: 2,
+            dashArray: '3 3',
+            fillOpacity: 0,
+        }).bindPopup(`<b>${escapeHTML(entry.name)}</b><br>Not found in the latest run`));
+}
+
+// --- Workspace ---
+
+async function persistLeads(leads: Lead[]): Promise<boolean> {
+    try {
+        await saveLeads(leads);
+        return true;
+    } catch (error) {
+        console.error('Workspace Save Error:', error);
+        showStatus('Could not save leads to your workspace. They will be lost on reload.', 'error');
+        return false;
+    }
+}
+
+function showCurrentView() {
+    currentBusinesses = viewSelect.value === 'workspace'
+        ? [...workspace.values()].sort((a, b) => b.lastTouched - a.lastTouched)
+        : lastSearchResults;
+    if (currentBusinesses.length > 0) {
+        initMap();
+    }
+    filterAndRenderResults();
+}
+
+async function restoreWorkspace() {
+    try {
+        const leads = await loadLeads();
+        leads.forEach(lead => workspace.set(lead.id, lead));
+    } catch (error) {
+        console.error('Workspace Load Error:', error);
+        showStatus('Could not load your saved leads.', 'error');
+        return;
+    }
+    try {
+        searchHistory = await loadSearchRecords();
+    } catch (error) {
+        console.error('Search History Load Error:', error);
+    }
+    renderTerritoryOptions();
+    if (workspace.size > 0 && lastSearchResults.length === 0) {
+        viewSelect.value = 'workspace';
+        showCurrentView();
+    }
+}
+
+// --- Deduplication ---
+
+const areDistinct = (a: Lead, b: Lead): boolean => a.distinctFrom.includes(b.id) || b.distinctFrom.includes(a.id);
+
+function suggestDuplicates() {
+    pendingDuplicates = findDuplicateGroups(lastSearchResults, [...workspace.values()], areDistinct);
+    if (pendingDuplicates.length === 0) {
+        duplicatesBanner.classList.add('hidden');
+        return;
+    }
+    const count = pendingDuplicates.length;
+    duplicatesBannerText.textContent = `Found ${count} possible duplicate${count === 1 ? '' : 's'} across your searches.`;
+    duplicatesBanner.classList.remove('hidden');
+}
+
+// Existing leads first, oldest first, so the merge keeps the longest-lived id.
+const orderForMerge = (members: Lead[]): Lead[] => [...members].sort((a, b) => a.createdAt - b.createdAt);
+
+function renderMergePreview(members: Lead[]): string {
+    if (members.length < 2) return '<p>These records will be kept as separate leads.</p>';
+    const merged = mergeLeads(orderForMerge(members));
+    const row = (label: string, value: string, field: string) => value
+        ? `<p><strong>${label}:</strong> ${escapeHTML(value)} ${merged.sources[field] ? `<small>(${escapeHTML(merged.sources[field])})</small>` : ''}</p>`
+        : '';
+    return `
+        ${row('Name', merged.name, 'name')}
+        ${row('Address', merged.address, 'address')}
+        ${row('Phone', merged.phone, 'phone')}
+        ${row('Website', merged.website, 'website')}
+        ${merged.rating !== null ? row('Rating', String(merged.rating), 'rating') : ''}
+    `;
+}
+
+function showDedupeModal() {
+    dedupeGroupsContainer.innerHTML = '';
+    pendingDuplicates.forEach((group, groupIndex) => {
+        const groupEl = document.createElement('div');
+        groupEl.className = 'duplicate-group';
+        groupEl.innerHTML = `
+            <p class="match-reasons">${escapeHTML(group.reasons.join(' · '))}</p>
+            ${group.members.map((member, i) => `
+                <label class="duplicate-member">
+                    <input type="checkbox" data-group="${groupIndex}" data-member="${i}" checked>
+                    <span>
+                        <strong>${escapeHTML(member.name)}</strong>
+                        <small>${escapeHTML(member.address)}${member.phone ? ` · ${escapeHTML(member.phone)}` : ''}</small>
+                        <small>${workspace.has(member.id) && !lastSearchResults.includes(member) ? `Saved lead (${member.stage})` : 'Latest search'}${Object.values(member.sources).length ? ` · from ${escapeHTML([...new Set(Object.values(member.sources))].join(', '))}` : ''}</small>
+                    </span>
+                </label>
+            `).join('')}
+            <div class="merge-preview">${renderMergePreview(group.members)}</div>
+        `;
+        groupEl.addEventListener('change', () => {
+            const preview = groupEl.querySelector('.merge-preview') as HTMLDivElement;
+            preview.innerHTML = renderMergePreview(checkedMembers(groupEl, group));
+        });
+        dedupeGroupsContainer.appendChild(groupEl);
+    });
+    dedupeModal.classList.remove('hidden');
+}
+
+function checkedMembers(groupEl: HTMLElement, group: DuplicateGroup<Lead>): Lead[] {
+    return [...groupEl.querySelectorAll<HTMLInputElement>('input[type="checkbox"]')]
+        .filter(input => input.checked)
+        .map(input => group.members[Number(input.dataset.member)]);
+}
+
+function hideDedupeModal() {
+    dedupeModal.classList.add('hidden');
+}
+
+async function applyDuplicateReview() {
+    const toSave: Lead[] = [];
+    const removedIds: string[] = [];
+    const replacements = new Map<string, Lead>();
+
+    [...dedupeGroupsContainer.querySelectorAll<HTMLElement>('.duplicate-group')].forEach((groupEl, i) => {
+        const group = pendingDuplicates[i];
+        const checked = checkedMembers(groupEl, group);
+        const unchecked = group.members.filter(m => !checked.includes(m));
+
+        let survivors = group.members;
+        if (checked.length >= 2) {
+            const ordered = orderForMerge(checked);
+            const merged = mergeLeads(ordered);
+            ordered.forEach(member => replacements.set(member.id, merged));
+            removedIds.push(...ordered.slice(1).map(m => m.id));
+            survivors = [merged, ...unchecked];
+        }
+        // Anything left unmerged in a group was split off by the user.
+        survivors.forEach(lead => {
+            const others = survivors.filter(other => other !== lead).map(other => other.id);
+            lead.distinctFrom = [...new Set([...lead.distinctFrom, ...others])];
+            toSave.push(lead);
+        });
+    });
+
+    removedIds.forEach(id => workspace.delete(id));
+    toSave.forEach(lead => workspace.set(lead.id, lead));
+    lastSearchResults = [...new Set(lastSearchResults.map(lead => replacements.get(lead.id) ?? lead))];
+
+    pendingDuplicates = [];
+    duplicatesBanner.classList.add('hidden');
+    hideDedupeModal();
+    showCurrentView();
+
+    setButtonLoadingState(dedupeApplyButton, true);
+    try {
+        await saveLeads(toSave);
+        await deleteLeads(removedIds);
+        showStatus(removedIds.length > 0 ? `Merged ${removedIds.length} duplicate record${removedIds.length === 1 ? '' : 's'}.` : 'Kept all records separate.', 'success');
+    } catch (error) {
+        console.error('Workspace Save Error:', error);
+        showStatus('Could not save merged leads to your workspace.', 'error');
+    } finally {
+        setButtonLoadingState(dedupeApplyButton, false);
+    }
+}
+
+// --- Import ---
+
+const IMPORT_CONCURRENCY = 2;
+
+async function handleImportFile() {
+    const file = importFileInput.files?.[0];
+    importFileInput.value = '';
+    if (!file) return;
+    try {
+        const text = await file.text();
+        importTable = /\.csv$/i.test(file.name) || file.type === 'text/csv' ? csvToTable(text) : jsonToTable(text);
+    } catch (error) {
+        console.error('Import Parse Error:', error);
+        showStatus(`Could not read ${escapeHTML(file.name)}. Check that it is a valid CSV or JSON file.`, 'error');
+        return;
+    }
+    if (importTable.rows.length === 0) {
+        showStatus(`${escapeHTML(file.name)} has no rows to import.`, 'error');
+        return;
+    }
+    importFileName = file.name;
+    showImportMapping();
+}
+
+function setImportStep(step: 'mapping' | 'summary' | 'diff') {
+    importMapping.classList.toggle('hidden', step !== 'mapping');
+    importConfirmButton.classList.toggle('hidden', step !== 'mapping');
+    importProblems.classList.toggle('hidden', step !== 'summary');
+    importEnrichButton.classList.toggle('hidden', step !== 'summary');
+    importDiff.classList.toggle('hidden', step !== 'diff');
+    importApplyButton.classList.toggle('hidden', step !== 'diff');
+}
+
+function showImportMapping() {
+    const table = importTable!;
+    const mapping = guessMapping(table.headers);
+    const options = (selected: string) => ['<option value="">Don\'t import</option>',
+        ...IMPORT_FIELDS.map(field => `<option value="${field.id}" ${field.id === selected ? 'selected' : ''}>${escapeHTML(field.label)}</option>`)].join('');
+    importTitle.textContent = `Import ${importFileName}`;
+    importDescription.textContent = `${table.rows.length} row${table.rows.length === 1 ? '' : 's'} found. Match each column to a lead field; unmatched columns are left out.`;
+    importMapping.innerHTML = `
+        <table class="import-mapping-table">
+            <thead><tr><th>Column</th><th>Example</th><th>Field</th></tr></thead>
+            <tbody>
+                ${table.headers.map((header, column) => `
+                    <tr>
+                        <td>${escapeHTML(header)}</td>
+                        <td class="import-example">${escapeHTML(table.rows.find(row => row[column]?.trim())?.[column] ?? '')}</td>
+                        <td><select data-column="${column}" aria-label="Field for ${escapeHTML(header)}">${options(mapping[column])}</select></td>
+                    </tr>
+                `).join('')}
+            </tbody>
+        </table>
+    `;
+    setImportStep('mapping');
+    importModal.classList.remove('hidden');
+}
+
+function hideImportModal() {
+    importModal.classList.add('hidden');
+}
+
+function confirmImport() {
+    const table = importTable!;
+    const mapping = table.headers.map((_, column) =>
+        (importMapping.querySelector(`select[data-column="${column}"]`) as HTMLSelectElement).value);
+    if (!mapping.includes('name')) {
+        showStatus('Choose which column holds the business name.', 'error');
+        return;
+    }
+    const { records, problems } = buildImportRecords(table, mapping, `Import: ${importFileName}`);
+    if (records.length === 0) {
+        importProblems.innerHTML = problems.map(problem => `<li>${escapeHTML(problem)}</li>`).join('');
+        setImportStep('summary');
+        importEnrichButton.classList.add('hidden');
+        importDescription.textContent = 'No rows could be imported.';
+        return;
+    }
+
+    const leads = mergeSearchResults(records.map(record => record.business), workspace);
+    const byKey = new Map(leads.flatMap(lead => [lead.id, ...lead.aliases].map(key => [key, lead] as const)));
+    records.forEach(record => {
+        const lead = byKey.get(record.business.id);
+        if (lead) applyImportedMeta(lead, record.meta, !workspace.has(lead.id));
+    });
+    initMap();
+    currentSearch = null;
+    syncUrl(true);
+    showLatestLeads(leads);
+    suggestDuplicates();
+    importedLeads = leads;
+
+    const incomplete = leads.filter(lead => missingFields(lead).length > 0).length;
+    importDescription.textContent = `Imported ${leads.length} lead${leads.length === 1 ? '' : 's'}. ${incomplete > 0
+        ? `${incomplete} ${incomplete === 1 ? 'is' : 'are'} missing a phone, website, summary, location or social links; the AI can look these up and show you the changes before anything is saved.`
+        : 'Every lead has all of its core fields.'}`;
+    importProblems.innerHTML = problems.map(problem => `<li>${escapeHTML(problem)}</li>`).join('');
+    setImportStep('summary');
+    importEnrichButton.classList.toggle('hidden', incomplete === 0);
+}
+
+async function enrichImportedLeads() {
+    const targets = importedLeads.filter(lead => missingFields(lead).length > 0);
+    const batches: Lead[][] = [];
+    for (let i = 0; i < targets.length; i += ENRICHMENT_BATCH_SIZE) batches.push(targets.slice(i, i + ENRICHMENT_BATCH_SIZE));
+
+    enrichmentProposals = [];
+    setButtonLoadingState(importEnrichButton, true);
+    try {
+        await runQueue(batches, async batch => {
+            const { data } = await provider.generateJson({
+                prompt: buildFillMissingPrompt(batch),
+                schema: FILL_MISSING_SCHEMA,
+                schemaName: 'fill_missing',
+                label: 'Fill missing fields',
+            });
+            (Array.isArray(data) ? data as (FillMissingAnswer | null)[] : []).forEach(answer => {
+                const lead = batch[Number(answer?.ref) - 1];
+                const proposal = lead && proposeFill(lead, answer);
+                if (proposal) enrichmentProposals.push(proposal);
+            });
+        }, { concurrency: IMPORT_CONCURRENCY });
+    } catch (error) {
+        console.error('Enrichment Error:', error);
+        showStatus('Some leads could not be enriched. Showing the changes that were found.', 'error');
+    } finally {
+        setButtonLoadingState(importEnrichButton, false);
+    }
+
+    if (enrichmentProposals.length === 0) {
+        importDescription.textContent = 'The AI could not find any of the missing details.';
+        importEnrichButton.classList.add('hidden');
+        return;
+    }
+    renderEnrichmentDiff();
+}
+
+function renderEnrichmentDiff() {
+    const count = enrichmentProposals.reduce((sum, proposal) => sum + proposal.changes.length, 0);
+    importDescription.textContent = `The AI proposed ${count} change${count === 1 ? '' : 's'} to ${enrichmentProposals.length} lead${enrichmentProposals.length === 1 ? '' : 's'}. Untick anything that looks wrong, then apply.`;
+    importDiff.innerHTML = enrichmentProposals.map((proposal, index) => `
+        <div class="duplicate-group">
+            <h4>${escapeHTML(proposal.name)}</h4>
+            ${proposal.changes.map(change => `
+                <label class="enrichment-change">
+                    <input type="checkbox" data-proposal="${index}" data-key="${escapeHTML(change.key)}" checked>
+                    <strong>${escapeHTML(change.label)}</strong>
+                    <span class="diff-before">${escapeHTML(change.before) || '(empty)'}</span>
+                    <span aria-hidden="true">→</span>
+                    <span class="diff-after">${escapeHTML(change.after)}</span>
+                </label>
+            `).join('')}
+        </div>
+    `).join('');
+    setImportStep('diff');
+}
+
+async function applyEnrichment() {
+    const changed: Lead[] = [];
+    enrichmentProposals.forEach((proposal, index) => {
+        const lead = workspace.get(proposal.id);
+        const accepted = new Set([...importDiff.querySelectorAll<HTMLInputElement>(`input[data-proposal="${index}"]:checked`)].map(input => input.dataset.key!));
+        if (!lead || accepted.size === 0) return;
+        applyProposal(lead, proposal, accepted);
+        changed.push(lead);
+    });
+    hideImportModal();
+    if (changed.length === 0) return;
+    filterAndRenderResults();
+    if (await persistLeads(changed)) {
+        showStatus(`Filled in missing details for ${changed.length} lead${changed.length === 1 ? '' : 's'}.`, 'success');
+    }
+}
+
+// --- Enrichment ---
+
+const ENRICH_CONCURRENCY = 2;
+// Spaces out batch requests so a large selection stays under provider rate limits.
+const ENRICH_INTERVAL_MS = 1000;
+
+async function requestDeepEnrichment(lead: Lead) {
+    const { data } = await provider.generateJson({
+        prompt: buildDeepEnrichmentPrompt(lead),
+        schema: DEEP_ENRICHMENT_SCHEMA,
+        schemaName: 'deep_enrichment',
+        label: `Enrich ${lead.name}`,
+    });
+    applyDeepEnrichment(lead, parseDeepEnrichment(data));
+}
+
+async function enrichLead(lead: Lead, button: HTMLButtonElement) {
+    setButtonLoadingState(button, true);
+    try {
+        await requestDeepEnrichment(lead);
+        filterAndRenderResults();
+        if (!detailsModal.classList.contains('hidden')) showDetailsModal(lead);
+        if (await persistLeads([lead])) {
+            showStatus(`Enriched ${escapeHTML(lead.name)}.`, 'success');
+        }
+    } catch (error) {
+        console.error('Enrichment Error:', error);
+        showStatus(`Could not enrich ${escapeHTML(lead.name)}.`, 'error');
+    } finally {
+        setButtonLoadingState(button, false);
+    }
+}
+
+async function enrichSelectedLeads() {
+    const leads = currentBusinesses.filter(b => selectedIds.has(b.id));
+    if (leads.length === 0) {
+        showStatus('Tick the leads to enrich first.', 'error');
+        return;
+    }
+    setButtonLoadingState(enrichSelectedButton, true);
+    const failed = new Set<Lead>();
+    let finished = 0;
+    showStatus(`Enriching 0 of ${leads.length} leads…`, 'success', 0);
+    await runQueue(leads, async lead => {
+        try {
+            await requestDeepEnrichment(lead);
+        } catch (error) {
+            console.error('Enrichment Error:', error);
+            failed.add(lead);
+        }
+        finished++;
+        showStatus(`Enriching ${finished} of ${leads.length} leads…`, 'success', 0);
+    }, { concurrency: ENRICH_CONCURRENCY, intervalMs: ENRICH_INTERVAL_MS });
+    setButtonLoadingState(enrichSelectedButton, false);
+
+    const enriched = leads.filter(lead => !failed.has(lead));
+    filterAndRenderResults();
+    if (enriched.length > 0 && !(await persistLeads(enriched))) return;
+    if (failed.size > 0) {
+        showStatus(`Enriched ${enriched.length} of ${leads.length} leads; ${failed.size} could not be enriched.`, 'error');
+    } else {
+        showStatus(`Enriched ${enriched.length} lead${enriched.length === 1 ? '' : 's'}.`, 'success');
+    }
+}
+
+// --- Verification ---
+
+function renderVerificationSettings() {
+    geocoderUrlInput.value = verificationSettings.geocoderUrl;
+    maxOffsetInput.value = String(verificationSettings.maxOffsetKm);
+    checkReachabilityCheckbox.checked = verificationSettings.checkReachability;
+    autoVerifyCheckbox.checked = verificationSettings.autoVerify;
+}
+
+function handleVerificationSettingsChange() {
+    const maxOffsetKm = parseFloat(maxOffsetInput.value);
+    verificationSettings = {
+        geocoderUrl: geocoderUrlInput.value.trim() || DEFAULT_VERIFICATION_SETTINGS.geocoderUrl,
+        maxOffsetKm: maxOffsetKm > 0 ? maxOffsetKm : DEFAULT_VERIFICATION_SETTINGS.maxOffsetKm,
+        checkReachability: checkReachabilityCheckbox.checked,
+        autoVerify: autoVerifyCheckbox.checked,
+    };
+    saveSetting('verification', verificationSettings);
+    renderVerificationSettings();
+}
+
+// Swaps in a freshly rendered card so badges update without re-rendering the list.
+function refreshCard(lead: Lead) {
+    resultsContainer.querySelector(`.business-card[data-id="${CSS.escape(lead.id)}"]`)?.replaceWith(createBusinessCard(lead));
+}
+
+/**
+ * Checks the leads one at a time, paced for the geocoder. Starting a new
+ * run stops the one in progress; leads it already checked keep their results.
+ */
+async function verifyLeads(leads: Lead[]) {
+    verifyController?.abort();
+    if (leads.length === 0) return;
+    const controller = new AbortController();
+    verifyController = controller;
+    const searchedState = currentSearch?.state;
+    const checked: Lead[] = [];
+    let suspicious = 0;
+    setButtonLoadingState(verifyButton, true);
+    verificationProgress.textContent = `Verifying 0 of ${leads.length} leads…`;
+    try {
+        await runQueue(leads, async lead => {
+            const verification = await verifyBusiness(lead, { settings: verificationSettings, searchedState, signal: controller.signal });
+            lead.verification = { ...lead.verification, ...verification };
+            if (Object.values(verification).some(check => check.status === 'suspicious')) suspicious++;
+            checked.push(lead);
+            verificationProgress.textContent = `Verifying ${checked.length} of ${leads.length} leads…`;
+            refreshCard(lead);
+            refreshDetailsVerification(lead);
+        }, { concurrency: 1, intervalMs: GEOCODE_INTERVAL_MS, signal: controller.signal });
+    } catch (error) {
+        if (!controller.signal.aborted) {
+            console.error('Verification Error:', error);
+            showStatus('Verification stopped because of an error.', 'error');
+        }
+    }
+    if (checked.length > 0) await persistLeads(checked);
+    if (verifyController !== controller) return;
+    verifyController = null;
+    setButtonLoadingState(verifyButton, false);
+    verificationProgress.textContent = `Verified ${checked.length} of ${leads.length} leads: ${suspicious} with suspicious details.`;
+}
+
+function verifyResults() {
+    const selected = getSelectedLeads();
+    verifyLeads(selected.length > 0 ? selected : visibleBusinesses);
+}
+
+function renderVerifyBadges(lead: Lead): string {
+    const badges = VERIFIED_FIELDS.map(({ key, label }) => {
+        const check = fieldStatus(lead, key);
+        if (!check) return '';
+        const icon = { verified: '✓', suspicious: '!', unverified: '?' }[check.status];
+        return `<span class="verify-badge verify-${check.status}" title="${escapeHTML(`${label} ${check.status}: ${check.note}`)}">${icon} ${label}</span>`;
+    }).join('');
+    return badges ? `<div class="verify-badges">${badges}</div>` : '';
+}
+
+function renderVerificationDetails(lead: Lead): string {
+    const rows = VERIFIED_FIELDS.map(({ key, label }) => {
+        const check = fieldStatus(lead, key);
+        if (!check) return '';
+        return `<li><span class="verify-badge verify-${check.status}">${check.status}</span> <strong>${label}:</strong> ${escapeHTML(check.note)}</li>`;
+    }).join('');
+    return rows ? `<ul class="verification-list">${rows}</ul>` : '';
+}
+
+// Updates only the verification list of an open details modal, so edits in its form survive.
+function refreshDetailsVerification(lead: Lead) {
+    if (detailsLeadId !== lead.id) return;
+    const details = modalBody.querySelector('.verification-details');
+    if (details) details.innerHTML = renderVerificationDetails(lead);
+}
+
+// --- Outreach ---
+
+// Browsers drop some of a burst of downloads, so .eml files are saved one at a time.
+const EML_DOWNLOAD_GAP_MS = 300;
+
+const getActiveOutreachTemplate = (): OutreachTemplate =>
+    outreachTemplates.find(t => t.id === activeOutreachTemplateId) ?? outreachTemplates[0] ?? DEFAULT_OUTREACH_TEMPLATE;
+
+const getSelectedLeads = (): Lead[] => currentBusinesses.filter(b => selectedIds.has(b.id));
+
+function saveOutreachTemplates() {
+    saveSetting('outreach-templates', outreachTemplates);
+    saveSetting('active-outreach-template', activeOutreachTemplateId);
+}
+
+async function requestOutreachDraft(lead: Lead, channel: OutreachChannel) {
+    const { data } = await provider.generateJson({
+        prompt: buildOutreachPrompt(lead, getActiveOutreachTemplate(), channel),
+        schema: OUTREACH_SCHEMA,
+        schemaName: 'outreach_draft',
+        label: `Draft for ${lead.name}`,
+    });
+    const draft = parseOutreachDraft(data, channel);
+    if (!draft) throw new Error('The model returned an empty draft.');
+    lead.outreach = { ...lead.outreach, [channel]: draft };
+}
+
+function renderChannelOptions(selected: OutreachChannel): string {
+    return OUTREACH_CHANNELS.map(({ id, label }) =>
+        `<option value="${id}" ${id === selected ? 'selected' : ''}>${label}</option>`).join('');
+}
+
+function renderOutreachDraft(lead: Lead, container: HTMLElement, channel: OutreachChannel) {
+    const draft = lead.outreach[channel];
+    if (!draft) {
+        const label = OUTREACH_CHANNELS.find(c => c.id === channel)!.label;
+        container.innerHTML = `<p class="control-group-description">No ${escapeHTML(label.toLowerCase())} drafted yet. Drafts use the "${escapeHTML(getActiveOutreachTemplate().name)}" template.</p>`;
+        return;
+    }
+    container.innerHTML = `
+        ${channel === 'email' ? `
+            <div class="input-wrapper">
+                <label for="outreach-subject-input">Subject</label>
+                <input type="text" id="outreach-subject-input" value="${escapeHTML(draft.subject)}">
+            </div>` : ''}
+        <div class="input-wrapper">
+            <label for="outreach-body-input">Message</label>
+            <textarea id="outreach-body-input">${escapeHTML(draft.body)}</textarea>
+        </div>
+        <p class="last-touched">${draft.edited ? 'Edited' : 'Drafted'} ${new Date(draft.generatedAt).toLocaleString()}</p>
+        <button type="button" id="outreach-save-button" class="secondary-button"><span class="button-text">SAVE DRAFT</span></button>
+    `;
+    (container.querySelector('#outreach-save-button') as HTMLButtonElement).addEventListener('click', async () => {
+        const subject = container.querySelector<HTMLInputElement>('#outreach-subject-input')?.value.trim() ?? '';
+        const body = (container.querySelector('#outreach-body-input') as HTMLTextAreaElement).value.trim();
+        lead.outreach = { ...lead.outreach, [channel]: { ...draft, subject, body, edited: true } };
+        if (await persistLeads([lead])) {
+            showStatus(`Saved the draft for ${escapeHTML(lead.name)}.`, 'success');
+        }
+    });
+}
+
+async function draftOutreach(lead: Lead, channel: OutreachChannel, button: HTMLButtonElement, container: HTMLElement) {
+    setButtonLoadingState(button, true);
+    try {
+        await requestOutreachDraft(lead, channel);
+        renderOutreachDraft(lead, container, channel);
+        await persistLeads([lead]);
+    } catch (error) {
+        console.error('Outreach Error:', error);
+        showStatus(`Could not draft a message for ${escapeHTML(lead.name)}.`, 'error');
+    } finally {
+        setButtonLoadingState(button, false);
+    }
+}
+
+function showOutreachModal() {
+    renderOutreachTemplates();
+    outreachChannelSelect.innerHTML = renderChannelOptions(loadSetting('outreach-channel', 'email'));
+    outreachVariablesHint.textContent = `Guidance can use ${TEMPLATE_VARIABLES.map(v => `{{${v}}}`).join(', ')}.`;
+    updateOutreachSelectionNote();
+    outreachModal.classList.remove('hidden');
+}
+
+function hideOutreachModal() {
+    outreachModal.classList.add('hidden');
+}
+
+function renderOutreachTemplates() {
+    const template = getActiveOutreachTemplate();
+    outreachTemplateSelect.innerHTML = outreachTemplates.map(t =>
+        `<option value="${escapeHTML(t.id)}">${escapeHTML(t.name)}</option>`).join('');
+    outreachTemplateSelect.value = template.id;
+    outreachDeleteButton.disabled = outreachTemplates.length <= 1;
+    outreachTemplateForm.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>('[data-field]').forEach(input => {
+        input.value = template[input.dataset.field as keyof OutreachTemplate];
+    });
+}
+
+function updateOutreachSelectionNote() {
+    const channel = outreachChannelSelect.value as OutreachChannel;
+    const leads = getSelectedLeads();
+    const drafted = leads.filter(lead => lead.outreach[channel]).length;
+    outreachSelectionNote.textContent = leads.length === 0
+        ? 'Tick leads in the results list to draft messages for them.'
+        : `${leads.length} lead${leads.length === 1 ? '' : 's'} selected; ${drafted} already have a draft for this channel, which drafting again replaces.`;
+    outreachEmlButton.disabled = channel !== 'email';
+}
+
+function handleOutreachTemplateInput(e: Event) {
+    const input = e.target as HTMLInputElement | HTMLTextAreaElement;
+    const field = input.dataset.field as Exclude<keyof OutreachTemplate, 'id' | 'name'>;
+    if (!field) return;
+    getActiveOutreachTemplate()[field] = input.value.trim();
+    saveOutreachTemplates();
+}
+
+function selectOutreachTemplate() {
+    activeOutreachTemplateId = outreachTemplateSelect.value;
+    saveOutreachTemplates();
+    renderOutreachTemplates();
+}
+
+function saveOutreachTemplateAs() {
+    const name = outreachTemplateNameInput.value.trim();
+    if (!name) {
+        showStatus('Please enter a name for the new template.', 'error');
+        return;
+    }
+    const template: OutreachTemplate = { ...getActiveOutreachTemplate(), id: `template_${Date.now()}`, name };
+    outreachTemplates.push(template);
+    activeOutreachTemplateId = template.id;
+    outreachTemplateNameInput.value = '';
+    saveOutreachTemplates();
+    renderOutreachTemplates();
+}
+
+function deleteOutreachTemplate() {
+    if (outreachTemplates.length <= 1) return;
+    outreachTemplates = outreachTemplates.filter(t => t.id !== getActiveOutreachTemplate().id);
+    activeOutreachTemplateId = outreachTemplates[0].id;
+    saveOutreachTemplates();
+    renderOutreachTemplates();
+}
+
+async function draftSelectedOutreach() {
+    const channel = outreachChannelSelect.value as OutreachChannel;
+    const leads = getSelectedLeads();
+    if (leads.length === 0) {
+        showStatus('Tick the leads to draft messages for first.', 'error');
+        return;
+    }
+    setButtonLoadingState(outreachDraftButton, true);
+    const failed = new Set<Lead>();
+    let finished = 0;
+    showStatus(`Drafting 0 of ${leads.length} messages…`, 'success', 0);
+    await runQueue(leads, async lead => {
+        try {
+            await requestOutreachDraft(lead, channel);
+        } catch (error) {
+            console.error('Outreach Error:', error);
+            failed.add(lead);
+        }
+        finished++;
+        showStatus(`Drafting ${finished} of ${leads.length} messages…`, 'success', 0);
+    }, { concurrency: ENRICH_CONCURRENCY, intervalMs: ENRICH_INTERVAL_MS });
+    setButtonLoadingState(outreachDraftButton, false);
+
+    const drafted = leads.filter(lead => !failed.has(lead));
+    updateOutreachSelectionNote();
+    if (drafted.length > 0 && !(await persistLeads(drafted))) return;
+    if (failed.size > 0) {
+        showStatus(`Drafted ${drafted.length} of ${leads.length} messages; ${failed.size} failed.`, 'error');
+    } else {
+        showStatus(`Drafted ${drafted.length} message${drafted.length === 1 ? '' : 's'}.`, 'success');
+    }
+}
+
+function getDraftedLeads(channel: OutreachChannel): Lead[] | null {
+    const leads = getSelectedLeads().filter(lead => lead.outreach[channel]);
+    if (leads.length === 0) {
+        showStatus('None of the selected leads have a draft for this channel yet.', 'error');
+        return null;
+    }
+    return leads;
+}
+
+function exportMailMerge() {
+    const channel = outreachChannelSelect.value as OutreachChannel;
+    const leads = getDraftedLeads(channel);
+    if (!leads) return;
+    downloadFile(`\uFEFF${toMailMergeCsv(leads, channel)}`, 'text/csv;charset=utf-8', `scout-ai-outreach-${channel}.csv`);
+    showStatus(`Exported ${leads.length} draft${leads.length === 1 ? '' : 's'} for mail merge.`, 'success');
+}
+
+async function exportEmlFiles() {
+    const leads = getDraftedLeads('email');
+    if (!leads) return;
+    setButtonLoadingState(outreachEmlButton, true);
+    for (const lead of leads) {
+        downloadFile(toEml(lead, lead.outreach.email!), 'message/rfc822', emlFileName(lead));
+        await new Promise(resolve => setTimeout(resolve, EML_DOWNLOAD_GAP_MS));
+    }
+    setButtonLoadingState(outreachEmlButton, false);
+    showStatus(`Saved ${leads.length} .eml file${leads.length === 1 ? '' : 's'}.`, 'success');
+}
+
+// --- Route Planner ---
+
+const ROUTE_LOCATION_TIMEOUT_MS = 10000;
+
+const formatMiles = (km: number): string => `${(km / KM_PER_MILE).toFixed(1)} mi`;
+
+function getRouteStops(): RouteStop[] {
+    return getSelectedLeads()
+        .filter(lead => lead.lat !== null && lead.lng !== null)
+        .map(lead => ({ id: lead.id, name: lead.name, address: lead.address, lat: lead.lat!, lng: lead.lng! }));
+}
+
+function getCurrentLocation(): Promise<LatLng> {
+    return new Promise((resolve, reject) => {
+        if (!navigator.geolocation) {
+            reject(new Error('This browser cannot share its location.'));
+            return;
+        }
+        navigator.geolocation.getCurrentPosition(
+            position => resolve({ lat: position.coords.latitude, lng: position.coords.longitude }),
+            error => reject(new Error(error.message || 'Location access was denied.')),
+            { timeout: ROUTE_LOCATION_TIMEOUT_MS },
+        );
+    });
+}
+
+async function planSelectedRoute() {
+    const stops = getRouteStops();
+    if (stops.length === 0) {
+        showStatus('Select leads with map coordinates to plan a route.', 'error');
+        return;
+    }
+    stopRouteStartPick();
+    if (routeSettings.start === 'map') {
+        showMap();
+        showStatus('Click the map where the route should start.', 'success');
+        mapContainer.classList.add('drawing');
+        const onClick = (e: L.LeafletMouseEvent) => {
+            stopRouteStartPick();
+            showRoute(planRoute({ lat: e.latlng.lat, lng: e.latlng.lng }, stops, routeSettings.returnToStart));
+        };
+        map!.once('click', onClick);
+        cancelRouteStartPick = () => {
+            map?.off('click', onClick);
+            mapContainer.classList.remove('drawing');
+        };
+        return;
+    }
+
+    setButtonLoadingState(planRouteButton, true);
+    try {
+        const start = routeSettings.start === 'location' ? await getCurrentLocation() : getScoringCenter();
+        if (!start) throw new Error('There is no search center yet. Run a search or start from a point on the map.');
+        showRoute(planRoute(start, stops, routeSettings.returnToStart));
+    } catch (error) {
+        console.error('Route Planning Error:', error);
+        showStatus(`Could not plan the route: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    } finally {
+        setButtonLoadingState(planRouteButton, false);
+    }
+}
+
+function stopRouteStartPick() {
+    cancelRouteStartPick?.();
+    cancelRouteStartPick = null;
+}
+
+function showRoute(plan: RoutePlan) {
+    routePlan = plan;
+    drawRoute();
+    renderRoutePanel();
+    showStatus(`Planned ${plan.stops.length} stop${plan.stops.length === 1 ? '' : 's'}, about ${formatMiles(plan.totalKm)} in straight lines.`, 'success');
+}
+
+function drawRoute() {
+    if (routeLayer && map) map.removeLayer(routeLayer);
+    routeLayer = null;
+    if (!routePlan) return;
+    showMap();
+    const line = L.polyline(routePath(routePlan).map(p => [p.lat, p.lng] as [number, number]), {
+        color: '#F25A5A',
+        weight: 4,
+        opacity: 0.8,
+    });
+    const start = L.marker([routePlan.start.lat, routePlan.start.lng], {
+        title: 'Start',
+        icon: L.divIcon({ className: 'route-stop route-start', html: 'S', iconSize: [26, 26] }),
+    });
+    const stops = routePlan.stops.map((stop, i) => L.marker([stop.lat, stop.lng], {
+        title: `${i + 1}. ${stop.name}`,
+        icon: L.divIcon({ className: 'route-stop', html: String(i + 1), iconSize: [24, 24] }),
+    }).on('click', () => focusCard(stop.id)));
+    routeLayer = L.layerGroup([line, start, ...stops]).addTo(map!);
+    map!.fitBounds(line.getBounds().pad(0.1));
+}
+
+function renderRoutePanel() {
+    routeStartSelect.value = routeSettings.start;
+    routeReturnCheckbox.checked = routeSettings.returnToStart;
+    routePanel.classList.toggle('hidden', !routePlan);
+    if (!routePlan) return;
+
+    const { stops, legsKm, totalKm, returnToStart } = routePlan;
+    routeSummary.textContent = `Route: ${stops.length} stop${stops.length === 1 ? '' : 's'}, about ${formatMiles(totalKm)} in straight lines`;
+    routeStopsList.innerHTML = [
+        ...stops.map((stop, i) => `
+            <li class="route-leg" data-id="${escapeHTML(stop.id)}">
+                <strong>${i + 1}.</strong><span>${escapeHTML(stop.name)}</span><span class="route-leg-distance">+${formatMiles(legsKm[i])}</span>
+            </li>`),
+        ...(returnToStart ? [`
+            <li class="route-leg">
+                <strong>↩</strong><span>Back to start</span><span class="route-leg-distance">+${formatMiles(legsKm[stops.length])}</span>
+            </li>`] : []),
+    ].join('');
+    const urls = directionsUrls(routePlan);
+    routeDirections.innerHTML = urls.map((url, i) =>
+        `<a href="${escapeHTML(url)}" target="_blank" rel="noopener noreferrer">${urls.length > 1 ? `Directions, part ${i + 1} of ${urls.length}` : 'Open directions in Google Maps'}</a>`
+    ).join('');
+}
+
+function updateRouteSettings(changes: Partial<RouteSettings>) {
+    routeSettings = { ...routeSettings, ...changes };
+    saveSetting('route', routeSettings);
+    if (!routePlan) return;
+    // A new start needs picking again; the same start can simply be re-planned.
+    if ('start' in changes) planSelectedRoute();
+    else showRoute(planRoute(routePlan.start, routePlan.stops, routeSettings.returnToStart));
+}
+
+function handleRouteStopClick(e: Event) {
+    const item = (e.target as HTMLElement).closest<HTMLElement>('.route-leg[data-id]');
+    if (item) focusCard(item.dataset.id!);
+}
+
+function exportRouteGpx() {
+    if (!routePlan) return;
+    const name = `Scout AI route, ${new Date().toLocaleDateString()}`;
+    downloadFile(toGpx(routePlan, name), 'application/gpx+xml', 'scout-ai-route.gpx');
+}
+
+function clearRoute() {
+    stopRouteStartPick();
+    routePlan = null;
+    drawRoute();
+    renderRoutePanel();
+}
+
+// --- Bulk Actions & Triage ---
+
+/** Brings the card checkboxes, markers and bulk bar in line with `selectedIds`. */
+function syncSelection() {
+    resultsContainer.querySelectorAll<HTMLElement>('.business-card').forEach(card => {
+        (card.querySelector('.select-checkbox') as HTMLInputElement).checked = selectedIds.has(card.dataset.id!);
+    });
+    drawMarkers();
+    renderBulkBar();
+}
+
+function renderBulkBar() {
+    const count = getSelectedLeads().length;
+    bulkCount.textContent = count === 0 ? 'None selected' : `${count} selected`;
+    [bulkTagInput, bulkTagButton, bulkStageSelect, bulkExportButton, bulkDeleteButton].forEach(control => control.disabled = count === 0);
+    // Follows the main Sheets button, which is only enabled once signed in.
+    bulkSheetsButton.disabled = count === 0 || saveToSheetsButton.disabled;
+    selectNoneButton.disabled = selectedIds.size === 0;
+}
+
+function selectAllShown() {
+    visibleBusinesses.forEach(lead => selectedIds.add(lead.id));
+    syncSelection();
+}
+
+function selectNone() {
+    selectedIds.clear();
+    syncSelection();
+}
+
+/** Applies a change to every selected lead and saves them; resolves to how many were saved. */
+async function updateSelectedLeads(change: (lead: Lead) => void): Promise<number> {
+    const leads = getSelectedLeads();
+    if (leads.length === 0) return 0;
+    leads.forEach(lead => {
+        change(lead);
+        lead.lastTouched = Date.now();
+    });
+    filterAndRenderResults();
+    return await persistLeads(leads) ? leads.length : 0;
+}
+
+async function tagSelectedLeads() {
+    const tags = parseTags(bulkTagInput.value);
+    if (tags.length === 0) {
+        showStatus('Type the tags to add first, separated by commas.', 'error');
+        return;
+    }
+    bulkTagInput.value = '';
+    const count = await updateSelectedLeads(lead => {
+        lead.tags = [...new Set([...lead.tags, ...tags])];
+    });
+    if (count > 0) showStatus(`Tagged ${count} lead${count === 1 ? '' : 's'} with ${escapeHTML(tags.map(tag => `#${tag}`).join(' '))}.`, 'success');
+}
+
+async function setSelectedStage() {
+    const stage = bulkStageSelect.value as PipelineStage;
+    bulkStageSelect.value = '';
+    if (!stage) return;
+    const count = await updateSelectedLeads(lead => {
+        lead.stage = stage;
+    });
+    if (count > 0) showStatus(`Moved ${count} lead${count === 1 ? '' : 's'} to ${stage}.`, 'success');
+}
+
+async function deleteSelectedLeads() {
+    const leads = getSelectedLeads();
+    if (leads.length === 0) return;
+    if (!confirm(`Delete ${leads.length} lead${leads.length === 1 ? '' : 's'} from your workspace? This cannot be undone.`)) return;
+    const ids = new Set(leads.map(lead => lead.id));
+    ids.forEach(id => {
+        workspace.delete(id);
+        selectedIds.delete(id);
+    });
+    lastSearchResults = lastSearchResults.filter(lead => !ids.has(lead.id));
+    showCurrentView();
+    try {
+        await deleteLeads([...ids]);
+        showStatus(`Deleted ${ids.size} lead${ids.size === 1 ? '' : 's'}.`, 'success');
+    } catch (error) {
+        console.error('Workspace Delete Error:', error);
+        showStatus('Could not delete the leads from your workspace. They will come back on reload.', 'error');
+    }
+}
+
+function exportSelectedLeads() {
+    exportSettings.scope = 'selected';
+    showExportModal();
+}
+
+const getTriageLead = (): Lead | undefined => triageIndex === null ? undefined : visibleBusinesses[triageIndex];
+
+const findCard = (id: string) => resultsContainer.querySelector<HTMLElement>(`.business-card[data-id="${CSS.escape(id)}"]`);
+
+function startTriage() {
+    if (visibleBusinesses.length === 0) return;
+    // The toggle keeps focus otherwise, and Enter would press it again.
+    triageButton.blur();
+    triageIndex = 0;
+    triageBar.classList.remove('hidden');
+    moveTriage(0);
+}
+
+function stopTriage() {
+    triageIndex = null;
+    triageBar.classList.add('hidden');
+    resultsContainer.querySelector('.triage-current')?.classList.remove('triage-current');
+}
+
+/** Marks the current card. Runs after every render, since the cards are rebuilt. */
+function renderTriage() {
+    if (triageIndex === null) return;
+    if (visibleBusinesses.length === 0) {
+        stopTriage();
+        return;
+    }
+    // A stage change can drop the lead from a filtered view; the next one moves up.
+    triageIndex = Math.min(triageIndex, visibleBusinesses.length - 1);
+    const lead = visibleBusinesses[triageIndex];
+    resultsContainer.querySelector('.triage-current')?.classList.remove('triage-current');
+    findCard(lead.id)?.classList.add('triage-current');
+    const stageKeys = PIPELINE_STAGES.map((stage, i) => `<kbd>${i + 1}</kbd> ${stage}`).join(' ');
+    triageSummary.innerHTML = `
+        <strong>${triageIndex + 1} of ${visibleBusinesses.length}:</strong> ${escapeHTML(lead.name)}
+        <span class="triage-keys"><kbd>j</kbd>/<kbd>k</kbd> next/previous · ${stageKeys} · <kbd>o</kbd> website or phone · <kbd>x</kbd> select · <kbd>Enter</kbd> details · <kbd>Esc</kbd> exit</span>`;
+}
+
+function moveTriage(step: number) {
+    if (triageIndex === null) return;
+    const previous = getTriageLead();
+    if (previous) highlightMarker(previous, false);
+    triageIndex = Math.max(0, Math.min(visibleBusinesses.length - 1, triageIndex + step));
+    renderTriage();
+    const lead = getTriageLead();
+    if (!lead) return;
+    findCard(lead.id)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    if (map && lead.lat !== null && lead.lng !== null) {
+        map.panTo([lead.lat, lead.lng]);
+        highlightMarker(lead, true);
+    }
+}
+
+function openLeadContact(lead: Lead) {
+    if (lead.website) {
+        window.open(lead.website, '_blank', 'noopener,noreferrer');
+    } else if (lead.phone) {
+        window.location.href = `tel:${lead.phone.replace(/[^\d+]/g, '')}`;
+    } else {
+        showStatus(`${escapeHTML(lead.name)} has no website or phone number.`, 'error');
+    }
+}
+
+function handleTriageKey(e: KeyboardEvent) {
+    if (triageIndex === null || e.ctrlKey || e.metaKey || e.altKey) return;
+    const target = e.target as HTMLElement;
+    if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+    if (document.querySelector('.modal-overlay:not(.hidden)')) return;
+    if (e.key === 'Enter' && target.closest('button, a')) return;
+    const lead = getTriageLead();
+    if (!lead) return;
+    const stage = PIPELINE_STAGES[Number(e.key) - 1];
+    if (e.key === 'j' || e.key === 'ArrowDown') {
+        moveTriage(1);
+    } else if (e.key === 'k' || e.key === 'ArrowUp') {
+        moveTriage(-1);
+    } else if (stage) {
+        updateLead(lead, { stage });
+        moveTriage(0);
+    } else if (e.key === 'o') {
+        openLeadContact(lead);
+    } else if (e.key === 'x') {
+        if (selectedIds.has(lead.id)) selectedIds.delete(lead.id);
+        else selectedIds.add(lead.id);
+        syncSelection();
+    } else if (e.key === 'Enter') {
+        showDetailsModal(lead);
+    } else if (e.key === 'Escape') {
+        stopTriage();
+    } else {
+        return;
+    }
+    e.preventDefault();
+}
+
+// --- Rendering ---
+function renderResults(businesses: Lead[]) {
+    resultsContainer.innerHTML = '';
+    if (businesses.length === 0) {
+        resultsContainer.innerHTML = '<p>No businesses found matching your criteria.</p>';
+        if (!activeBoundary) mapContainer.classList.add('hidden');
+        updateMapMarkers([]);
+        exportButton.classList.add('hidden');
+        enrichSelectedButton.classList.add('hidden');
+        outreachButton.classList.add('hidden');
+        analyticsButton.classList.add('hidden');
+        planRouteButton.classList.add('hidden');
+        saveToSheetsButton.classList.add('hidden');
+        saveToDriveButton.classList.add('hidden');
+        bulkBar.classList.add('hidden');
+        renderTriage();
+        return;
+    }
+
+    businesses.forEach(business => {
+        resultsContainer.appendChild(createBusinessCard(business));
+    });
+
+    updateMapMarkers(businesses);
+    mapContainer.classList.remove('hidden');
+    exportButton.classList.remove('hidden');
+    enrichSelectedButton.classList.remove('hidden');
+    outreachButton.classList.remove('hidden');
+    analyticsButton.classList.remove('hidden');
+    planRouteButton.classList.remove('hidden');
+    saveToSheetsButton.classList.remove('hidden');
+    saveToDriveButton.classList.remove('hidden');
+    bulkBar.classList.remove('hidden');
+    renderBulkBar();
+    renderTriage();
+}
+
+function renderSocialLinks(business: Business): string {
+    const links = Object.entries(business.socialMedia).map(([platform, url]) => {
+        if (!url) return '';
+        return `<a href="${escapeHTML(url)}" target="_blank" rel="noopener noreferrer" class="social-link" aria-label="${platform}">${platform.charAt(0).toUpperCase() + platform.slice(1)}</a>`;
+    }).join('');
+    return links || 'N/A';
+}
+
+function renderLeadMeta(lead: Lead): string {
+    const tags = lead.tags.map(tag => `<span class="tag-chip">#${escapeHTML(tag)}</span>`).join('');
+    return `
+        <div class="lead-meta">
+            <span class="stage-badge stage-${lead.stage}">${lead.stage}</span>
+            ${tags}
+            ${lead.queries.map(query => `<span class="query-chip" title="Found by this search">${escapeHTML(query)}</span>`).join('')}
+            <span class="last-touched" title="Last touched">${new Date(lead.lastTouched).toLocaleDateString()}</span>
+        </div>
+    `;
+}
+
+function renderSources(business: Business): string {
+    const entries = Object.entries(business.sources);
+    if (entries.length === 0) return '';
+    return `
+        <details class="field-sources">
+            <summary>Where this data came from</summary>
+            <ul>${entries.map(([field, source]) => `<li><strong>${escapeHTML(field)}</strong>: ${escapeHTML(source)}</li>`).join('')}</ul>
+        </details>
+    `;
+}
+
+function renderScoreBadge({ score }: ScoreResult): string {
+    const band = score >= 70 ? 'score-high' : score >= 40 ? 'score-mid' : 'score-low';
+    return `<span class="score-badge ${band}" title="Lead score">${score}</span>`;
+}
+
+function renderScoreBreakdown({ score, breakdown }: ScoreResult): string {
+    const lines = breakdown.map(line => `<li><span>${escapeHTML(line.label)}</span><strong>${line.points > 0 ? '+' : ''}${line.points}</strong></li>`).join('');
+    return `
+        <p><strong>Lead Score:</strong> ${score} / 100 <small>(${escapeHTML(getActiveProfile().name)})</small></p>
+        <ul class="score-breakdown">${lines || '<li>No scoring rules matched.</li>'}</ul>
+    `;
+}
+
+function renderEnrichment(lead: Lead): string {
+    const rows = [
+        ...ENRICHMENT_ATTRIBUTES.map(attribute => ({ key: attribute.key, label: attribute.label })),
+        ...DEEP_ENRICHMENT_PLATFORMS.map(platform => ({ key: `socialMedia.${platform}`, label: platform.charAt(0).toUpperCase() + platform.slice(1) })),
+    ].filter(row => lead.enrichment[row.key]);
+    if (rows.length === 0) return '';
+    return `<ul class="enriched-facts">${rows.map(({ key, label }) => {
+        const entry = lead.enrichment[key];
+        const value = key.startsWith('socialMedia.')
+            ? `<a href="${escapeHTML(entry.value)}" target="_blank" rel="noopener noreferrer">${escapeHTML(entry.value)}</a>`
+            : escapeHTML(String(entry.value));
+        return `<li title="Enriched ${new Date(entry.enrichedAt).toLocaleString()}"><strong>${label}:</strong> ${value} <span class="confidence confidence-${entry.confidence}">${entry.confidence}</span></li>`;
+    }).join('')}</ul>`;
+}
+
+function renderWarnings(business: Business): string {
+    if (business.warnings.length === 0) return '';
+    return `<ul class="record-warnings">${business.warnings.map(w => `<li>${escapeHTML(w)}</li>`).join('')}</ul>`;
+}
+
+function createBusinessCard(business: Lead): HTMLElement {
+    const card = document.createElement('div');
+    card.className = 'business-card';
+    card.dataset.id = business.id;
+
+    const socialLinks = renderSocialLinks(business);
+
+    card.innerHTML = `
+        <div class="card-header">
+            <input type="checkbox" class="select-checkbox" aria-label="Select ${escapeHTML(business.name)}" ${selectedIds.has(business.id) ? 'checked' : ''}>
+            <h3>${escapeHTML(business.name)}</h3>
+            ${renderChangeBadge(business)}
+            ${renderScoreBadge(getScore(business))}
+        </div>
+        ${renderLeadMeta(business)}
+        ${renderVerifyBadges(business)}
+        ${business.rating !== null ? `<div class="rating">Rating: ${business.rating} / 5 ★</div>` : ''}
+        <p class="address">${escapeHTML(business.address)}</p>
+        <div class="business-details">
+            <p>${escapeHTML(business.summary)}</p>
+            <p><strong>Phone:</strong> ${escapeHTML(business.phone) || 'N/A'}</p>
+            <p><strong>Website:</strong> ${business.website ? `<a href="${escapeHTML(business.website)}" target="_blank" rel="noopener noreferrer">${escapeHTML(business.website)}</a>` : 'N/A'}</p>
+            <p><strong>Social:</strong> ${socialLinks}</p>
+            ${business.notes ? `<p class="lead-notes">${escapeHTML(business.notes)}</p>` : ''}
+        </div>
+        ${renderEnrichment(business)}
+        ${renderWarnings(business)}
+    `;
+    const selectCheckbox = card.querySelector('.select-checkbox') as HTMLInputElement;
+    selectCheckbox.addEventListener('click', (e) => e.stopPropagation());
+    selectCheckbox.addEventListener('change', () => {
+        if (selectCheckbox.checked) selectedIds.add(business.id);
+        else selectedIds.delete(business.id);
+        drawMarkers();
+        renderBulkBar();
+    });
+    card.addEventListener('click', () => showDetailsModal(business));
+    card.addEventListener('mouseenter', () => highlightMarker(business, true));
+    card.addEventListener('mouseleave', () => highlightMarker(business, false));
+    return card;
+}
+
+// --- Map Logic ---
+
+const STAGE_COLORS: Record<PipelineStage, string> = {
+    new: '#64748b',
+    contacted: '#0284c7',
+    qualified: '#d97706',
+    won: '#16a34a',
+    lost: '#c62828',
+};
+// Below this many markers clustering only gets in the way.
+const CLUSTER_MIN_MARKERS = 20;
+const CLUSTER_CELL_PX = 60;
+const CARD_HIGHLIGHT_MS = 2000;
+
+const scoreColor = (score: number): string => score >= 70 ? '#F25A5A' : score >= 40 ? '#f59e0b' : '#94a3b8';
+
+const markerColor = (lead: Lead): string =>
+    mapSettings.colorBy === 'score' ? scoreColor(getScore(lead).score) : STAGE_COLORS[lead.stage];
+
+function initMap() {
+    if (map) return;
+    map = L.map(mapContainer).setView([37.7749, -122.4194], 10); // Default to SF
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+    }).addTo(map);
+    markersLayer = L.featureGroup().addTo(map);
+
+    const toolbar = L.control({ position: 'topright' });
+    toolbar.onAdd = () => mapToolbar;
+    toolbar.addTo(map);
+    L.DomEvent.disableClickPropagation(mapToolbar);
+    L.DomEvent.disableScrollPropagation(mapToolbar);
+    mapToolbar.classList.remove('hidden');
+    renderMapControls();
+    // Clusters are computed in screen pixels, so they change with the zoom level.
+    map.on('zoomend', drawMarkers);
+    map.on('moveend', scheduleViewportSync);
+}
+
+function updateMapMarkers(businesses: Lead[]) {
+    mappedBusinesses = businesses.filter(b => b.lat !== null && b.lng !== null);
+    if (!map || !markersLayer) return;
+    const key = mappedBusinesses.map(b => b.id).sort().join('|');
+    if (mappedBusinesses.length > 0 && key !== fittedKey) {
+        map.fitBounds(L.latLngBounds(mappedBusinesses.map(b => [b.lat!, b.lng!] as [number, number])).pad(0.1));
+    }
+    fittedKey = key;
+    drawMarkers();
+    updateHeatLayer();
+}
+
+function drawMarkers() {
+    if (!map || !markersLayer) return;
+    markersLayer.clearLayers();
+    markerById.clear();
+    const zoom = map.getZoom();
+    const points = mappedBusinesses.map(lead => {
+        const { x, y } = map!.project([lead.lat!, lead.lng!], zoom);
+        return { x, y, item: lead };
+    });
+    const shouldCluster = mapSettings.cluster && points.length >= CLUSTER_MIN_MARKERS && zoom < map.getMaxZoom();
+    const clusters = shouldCluster
+        ? clusterPoints(points, CLUSTER_CELL_PX)
+        : points.map(point => ({ x: point.x, y: point.y, items: [point.item] }));
+
+    clusters.forEach(cluster => {
+        const layer = cluster.items.length === 1
+            ? createLeadMarker(cluster.items[0])
+            : createClusterMarker(cluster.items, map!.unproject([cluster.x, cluster.y], zoom));
+        cluster.items.forEach(lead => markerById.set(lead.id, layer));
+        markersLayer!.addLayer(layer);
+    });
+    createGoneMarkers().forEach(layer => markersLayer!.addLayer(layer));
+}
+
+function createLeadMarker(lead: Lead): L.CircleMarker {
+    const selected = selectedIds.has(lead.id);
+    const change = leadChanges.get(lead.id);
+    const marker = L.circleMarker([lead.lat!, lead.lng!], {
+        radius: 8,
+        color: selected ? '#111827' : change ? CHANGE_COLORS[change.kind] : '#fff',
+        weight: selected || change ? 3 : 2,
+        fillColor: markerColor(lead),
+        fillOpacity: 0.9,
+    });
+    const changeNote = change ? `<br><i>${escapeHTML(describeChange(change))}</i>` : '';
+    marker.bindPopup(`<b>${escapeHTML(lead.name)}</b><br>${escapeHTML(lead.address)}${changeNote}`);
+    marker.on('click', () => focusCard(lead.id));
+    return marker;
+}
+
+/** A count bubble in the most common color among its leads; clicking zooms into them. */
+function createClusterMarker(leads: Lead[], center: L.LatLng): L.Marker {
+    const counts = new Map<string, number>();
+    leads.forEach(lead => counts.set(markerColor(lead), (counts.get(markerColor(lead)) ?? 0) + 1));
+    const [color] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    const size = leads.length < 10 ? 30 : leads.length < 100 ? 38 : 46;
+    const marker = L.marker(center, {
+        title: `${leads.length} leads`,
+        icon: L.divIcon({
+            className: 'marker-cluster',
+            html: `<div class="marker-cluster-count" style="background-color: ${color}">${leads.length}</div>`,
+            iconSize: [size, size],
+        }),
+    });
+    marker.on('click', () => map!.fitBounds(L.latLngBounds(leads.map(b => [b.lat!, b.lng!] as [number, number])).pad(0.2)));
+    return marker;
+}
+
+/** Scrolls a lead's card into view and flashes it. */
+function focusCard(id: string) {
+    const card = resultsContainer.querySelector<HTMLElement>(`.business-card[data-id="${CSS.escape(id)}"]`);
+    if (!card) return;
+    card.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    card.classList.add('highlighted');
+    setTimeout(() => card.classList.remove('highlighted'), CARD_HIGHLIGHT_MS);
+}
+
+function highlightMarker(business: Business, isHighlighted: boolean) {
+    const layer = markerById.get(business.id);
+    if (!layer) return;
+    if (layer instanceof L.CircleMarker) {
+        layer.setRadius(isHighlighted ? 11 : 8);
+        if (isHighlighted) {
+            layer.openPopup();
+        } else {
+            layer.closePopup();
+        }
+    } else {
+        (layer as L.Marker).getElement()?.classList.toggle('highlighted', isHighlighted);
+    }
+}
+
+function updateHeatLayer() {
+    if (!map) return;
+    if (heatLayer) map.removeLayer(heatLayer);
+    heatLayer = mapSettings.heatmap && mappedBusinesses.length > 0
+        ? createHeatLayer(mappedBusinesses.map(b => ({ lat: b.lat!, lng: b.lng! }))).addTo(map)
+        : null;
+}
+
+function renderMapControls() {
+    markerColorSelect.value = mapSettings.colorBy;
+    clusterCheckbox.checked = mapSettings.cluster;
+    heatmapCheckbox.checked = mapSettings.heatmap;
+    const entries: [string, string][] = mapSettings.colorBy === 'score'
+        ? [['Score 70+', scoreColor(70)], ['Score 40–69', scoreColor(40)], ['Score under 40', scoreColor(0)]]
+        : PIPELINE_STAGES.map(stage => [stage.charAt(0).toUpperCase() + stage.slice(1), STAGE_COLORS[stage]]);
+    mapLegend.innerHTML = entries.map(([label, color]) =>
+        `<li><span class="legend-swatch" style="background-color: ${color}"></span>${escapeHTML(label)}</li>`
+    ).join('') + (activeChanges ? (['new', 'changed', 'gone'] as ChangeKind[]).map(kind =>
+        `<li><span class="legend-swatch legend-ring" style="border-color: ${CHANGE_COLORS[kind]}"></span>${CHANGE_LABELS[kind]} since last run</li>`
+    ).join('') : '');
+}
+
+function updateMapSettings(changes: Partial<MapSettings>) {
+    mapSettings = { ...mapSettings, ...changes };
+    saveSetting('map', mapSettings);
+    renderMapControls();
+    drawMarkers();
+    updateHeatLayer();
+}
+
+/** Draws a box or lasso on the map and adds the leads inside it to the selection. */
+function startMapSelection(mode: 'box' | 'lasso') {
+    stopDrawing();
+    stopMapSelection();
+    showMap();
+    const button = mode === 'box' ? boxSelectButton : lassoSelectButton;
+    button.classList.add('active');
+    showStatus(mode === 'box'
+        ? 'Click and drag a box around the leads to select.'
+        : 'Hold the mouse button and draw around the leads to select.', 'success');
+
+    const finish = (boundary: SearchBoundary) => {
+        cancelMapSelection = null;
+        button.classList.remove('active');
+        const inside = mappedBusinesses.filter(lead => isInsideBoundary({ lat: lead.lat!, lng: lead.lng! }, boundary));
+        inside.forEach(lead => selectedIds.add(lead.id));
+        showStatus(`Selected ${inside.length} lead${inside.length === 1 ? '' : 's'} on the map (${selectedIds.size} selected in total).`, 'success');
+        filterAndRenderResults();
+    };
+    cancelMapSelection = mode === 'box'
+        ? startDrawing(map!, 'rectangle', finish)
+        : startLasso(map!, points => finish({ kind: 'polygon', points }));
+}
+
+function stopMapSelection() {
+    cancelMapSelection?.();
+    cancelMapSelection = null;
+    boxSelectButton.classList.remove('active');
+    lassoSelectButton.classList.remove('active');
+}
+
+// --- Filtering ---
+
+const getFilterContext = (): FilterContext => ({ center: getScoringCenter(), score: item => getScore(item).score });
+
+function filterAndRenderResults() {
+    const query = parseQuery(searchInput.value);
+    const stage = stageFilterSelect.value;
+    const insideAreaOnly = outsideAreaCheckbox.checked && activeBoundary;
+
+    computeScores();
+    const context = getFilterContext();
+    const filtered = currentBusinesses.filter(b => {
+        const matchesStage = stage ? b.stage === stage : true;
+        const matchesArea = insideAreaOnly && b.lat !== null && b.lng !== null
+            ? isInsideBoundary({ lat: b.lat, lng: b.lng }, activeBoundary!)
+            : true;
+        return matchesStage && matchesArea && matchesQuery(b, query, context);
+    });
+    filterErrors.textContent = query.errors.join(' ');
+    visibleBusinesses = sortBusinesses(filtered, context);
+    renderFacets(filtered, context);
+    renderResults(visibleBusinesses);
+    renderAnalytics();
+    syncUrl();
+}
+
+function sortBusinesses(businesses: Lead[], context: FilterContext): Lead[] {
+    return sortSelect.value ? sortItems(businesses, sortSelect.value, sortDescending, context) : [...businesses];
+}
+
+function renderSortOptions() {
+    sortSelect.innerHTML = '<option value="">Search order</option>' + SORT_FIELDS
+        .map(field => `<option value="${field.id}">${escapeHTML(field.label)}</option>`).join('');
+    renderSortDirection();
+}
+
+function renderSortDirection() {
+    sortDirectionButton.textContent = sortDescending ? '↓' : '↑';
+    sortDirectionButton.title = sortDescending ? 'Highest or Z first' : 'Lowest or A first';
+    sortDirectionButton.disabled = !sortSelect.value;
+}
+
+function handleSortChange() {
+    sortDescending = SORT_FIELDS.find(field => field.id === sortSelect.value)?.descending ?? false;
+    renderSortDirection();
+    filterAndRenderResults();
+}
+
+function toggleSortDirection() {
+    sortDescending = !sortDescending;
+    renderSortDirection();
+    filterAndRenderResults();
+}
+
+function renderFacets(filtered: Lead[], context: FilterContext) {
+    if (currentBusinesses.length === 0) {
+        facetsPanel.classList.add('hidden');
+        return;
+    }
+    const groups = computeFacets(filtered, parseQuery(searchInput.value), context);
+    facetsPanel.innerHTML = groups.map(group => `
+        <div class="facet-group">
+            <h4>${escapeHTML(group.label)}</h4>
+            ${group.options.map(option => `
+                <button type="button" class="facet-option ${option.active ? 'active' : ''}" data-query="${escapeHTML(option.query)}" aria-pressed="${option.active}" ${option.count === 0 && !option.active ? 'disabled' : ''}>
+                    <span>${escapeHTML(option.label)}</span><span>${option.count}</span>
+                </button>`).join('')}
+        </div>
+    `).join('') || '<p class="control-group-description">Nothing to narrow down.</p>';
+    facetsPanel.classList.remove('hidden');
+}
+
+function handleFacetClick(e: Event) {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('.facet-option');
+    if (!button) return;
+    searchInput.value = toggleFacet(searchInput.value, button.dataset.query!);
+    filterAndRenderResults();
+}
+
+// --- Analytics ---
+
+const ANALYTICS_PNG_SCALE = 2;
+
+const getMarketStats = () => computeMarketStats(visibleBusinesses, getScoringCenter());
+
+function getMarketTitle(): string {
+    const subject = viewSelect.value === 'workspace' ? 'All leads' : currentSearch ? describeSearch(currentSearch) : 'Latest results';
+    return `Market report: ${subject}`;
+}
+
+function getMarketReport(): MarketReport {
+    const stats = getMarketStats();
+    return {
+        title: getMarketTitle(),
+        stats,
+        summary: marketSummary?.key === statsKey(stats) ? marketSummary.text : '',
+        generatedAt: Date.now(),
+    };
+}
+
+function toggleAnalytics() {
+    analyticsPanel.classList.toggle('hidden');
+    renderAnalytics();
+    if (!analyticsPanel.classList.contains('hidden')) analyticsPanel.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+}
+
+/** Redraws the panel from the shown results; runs on every re-filter while it is open. */
+function renderAnalytics() {
+    if (analyticsPanel.classList.contains('hidden')) return;
+    const stats = getMarketStats();
+    analyticsTitle.textContent = `${getMarketTitle()} (${stats.total} shown)`;
+    analyticsFigures.innerHTML = describeMarketStats(stats)
+        .map(({ label, value }) => `<div><strong>${escapeHTML(value)}</strong>${escapeHTML(label)}</div>`).join('');
+    analyticsCharts.innerHTML = renderMarketCharts(stats).map(chart => chart.svg).join('');
+    marketSummaryButton.disabled = stats.total === 0;
+    analyticsPngButton.disabled = analyticsHtmlButton.disabled = stats.total === 0;
+
+    marketSummaryText.classList.toggle('hidden', !marketSummary);
+    if (!marketSummary) return;
+    const stale = marketSummary.key !== statsKey(stats)
+        ? '<span class="stale-note">Written for a different set of results; it is left out of exports until you ask again.</span>'
+        : '';
+    marketSummaryText.innerHTML = `${escapeHTML(marketSummary.text)}${stale}`;
+}
+
+async function requestMarketSummary() {
+    if (isOverBudget()) {
+        showStatus(budgetMessage(), 'error');
+        return;
+    }
+    const stats = getMarketStats();
+    const title = getMarketTitle();
+    setButtonLoadingState(marketSummaryButton, true);
+    try {
+        const { data } = await provider.generateJson({
+            prompt: buildMarketSummaryPrompt(stats, title),
+            schema: MARKET_SUMMARY_SCHEMA,
+            schemaName: 'market_summary',
+            label: 'Market summary',
+            cacheKey: JSON.stringify([title, statsKey(stats)]),
+        });
+        const text = parseMarketSummary(data);
+        if (!text) throw new Error('The model returned an empty summary.');
+        marketSummary = { key: statsKey(stats), text };
+        renderAnalytics();
+    } catch (error) {
+        console.error('Market Summary Error:', error);
+        showStatus('Could not write a market summary. Please try again.', 'error');
+    } finally {
+        setButtonLoadingState(marketSummaryButton, false);
+    }
+}
+
+function exportAnalyticsHtml() {
+    downloadFile(toMarketReportHtml(getMarketReport()), 'text/html', 'scout-ai-market-report.html');
+}
+
+/** Rasterizes the report's SVG through an image and a canvas. */
+async function exportAnalyticsPng() {
+    const { svg, width, height } = toMarketReportSvg(getMarketReport());
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    try {
+        const image = new Image();
+        image.src = url;
+        await image.decode();
+        const canvas = document.createElement('canvas');
+        canvas.width = width * ANALYTICS_PNG_SCALE;
+        canvas.height = height * ANALYTICS_PNG_SCALE;
+        canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!blob) throw new Error('The browser could not encode the image.');
+        downloadBlob(blob, 'scout-ai-market-report.png');
+    } catch (error) {
+        console.error('Analytics Export Error:', error);
+        showStatus('Could not create the PNG report.', 'error');
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+// --- Export/Save ---
+
+const withScore = (lead: Lead): Exportable => ({ ...lead, score: getScore(lead).score });
+
+function getScopeLeads(scope: ExportScope): Lead[] {
+    switch (scope) {
+        case 'filtered':
+            return visibleBusinesses;
+        case 'selected':
+            return currentBusinesses.filter(b => selectedIds.has(b.id));
+        case 'all':
+            return [...workspace.values()];
+    }
+}
+
+/** The ticked columns, resolved against what these leads actually contain. */
+function getSelectedColumns(items: Exportable[]): ExportColumn[] {
+    return resolveColumns(exportSettings.columns, getExportColumns(items));
+}
+
+function saveExportSettings() {
+    saveSetting('export', exportSettings);
+}
+
+function showExportModal() {
+    const scopes: { id: ExportScope; label: string }[] = [
+        { id: 'filtered', label: 'Filtered view' },
+        { id: 'selected', label: 'Selected leads' },
+        { id: 'all', label: 'All saved leads' },
+    ];
+    exportScopeOptions.innerHTML = scopes.map(scope => `
+        <label class="checkbox-wrapper">
+            <input type="radio" name="export-scope" value="${scope.id}" ${scope.id === exportSettings.scope ? 'checked' : ''}>
+            <span>${scope.label} (${getScopeLeads(scope.id).length})</span>
+        </label>
+    `).join('');
+    exportFormatSelect.innerHTML = EXPORT_FORMATS.map(format => `<option value="${format.id}">${escapeHTML(format.label)}</option>`).join('');
+    exportFormatSelect.value = exportSettings.format;
+
+    const available = getExportColumns([...workspace.values(), ...currentBusinesses]).map(column => column.id);
+    exportColumnOrder = [...exportSettings.columns.filter(id => available.includes(id)), ...available.filter(id => !exportSettings.columns.includes(id))];
+    renderExportColumns();
+    exportModal.classList.remove('hidden');
+}
+
+function hideExportModal() {
+    exportModal.classList.add('hidden');
+}
+
+function renderExportColumns() {
+    const columns = getExportColumns([...workspace.values(), ...currentBusinesses]);
+    const isVCard = exportSettings.format === 'vcf';
+    exportColumnsNote.textContent = isVCard
+        ? 'vCards always contain name, phone, website, address, location, social profiles, summary and tags.'
+        : 'Tick the columns to include and use the arrows to change their order.';
+    exportColumnsList.classList.toggle('hidden', isVCard);
+    exportColumnsList.innerHTML = exportColumnOrder.map((id, index) => {
+        const column = columns.find(c => c.id === id)!;
+        return `
+            <li class="export-column" data-column="${escapeHTML(id)}">
+                <label class="checkbox-wrapper">
+                    <input type="checkbox" ${exportSettings.columns.includes(id) ? 'checked' : ''}>
+                    <span>${escapeHTML(column.label)}</span>
+                </label>
+                <button type="button" class="move-column-button" data-direction="-1" aria-label="Move ${escapeHTML(column.label)} up" ${index === 0 ? 'disabled' : ''}>↑</button>
+                <button type="button" class="move-column-button" data-direction="1" aria-label="Move ${escapeHTML(column.label)} down" ${index === exportColumnOrder.length - 1 ? 'disabled' : ''}>↓</button>
+            </li>
+        `;
+    }).join('');
+}
+
+function updateExportColumns() {
+    const ticked = new Set([...exportColumnsList.querySelectorAll<HTMLElement>('.export-column')]
+        .filter(row => (row.querySelector('input[type="checkbox"]') as HTMLInputElement).checked)
+        .map(row => row.dataset.column!));
+    exportSettings.columns = exportColumnOrder.filter(id => ticked.has(id));
+    saveExportSettings();
+}
+
+function handleExportColumnClick(e: Event) {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('.move-column-button');
+    if (!button) return;
+    const id = button.closest<HTMLElement>('.export-column')!.dataset.column!;
+    const from = exportColumnOrder.indexOf(id);
+    const to = from + Number(button.dataset.direction);
+    if (to < 0 || to >= exportColumnOrder.length) return;
+    [exportColumnOrder[from], exportColumnOrder[to]] = [exportColumnOrder[to], exportColumnOrder[from]];
+    updateExportColumns();
+    renderExportColumns();
+}
+
+function handleExportOptionsChange(e: Event) {
+    const target = e.target as HTMLInputElement;
+    if (target.name === 'export-scope') {
+        exportSettings.scope = target.value as ExportScope;
+        saveExportSettings();
+    } else if (e.target === exportFormatSelect) {
+        exportSettings.format = exportFormatSelect.value as ExportFormat;
+        saveExportSettings();
+        renderExportColumns();
+    } else if (exportColumnsList.contains(target)) {
+        updateExportColumns();
+    }
+}
+
+function downloadExport() {
+    const items = getScopeLeads(exportSettings.scope).map(withScore);
+    if (items.length === 0) {
+        showStatus('There are no leads in that selection to export.', 'error');
+        return;
+    }
+    const columns = getSelectedColumns(items);
+    if (columns.length === 0 && exportSettings.format !== 'vcf') {
+        showStatus('Choose at least one column to export.', 'error');
+        return;
+    }
+    const file = exportLeads(items, exportSettings.format, columns, { bom: true });
+    downloadFile(file.content, file.mimeType, `scout-ai-leads.${file.extension}`);
+    hideExportModal();
+    showStatus(`Exported ${items.length} lead${items.length === 1 ? '' : 's'} as ${file.extension.toUpperCase()}.`, 'success');
+}
+
+function showSheetsModal(selectedOnly: boolean) {
+    sheetsSelectedOnly = selectedOnly;
+    sheetsPushButton.querySelector('.button-text')!.textContent = selectedOnly ? `PUSH ${getSelectedLeads().length} SELECTED` : 'PUSH TO SHEET';
+    sheetsSpreadsheetInput.value = sheetTarget.spreadsheetId;
+    sheetsTabInput.value = sheetTarget.sheetName;
+    renderSheetsTarget();
+    loadSheetTabs();
+    sheetsModal.classList.remove('hidden');
+}
+
+function hideSheetsModal() {
+    sheetsModal.classList.add('hidden');
+}
+
+function renderSheetsTarget() {
+    sheetsTargetLink.innerHTML = sheetTarget.spreadsheetId
+        ? `<a href="https://docs.google.com/spreadsheets/d/${encodeURIComponent(sheetTarget.spreadsheetId)}/edit" target="_blank" rel="noopener noreferrer">Open the spreadsheet</a>`
+        : 'Leave the spreadsheet blank to create a new one on the first push.';
+}
+
+function handleSheetsTargetChange() {
+    sheetTarget = {
+        spreadsheetId: parseSpreadsheetId(sheetsSpreadsheetInput.value),
+        sheetName: sheetsTabInput.value.trim() || 'Leads',
+    };
+    saveSetting('sheets-target', sheetTarget);
+    renderSheetsTarget();
+}
+
+async function loadSheetTabs() {
+    sheetsTabSuggestions.innerHTML = '';
+    if (!sheetTarget.spreadsheetId || !gapi.client.getToken()) return;
+    try {
+        const response = await gapi.client.sheets.spreadsheets.get({
+            spreadsheetId: sheetTarget.spreadsheetId,
+            fields: 'sheets.properties.title',
+        });
+        const titles: string[] = response.result.sheets.map((sheet: any) => sheet.properties.title);
+        sheetsTabSuggestions.innerHTML = titles.map(title => `<option value="${escapeHTML(title)}"></option>`).join('');
+    } catch (error) {
+        if (isUnauthorized(error)) {
+            expireSession('Your Google session expired. Sign in again to open the spreadsheet.');
+            return;
+        }
+        console.error('Sheets Tabs Error:', error);
+        showStatus('Could not open that spreadsheet. Check the link and that your account can edit it.', 'error');
+    }
+}
+
+/** Makes sure the target spreadsheet and tab exist, creating either if needed. */
+async function ensureSheetTarget(): Promise<void> {
+    if (!sheetTarget.spreadsheetId) {
+        const response = await gapi.client.sheets.spreadsheets.create({
+            properties: { title: `Scout AI Leads - ${new Date().toLocaleString()}` },
+            sheets: [{ properties: { title: sheetTarget.sheetName } }],
+        });
+        sheetTarget = { ...sheetTarget, spreadsheetId: response.result.spreadsheetId };
+        saveSetting('sheets-target', sheetTarget);
+        sheetsSpreadsheetInput.value = sheetTarget.spreadsheetId;
+        renderSheetsTarget();
+        return;
+    }
+    const response = await gapi.client.sheets.spreadsheets.get({
+        spreadsheetId: sheetTarget.spreadsheetId,
+        fields: 'sheets.properties.title',
+    });
+    const exists = response.result.sheets.some((sheet: any) => sheet.properties.title === sheetTarget.sheetName);
+    if (!exists) {
+        await gapi.client.sheets.spreadsheets.batchUpdate({
+            spreadsheetId: sheetTarget.spreadsheetId,
+            resource: { requests: [{ addSheet: { properties: { title: sheetTarget.sheetName } } }] },
+        });
+    }
+}
+
+async function readSheetValues(): Promise<CellValue[][]> {
+    const response = await gapi.client.sheets.spreadsheets.values.get({
+        spreadsheetId: sheetTarget.spreadsheetId,
+        range: quoteSheetName(sheetTarget.sheetName),
+        valueRenderOption: 'UNFORMATTED_VALUE',
+    });
+    return response.result.values ?? [];
+}
+
+async function pushToSheets() {
+    const leads = sheetsSelectedOnly ? getSelectedLeads() : currentBusinesses;
+    if (leads.length === 0) {
+        showStatus('No data to save.', 'error');
+        return;
+    }
+    const items = leads.map(withScore);
+    const columns = getSelectedColumns(items);
+    setButtonLoadingState(sheetsPushButton, true);
+    try {
+        await runGoogleSave('the Sheets push', async () => {
+            await ensureSheetTarget();
+            const key = sheetTargetKey(sheetTarget);
+            const plan = planUpsert(sheetTarget.sheetName, await readSheetValues(), items, columns, sheetsPushed[key]);
+            if (plan.writes.length > 0) {
+                await gapi.client.sheets.spreadsheets.values.batchUpdate({
+                    spreadsheetId: sheetTarget.spreadsheetId,
+                    // RAW keeps phone numbers like +1... from being read as formulas.
+                    resource: { valueInputOption: 'RAW', data: plan.writes },
+                });
+            }
+            sheetsPushed = { ...sheetsPushed, [key]: recordPushedValues(sheetsPushed[key] ?? {}, plan.synced) };
+            saveSetting('sheets-pushed', sheetsPushed);
+            hideSheetsModal();
+            const url = `https://docs.google.com/spreadsheets/d/${encodeURIComponent(sheetTarget.spreadsheetId)}/edit`;
+            recordSave({ kind: 'sheets', name: sheetTarget.sheetName, url, detail: `${plan.appended} added, ${plan.updated} changed`, savedAt: Date.now() });
+            const conflictNote = plan.conflicts > 0
+                ? ` Kept ${plan.conflicts} Stage or Notes cell${plan.conflicts === 1 ? '' : 's'} edited in the sheet; pull to bring ${plan.conflicts === 1 ? 'it' : 'them'} into the app.`
+                : '';
+            showStatus(`Sheet updated: ${plan.appended} added, ${plan.updated} changed.${conflictNote} <a href="${url}" target="_blank">Open Google Sheet</a>.`, 'success');
+        });
+    } catch (error) {
+        console.error('Save to Sheets Error:', error);
+        showStatus('Failed to save to Google Sheets.', 'error');
+    } finally {
+        setButtonLoadingState(sheetsPushButton, false);
+    }
+}
+
+async function pullFromSheets() {
+    if (!sheetTarget.spreadsheetId) {
+        showStatus('Choose a spreadsheet to pull from first.', 'error');
+        return;
+    }
+    setButtonLoadingState(sheetsPullButton, true);
+    try {
+        const { edits, skipped } = readSheetEdits(await readSheetValues());
+        const key = sheetTargetKey(sheetTarget);
+        const pushed = sheetsPushed[key] ?? {};
+        const changed: Lead[] = [];
+        changedSinceLastPush(edits, pushed).forEach(edit => {
+            const lead = workspace.get(edit.id);
+            if (!lead) return;
+            const changes: Partial<Pick<Lead, 'stage' | 'notes'>> = {};
+            if (edit.stage && edit.stage !== lead.stage) changes.stage = edit.stage;
+            if (edit.notes && edit.notes !== lead.notes) changes.notes = edit.notes;
+            if (Object.keys(changes).length === 0) return;
+            Object.assign(lead, changes, { lastTouched: Date.now() });
+            changed.push(lead);
+        });
+        // The sheet's values are now in sync, so only later sheet edits apply next time.
+        sheetsPushed = { ...sheetsPushed, [key]: recordPushedValues(pushed, edits) };
+        saveSetting('sheets-pushed', sheetsPushed);
+        if (changed.length > 0) {
+            filterAndRenderResults();
+            if (!(await persistLeads(changed))) return;
+        }
+        hideSheetsModal();
+        const skippedNote = skipped > 0 ? ` Ignored ${skipped} unrecognised stage value${skipped === 1 ? '' : 's'}.` : '';
+        showStatus(`Pulled edits for ${changed.length} lead${changed.length === 1 ? '' : 's'} from the sheet.${skippedNote}`, 'success');
+    } catch (error) {
+        if (isUnauthorized(error)) {
+            expireSession('Your Google session expired. Sign in again to pull edits.');
+            return;
+        }
+        console.error('Pull from Sheets Error:', error);
+        showStatus('Failed to read edits from Google Sheets.', 'error');
+    } finally {
+        setButtonLoadingState(sheetsPullButton, false);
+    }
+}
+
+function showDriveModal() {
+    if (currentBusinesses.length === 0) {
+        showStatus('No data to save.', 'error');
+        return;
+    }
+    driveFileNameInput.value = driveTarget.fileName;
+    renderDriveFolders([]);
+    loadDriveFolders();
+    driveModal.classList.remove('hidden');
+}
+
+function hideDriveModal() {
+    driveModal.classList.add('hidden');
+}
+
+function renderDriveFolders(folders: DriveFolder[]) {
+    const options = [{ id: '', name: 'My Drive' }, ...folders];
+    if (driveTarget.folderId && !options.some(folder => folder.id === driveTarget.folderId)) {
+        options.push({ id: driveTarget.folderId, name: driveTarget.folderName });
+    }
+    driveFolderSelect.innerHTML = options
+        .map(folder => `<option value="${escapeHTML(folder.id)}">${escapeHTML(folder.name)}</option>`).join('');
+    driveFolderSelect.value = driveTarget.folderId;
+}
+
+async function loadDriveFolders() {
+    if (!gapi.client.getToken()) return;
+    try {
+        const response = await gapi.client.drive.files.list({ q: FOLDER_LIST_QUERY, fields: 'files(id, name)', orderBy: 'name', pageSize: 100 });
+        renderDriveFolders(response.result.files ?? []);
+    } catch (error) {
+        if (isUnauthorized(error)) {
+            expireSession('Your Google session expired. Sign in again to choose a folder.');
+            return;
+        }
+        console.error('Drive Folders Error:', error);
+        showStatus('Could not list your Drive folders.', 'error');
+    }
+}
+
+function handleDriveTargetChange() {
+    driveTarget = {
+        folderId: driveFolderSelect.value,
+        folderName: driveFolderSelect.selectedOptions[0]?.textContent ?? '',
+        fileName: driveFileNameInput.value.trim() || DEFAULT_DRIVE_TARGET.fileName,
+    };
+    saveSetting('drive-target', driveTarget);
+}
+
+async function createDriveFolder() {
+    const name = driveNewFolderInput.value.trim();
+    if (!name) {
+        showStatus('Enter a name for the new folder.', 'error');
+        return;
+    }
+    setButtonLoadingState(driveCreateFolderButton, true);
+    try {
+        const parent = driveFolderSelect.value;
+        const response = await gapi.client.drive.files.create({
+            resource: { name, mimeType: FOLDER_MIME_TYPE, ...(parent ? { parents: [parent] } : {}) },
+            fields: 'id, name',
+        });
+        driveTarget = { ...driveTarget, folderId: response.result.id, folderName: response.result.name };
+        saveSetting('drive-target', driveTarget);
+        driveNewFolderInput.value = '';
+        await loadDriveFolders();
+    } catch (error) {
+        if (isUnauthorized(error)) {
+            expireSession('Your Google session expired. Sign in again to create the folder.');
+            return;
+        }
+        console.error('Drive Folder Error:', error);
+        showStatus('Could not create the Drive folder.', 'error');
+    } finally {
+        setButtonLoadingState(driveCreateFolderButton, false);
+    }
+}
+
+/** Uploads the CSV, as a new revision of the file when the folder already has one by that name. */
+async function uploadToDrive(target: DriveTarget, content: string): Promise<{ url: string; revision: boolean }> {
+    const existing = await gapi.client.drive.files.list({ q: fileLookupQuery(target), fields: 'files(id)', pageSize: 1 });
+    const fileId: string | undefined = existing.result.files?.[0]?.id;
+    const metadata = fileId
+        ? { mimeType: 'text/csv' }
+        : { name: target.fileName, mimeType: 'text/csv', ...(target.folderId ? { parents: [target.folderId] } : {}) };
+    const { body, contentType } = buildMultipartBody(metadata, content, 'text/csv');
+    const response = await gapi.client.request({
+        path: fileId ? `/upload/drive/v3/files/${encodeURIComponent(fileId)}` : '/upload/drive/v3/files',
+        method: fileId ? 'PATCH' : 'POST',
+        params: { uploadType: 'multipart', fields: 'id, webViewLink' },
+        headers: { 'Content-Type': contentType },
+        body,
+    });
+    return { url: response.result.webViewLink, revision: !!fileId };
+}
+
+async function saveToDrive() {
+    handleDriveTargetChange();
+    const items = currentBusinesses.map(withScore);
+    const content = toCsv(items, getSelectedColumns(items));
+    const target = driveTarget;
+    setButtonLoadingState(driveSaveButton, true);
+    try {
+        await runGoogleSave('the Drive save', async () => {
+            const { url, revision } = await uploadToDrive(target, content);
+            hideDriveModal();
+            recordSave({ kind: 'drive', name: target.fileName, url, detail: revision ? 'New revision' : 'New file', savedAt: Date.now() });
+            const place = target.folderId ? `"${escapeHTML(target.folderName)}"` : 'My Drive';
+            showStatus(`${revision ? 'Updated' : 'Saved'} "${escapeHTML(target.fileName)}" in ${place}. <a href="${escapeHTML(url)}" target="_blank" rel="noopener noreferrer">Open in Drive</a>.`, 'success');
+        });
+    } catch (error) {
+        console.error('Save to Drive Error:', error);
+        showStatus('Failed to save CSV to Google Drive.', 'error');
+    } finally {
+        setButtonLoadingState(driveSaveButton, false);
+    }
+}
+
+const SAVE_KIND_LABELS: Record<SaveKind, string> = { sheets: 'Sheets', drive: 'Drive' };
+
+function recordSave(record: SaveRecord) {
+    saveHistory = addSaveRecord(saveHistory, record);
+    saveSetting('save-history', saveHistory);
+    renderSaveHistory();
+}
+
+function renderSaveHistory() {
+    saveHistoryContainer.classList.toggle('hidden', saveHistory.length === 0);
+    saveHistoryList.innerHTML = saveHistory.map(record => `
+        <li class="save-history-entry">
+            <a href="${escapeHTML(record.url)}" target="_blank" rel="noopener noreferrer">${SAVE_KIND_LABELS[record.kind]}: ${escapeHTML(record.name)}</a>
+            <span>${new Date(record.savedAt).toLocaleString()} · ${escapeHTML(record.detail)}</span>
+        </li>`).join('');
+}
+
+function clearSaveHistory() {
+    saveHistory = [];
+    saveSetting('save-history', saveHistory);
+    renderSaveHistory();
+}
+
+
+// --- Modal ---
+function showDetailsModal(business: Lead) {
+    detailsLeadId = business.id;
+    modalBusinessName.textContent = business.name;
+    const socialLinks = renderSocialLinks(business);
+
+    modalBody.innerHTML = `
+        <p><strong>Address:</strong> ${escapeHTML(business.address)}</p>
+        ${business.rating !== null ? `<p><strong>Rating:</strong> ${business.rating} / 5 ★</p>` : ''}
+        ${renderScoreBreakdown(getScore(business))}
+        <p>${escapeHTML(business.summary)}</p>
+        <p><strong>Phone:</strong> ${escapeHTML(business.phone) || 'N/A'}</p>
+        <p><strong>Website:</strong> ${business.website ? `<a href="${escapeHTML(business.website)}" target="_blank" rel="noopener noreferrer">${escapeHTML(business.website)}</a>` : 'N/A'}</p>
+        <p><strong>Social Media:</strong> ${socialLinks}</p>
+        ${business.queries.length > 0 ? `<p><strong>Found By:</strong> ${escapeHTML(business.queries.join('; '))}</p>` : ''}
+        <div class="enrichment-section">
+            <div class="enrichment-header">
+                <h4>Researched Details</h4>
+                <button type="button" id="enrich-lead-button" class="secondary-button"><span class="button-text">ENRICH</span></button>
+            </div>
+            ${renderEnrichment(business) || '<p class="control-group-description">Look up opening hours, owner, contact email, size, price tier, years in business and more profiles.</p>'}
+            ${lastEnrichedAt(business.enrichment) ? `<p class="last-touched">Last enriched ${new Date(lastEnrichedAt(business.enrichment)!).toLocaleString()}</p>` : ''}
+        </div>
+        <div class="enrichment-section">
+            <div class="enrichment-header">
+                <h4>Outreach Draft</h4>
+                <select id="outreach-lead-channel-select" aria-label="Channel">${renderChannelOptions(loadSetting('outreach-channel', 'email'))}</select>
+                <button type="button" id="outreach-lead-button" class="secondary-button"><span class="button-text">DRAFT</span></button>
+            </div>
+            <div class="outreach-draft"></div>
+        </div>
+        <div class="verification-details">${renderVerificationDetails(business)}</div>
+        ${renderWarnings(business)}
+        ${renderSources(business)}
+        <form class="lead-editor">
+            <div class="input-wrapper">
+                <label for="lead-stage-select">Pipeline Stage</label>
+                <select id="lead-stage-select">
+                    ${PIPELINE_STAGES.map(stage => `<option value="${stage}" ${stage === business.stage ? 'selected' : ''}>${stage.charAt(0).toUpperCase() + stage.slice(1)}</option>`).join('')}
+                </select>
+            </div>
+            <div class="input-wrapper">
+                <label for="lead-tags-input">Tags (comma separated)</label>
+                <input type="text" id="lead-tags-input" value="${escapeHTML(business.tags.join(', '))}" placeholder="e.g., hot, follow-up">
+            </div>
+            <div class="input-wrapper">
+                <label for="lead-notes-input">Notes</label>
+                <textarea id="lead-notes-input" placeholder="Call notes, contact names, next steps...">${escapeHTML(business.notes)}</textarea>
+            </div>
+            <button type="submit"><span class="button-text">Save Lead</span></button>
+        </form>
+        <p class="last-touched">Last touched ${new Date(business.lastTouched).toLocaleString()}</p>
+    `;
+    const enrichButton = modalBody.querySelector('#enrich-lead-button') as HTMLButtonElement;
+    enrichButton.addEventListener('click', () => enrichLead(business, enrichButton));
+    const channelSelect = modalBody.querySelector('#outreach-lead-channel-select') as HTMLSelectElement;
+    const draftButton = modalBody.querySelector('#outreach-lead-button') as HTMLButtonElement;
+    const draftContainer = modalBody.querySelector('.outreach-draft') as HTMLDivElement;
+    renderOutreachDraft(business, draftContainer, channelSelect.value as OutreachChannel);
+    channelSelect.addEventListener('change', () => {
+        saveSetting('outreach-channel', channelSelect.value);
+        renderOutreachDraft(business, draftContainer, channelSelect.value as OutreachChannel);
+    });
+    draftButton.addEventListener('click', () => draftOutreach(business, channelSelect.value as OutreachChannel, draftButton, draftContainer));
+    const editor = modalBody.querySelector('.lead-editor') as HTMLFormElement;
+    editor.addEventListener('submit', (e) => {
+        e.preventDefault();
+        updateLead(business, {
+            stage: (modalBody.querySelector('#lead-stage-select') as HTMLSelectElement).value as PipelineStage,
+            tags: parseTags((modalBody.querySelector('#lead-tags-input') as HTMLInputElement).value),
+            notes: (modalBody.querySelector('#lead-notes-input') as HTMLTextAreaElement).value.trim(),
+        });
+        hideDetailsModal();
+    });
+    detailsModal.classList.remove('hidden');
+    syncUrl();
+}
+
+async function updateLead(lead: Lead, changes: Partial<Pick<Lead, 'stage' | 'notes' | 'tags'>>) {
+    Object.assign(lead, changes, { lastTouched: Date.now() });
+    filterAndRenderResults();
+    if (await persistLeads([lead])) {
+        showStatus(`Updated ${escapeHTML(lead.name)}.`, 'success');
+    }
+}
+
+function hideDetailsModal() {
+    detailsModal.classList.add('hidden');
+    detailsLeadId = null;
+    syncUrl();
+}
+
+// --- Event Listeners ---
+aiSearchButton.addEventListener('click', handleAiSearch);
+streamStopButton.addEventListener('click', stopStreamedSearch);
+deepSearchCancelButton.addEventListener('click', cancelDeepSearch);
+[batchTypesInput, batchLocationsInput].forEach(input => input.addEventListener('input', updateBatchPreview));
+batchRunButton.addEventListener('click', startBatch);
+batchResumeButton.addEventListener('click', resumeBatch);
+batchCancelButton.addEventListener('click', cancelBatch);
+batchJobsList.addEventListener('click', handleBatchJobClick);
+[providerSelect, modelInput, temperatureInput, baseUrlInput, providerApiKeyInput].forEach(input => input.addEventListener('change', handleProviderSettingsChange));
+importFileInput.addEventListener('change', handleImportFile);
+enrichSelectedButton.addEventListener('click', enrichSelectedLeads);
+outreachButton.addEventListener('click', showOutreachModal);
+analyticsButton.addEventListener('click', toggleAnalytics);
+analyticsCloseButton.addEventListener('click', toggleAnalytics);
+marketSummaryButton.addEventListener('click', requestMarketSummary);
+analyticsPngButton.addEventListener('click', exportAnalyticsPng);
+analyticsHtmlButton.addEventListener('click', exportAnalyticsHtml);
+planRouteButton.addEventListener('click', planSelectedRoute);
+saveSearchButton.addEventListener('click', saveCurrentSearch);
+savedSearchesList.addEventListener('click', handleSavedSearchClick);
+changesList.addEventListener('click', handleChangeRowClick);
+changesExportButton.addEventListener('click', exportChangeReport);
+changesCloseButton.addEventListener('click', clearChanges);
+selectAllButton.addEventListener('click', selectAllShown);
+selectNoneButton.addEventListener('click', selectNone);
+bulkTagButton.addEventListener('click', tagSelectedLeads);
+bulkTagInput.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') tagSelectedLeads();
+});
+bulkStageSelect.addEventListener('change', setSelectedStage);
+bulkExportButton.addEventListener('click', exportSelectedLeads);
+bulkSheetsButton.addEventListener('click', () => showSheetsModal(true));
+bulkDeleteButton.addEventListener('click', deleteSelectedLeads);
+triageButton.addEventListener('click', () => triageIndex === null ? startTriage() : stopTriage());
+triageExitButton.addEventListener('click', stopTriage);
+routeStartSelect.addEventListener('change', () => updateRouteSettings({ start: routeStartSelect.value as RouteSettings['start'] }));
+routeReturnCheckbox.addEventListener('change', () => updateRouteSettings({ returnToStart: routeReturnCheckbox.checked }));
+routeGpxButton.addEventListener('click', exportRouteGpx);
+routeClearButton.addEventListener('click', clearRoute);
+routeStopsList.addEventListener('click', handleRouteStopClick);
+[geocoderUrlInput, maxOffsetInput, checkReachabilityCheckbox, autoVerifyCheckbox].forEach(input => input.addEventListener('change', handleVerificationSettingsChange));
+verifyButton.addEventListener('click', verifyResults);
+[cacheTtlInput, dailyBudgetInput].forEach(input => input.addEventListener('change', handleUsageSettingsChange));
+clearCacheButton.addEventListener('click', clearCache);
+outreachCloseButton.addEventListener('click', hideOutreachModal);
+outreachModal.addEventListener('click', (e) => {
+    if (e.target === outreachModal) {
+        hideOutreachModal();
+    }
+});
+outreachTemplateForm.addEventListener('change', handleOutreachTemplateInput);
+outreachTemplateForm.addEventListener('submit', (e) => e.preventDefault());
+outreachTemplateSelect.addEventListener('change', selectOutreachTemplate);
+outreachSaveAsButton.addEventListener('click', saveOutreachTemplateAs);
+outreachDeleteButton.addEventListener('click', deleteOutreachTemplate);
+outreachChannelSelect.addEventListener('change', () => {
+    saveSetting('outreach-channel', outreachChannelSelect.value);
+    updateOutreachSelectionNote();
+});
+outreachDraftButton.addEventListener('click', draftSelectedOutreach);
+outreachCsvButton.addEventListener('click', exportMailMerge);
+outreachEmlButton.addEventListener('click', exportEmlFiles);
+importCloseButton.addEventListener('click', hideImportModal);
+importModal.addEventListener('click', (e) => {
+    if (e.target === importModal) {
+        hideImportModal();
+    }
+});
+importConfirmButton.addEventListener('click', confirmImport);
+importEnrichButton.addEventListener('click', enrichImportedLeads);
+importApplyButton.addEventListener('click', applyEnrichment);
+exportButton.addEventListener('click', showExportModal);
+exportCloseButton.addEventListener('click', hideExportModal);
+exportModal.addEventListener('click', (e) => {
+    if (e.target === exportModal) {
+        hideExportModal();
+    }
+});
+exportModal.addEventListener('change', handleExportOptionsChange);
+exportColumnsList.addEventListener('click', handleExportColumnClick);
+exportDownloadButton.addEventListener('click', downloadExport);
+saveToSheetsButton.addEventListener('click', () => showSheetsModal(false));
+sheetsCloseButton.addEventListener('click', hideSheetsModal);
+sheetsModal.addEventListener('click', (e) => {
+    if (e.target === sheetsModal) {
+        hideSheetsModal();
+    }
+});
+sheetsSpreadsheetInput.addEventListener('change', () => {
+    handleSheetsTargetChange();
+    loadSheetTabs();
+});
+sheetsTabInput.addEventListener('change', handleSheetsTargetChange);
+sheetsPushButton.addEventListener('click', pushToSheets);
+sheetsPullButton.addEventListener('click', pullFromSheets);
+saveToDriveButton.addEventListener('click', showDriveModal);
+driveCloseButton.addEventListener('click', hideDriveModal);
+driveModal.addEventListener('click', (e) => {
+    if (e.target === driveModal) {
+        hideDriveModal();
+    }
+});
+driveFolderSelect.addEventListener('change', handleDriveTargetChange);
+driveFileNameInput.addEventListener('change', handleDriveTargetChange);
+driveCreateFolderButton.addEventListener('click', createDriveFolder);
+driveSaveButton.addEventListener('click', saveToDrive);
+clearSaveHistoryButton.addEventListener('click', clearSaveHistory);
+renewSessionButton.addEventListener('click', renewSession);
+
+searchInput.addEventListener('input', filterAndRenderResults);
+facetsPanel.addEventListener('click', handleFacetClick);
+outsideAreaCheckbox.addEventListener('change', filterAndRenderResults);
+sortSelect.addEventListener('change', handleSortChange);
+sortDirectionButton.addEventListener('click', toggleSortDirection);
+scoringRulesButton.addEventListener('click', showScoringModal);
+scoringCloseButton.addEventListener('click', hideScoringModal);
+scoringModal.addEventListener('click', (e) => {
+    if (e.target === scoringModal) {
+        hideScoringModal();
+    }
+});
+scoringRulesList.addEventListener('change', handleRuleInput);
+scoringRulesList.addEventListener('click', handleRuleClick);
+scoringProfileSelect.addEventListener('change', selectScoringProfile);
+scoringSaveAsButton.addEventListener('click', saveScoringProfileAs);
+scoringDeleteButton.addEventListener('click', deleteScoringProfile);
+addRuleButton.addEventListener('click', addScoringRule);
+drawButtons.forEach(button => button.addEventListener('click', () => beginDrawing(button.dataset.kind as SearchBoundary['kind'])));
+markerColorSelect.addEventListener('change', () => updateMapSettings({ colorBy: markerColorSelect.value as MapSettings['colorBy'] }));
+clusterCheckbox.addEventListener('change', () => updateMapSettings({ cluster: clusterCheckbox.checked }));
+heatmapCheckbox.addEventListener('change', () => updateMapSettings({ heatmap: heatmapCheckbox.checked }));
+boxSelectButton.addEventListener('click', () => startMapSelection('box'));
+lassoSelectButton.addEventListener('click', () => startMapSelection('lasso'));
+clearAreaButton.addEventListener('click', clearSearchBoundary);
+territorySelect.addEventListener('change', applyTerritory);
+stageFilterSelect.addEventListener('change', filterAndRenderResults);
+viewSelect.addEventListener('change', showCurrentView);
+
+modalCloseButton.addEventListener('click', hideDetailsModal);
+runSearchButton.addEventListener('click', handleAiSearch);
+reviewDuplicatesButton.addEventListener('click', showDedupeModal);
+dedupeApplyButton.addEventListener('click', applyDuplicateReview);
+dedupeCloseButton.addEventListener('click', hideDedupeModal);
+dedupeModal.addEventListener('click', (e) => {
+    if (e.target === dedupeModal) {
+        hideDedupeModal();
+    }
+});
+detailsModal.addEventListener('click', (e) => {
+    if (e.target === detailsModal) {
+        hideDetailsModal();
+    }
+});
+// Registered first so Escape closing a modal does not also end triage.
+document.addEventListener('keydown', handleTriageKey);
+document.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape' && cancelDrawing) {
+        stopDrawing();
+    }
+    if (e.key === 'Escape' && cancelMapSelection) {
+        stopMapSelection();
+    }
+    if (e.key === 'Escape' && cancelRouteStartPick) {
+        stopRouteStartPick();
+    }
+    if (e.key === 'Escape' && !detailsModal.classList.contains('hidden')) {
+        hideDetailsModal();
+    }
+    if (e.key === 'Escape' && !dedupeModal.classList.contains('hidden')) {
+        hideDedupeModal();
+    }
+    if (e.key === 'Escape' && !scoringModal.classList.contains('hidden')) {
+        hideScoringModal();
+    }
+    if (e.key === 'Escape' && !importModal.classList.contains('hidden')) {
+        hideImportModal();
+    }
+    if (e.key === 'Escape' && !exportModal.classList.contains('hidden')) {
+        hideExportModal();
+    }
+    if (e.key === 'Escape' && !sheetsModal.classList.contains('hidden')) {
+        hideSheetsModal();
+    }
+    if (e.key === 'Escape' && !driveModal.classList.contains('hidden')) {
+        hideDriveModal();
+    }
+    if (e.key === 'Escape' && !outreachModal.classList.contains('hidden')) {
+        hideOutreachModal();
+    }
+});
+
+window.addEventListener('popstate', () => applyUrlState(parseQueryString(location.search)));
+
+googleClientIdInput.addEventListener('input', () => {
+    saveSetting('google-client-id', googleClientIdInput.value.trim());
+    const button = document.getElementById('authorize-button') as HTMLButtonElement;
+    if (button) {
+        button.disabled = !googleClientIdInput.value.trim();
+    }
+});
+
+
+// --- App Initialization ---
+function init() {
+    googleClientIdInput.value = loadSetting('google-client-id', '');
+
+    // Load Google authentication scripts dynamically to prevent race conditions
+    const gapiScript = document.createElement('script');
+    gapiScript.src = 'https://apis.google.com/js/api.js';
+    gapiScript.async = true;
+    gapiScript.onload = () => gapi.load('client', initializeGapiClient);
+    document.body.appendChild(gapiScript);
+
+    const gisScript = document.createElement('script');
+    gisScript.src = 'https://accounts.google.com/gsi/client';
+    gisScript.async = true;
     gisScript.onload = () => {
         gisInited = true;
         maybeEnableAuth();
     };
     document.body.appendChild(gisScript);
+
+    renderProviderSettings();
+    renderSortOptions();
+    restoreBatch();
+    renderRoutePanel();
+    renderVerificationSettings();
+    renderUsage();
+    renderSavedSearches();
+    renderSaveHistory();
+    // Read the link before restoring the workspace rewrites the URL; it names
+    // leads and searches that only exist once the workspace has loaded.
+    const linkedState = location.search ? parseQueryString(location.search) : null;
+    restoreWorkspace().then(() => {
+        if (linkedState) applyUrlState(linkedState);
+    });
 }
 
 init();
\ No newline at end of file
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { createArrayItemParser } from './jsonstream.ts';
+
+function parseInChunks(text: string, size: number): unknown[] {
+    const items: unknown[] = [];
+    const parser = createArrayItemParser(item => items.push(item));
+    for (let i = 0; i < text.length; i += size) parser.push(text.slice(i, i + size));
+    return items;
+}
+
+describe('createArrayItemParser', () => {
+    const response = '[{"name":"Blue Bottle","tags":["coffee","local"]},{"name":"Say \\"Hi\\" [Cafe]","rating":4.5}]';
+    const expected = [
+        { name: 'Blue Bottle', tags: ['coffee', 'local'] },
+        { name: 'Say "Hi" [Cafe]', rating: 4.5 },
+    ];
+
+    it('hands over each element however the text is split', () => {
+        [1, 3, 7, response.length].forEach(size => {
+            expect(parseInChunks(response, size)).toEqual(expected);
+        });
+    });
+
+    it('emits an element as soon as it closes', () => {
+        const items: unknown[] = [];
+        const parser = createArrayItemParser(item => items.push(item));
+        parser.push('[{"name":"A"},{"na');
+        expect(items).toEqual([{ name: 'A' }]);
+        expect(parser.count).toBe(1);
+        parser.push('me":"B"}]');
+        expect(items).toEqual([{ name: 'A' }, { name: 'B' }]);
+    });
+
+    it('skips a code fence and a wrapper object around the array', () => {
+        expect(parseInChunks('```json\n{"results": [{"id": 1}, {"id": 2}]}\n```', 5)).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it('ignores everything after the array closes', () => {
+        expect(parseInChunks('[{"id":1}] [{"id":2}]', 4)).toEqual([{ id: 1 }]);
+    });
+
+    it('skips elements that do not parse and keeps going', () => {
+        const parser = createArrayItemParser(() => {});
+        parser.push('[{"id":1,},{"id":2}]');
+        expect(parser.count).toBe(1);
+    });
+});
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface ArrayItemParser {
+    /** Feeds the next piece of response text. */
+    push(chunk: string): void;
+    /** Elements handed to `onItem` so far. */
+    readonly count: number;
+}
+
+function tryParse(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        // Malformed element; the final parse of the whole response reports it.
+        return undefined;
+    }
+}
+
+/**
+ * Incremental parser for a JSON array of objects arriving in pieces of any
+ * size. Each element is handed to `onItem` as soon as its closing bracket
+ * arrives. Text before the first array (a code fence, or the wrapper object
+ * some providers put around it) is skipped, as is everything after the array
+ * closes. Elements that do not parse are skipped; the complete response is
+ * parsed again at the end anyway.
+ */
+export function createArrayItemParser(onItem: (item: unknown) => void): ArrayItemParser {
+    let depth = 0;
+    // Depth just inside the item array; zero until its opening bracket.
+    let arrayDepth = 0;
+    let closed = false;
+    let inString = false;
+    let escaped = false;
+    let item: string | null = null;
+    let count = 0;
+
+    const visit = (char: string) => {
+        if (item !== null) item += char;
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+            return;
+        }
+        if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            depth++;
+            if (!arrayDepth && char === '[') arrayDepth = depth;
+            else if (arrayDepth && depth === arrayDepth + 1 && item === null) item = char;
+        } else if (char === '}' || char === ']') {
+            depth--;
+            if (item !== null && depth === arrayDepth) {
+                const value = tryParse(item);
+                item = null;
+                if (value !== undefined) {
+                    count++;
+                    onItem(value);
+                }
+            } else if (arrayDepth && depth < arrayDepth) {
+                closed = true;
+            }
+        }
+    };
+
+    return {
+        push(chunk) {
+            for (const char of chunk) {
+                if (closed) return;
+                visit(char);
+            }
+        },
+        get count() {
+            return count;
+        },
+    };
+}
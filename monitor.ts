@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Business, normalizeAddress, normalizeName } from './business.ts';
+import { CellValue, toCsvTable } from './export.ts';
+import { haversineKm } from './geo.ts';
+import { SearchParams } from './search.ts';
+
+// --- Types ---
+
+/** A search kept for re-running later, e.g. to check a territory every week. */
+export interface SavedSearch {
+    id: string;
+    name: string;
+    params: SearchParams;
+    deep: boolean;
+    /** The result filters in place when it was saved. */
+    filters: { query: string; stage: string; insideArea: boolean };
+    createdAt: number;
+    lastRunAt: number;
+    /** Counts from the diff of the latest run against the one before. */
+    lastCounts: ChangeCounts | null;
+}
+
+/** The fields of a result that the diff compares. */
+export type SnapshotEntry = Pick<Business, 'id' | 'name' | 'address' | 'phone' | 'website' | 'rating' | 'lat' | 'lng' | 'socialMedia'>;
+
+/** The results of one run of a saved search. */
+export interface Snapshot {
+    id: string;
+    savedSearchId: string;
+    ranAt: number;
+    entries: SnapshotEntry[];
+}
+
+export type ChangeKind = 'new' | 'gone' | 'changed';
+
+export interface FieldChange {
+    field: string;
+    label: string;
+    before: string;
+    after: string;
+}
+
+export interface LeadChange {
+    /** The lead's id in the latest run, or in the earlier one for leads that are gone. */
+    id: string;
+    kind: ChangeKind;
+    entry: SnapshotEntry;
+    fields: FieldChange[];
+}
+
+export type ChangeCounts = Record<ChangeKind, number>;
+
+export interface SnapshotDiff {
+    fromRanAt: number;
+    toRanAt: number;
+    changes: LeadChange[];
+    counts: ChangeCounts;
+}
+
+// --- Snapshots ---
+
+/** Snapshots kept per saved search; older ones are pruned. */
+export const MAX_SNAPSHOTS = 12;
+// Smaller rating moves are noise between two model answers.
+const RATING_CHANGE_MIN = 0.3;
+// Two same-named results this close together are the same place.
+const SAME_PLACE_KM = 0.15;
+
+export function takeSnapshot(savedSearchId: string, leads: Business[], ranAt: number = Date.now()): Snapshot {
+    return {
+        id: `snapshot_${savedSearchId}_${ranAt}`,
+        savedSearchId,
+        ranAt,
+        entries: leads.map(({ id, name, address, phone, website, rating, lat, lng, socialMedia }) =>
+            ({ id, name, address, phone, website, rating, lat, lng, socialMedia: { ...socialMedia } })),
+    };
+}
+
+// --- Diffing ---
+
+const comparable = {
+    phone: (value: string) => value.replace(/\D/g, ''),
+    url: (value: string) => value.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/\/+$/, ''),
+};
+
+function diffText(field: string, label: string, before: string, after: string, normalize: (value: string) => string): FieldChange[] {
+    if (normalize(before) === normalize(after)) return [];
+    return [{ field, label, before, after }];
+}
+
+function diffEntries(before: SnapshotEntry, after: SnapshotEntry): FieldChange[] {
+    const changes = [
+        ...diffText('website', 'Website', before.website, after.website, comparable.url),
+        ...diffText('phone', 'Phone', before.phone, after.phone, comparable.phone),
+        ...diffText('address', 'Address', before.address, after.address, normalizeAddress),
+    ];
+    if (before.rating !== null && after.rating !== null && Math.abs(after.rating - before.rating) >= RATING_CHANGE_MIN - 1e-9) {
+        changes.push({ field: 'rating', label: 'Rating', before: String(before.rating), after: String(after.rating) });
+    }
+    const platforms = new Set([...Object.keys(before.socialMedia), ...Object.keys(after.socialMedia)]);
+    platforms.forEach(platform => {
+        const label = platform.charAt(0).toUpperCase() + platform.slice(1);
+        changes.push(...diffText(`socialMedia.${platform}`, label, before.socialMedia[platform] ?? '', after.socialMedia[platform] ?? '', comparable.url));
+    });
+    return changes;
+}
+
+// Lead ids are derived from the phone number, so a business whose number
+// changed comes back under a new id; match it by name and place instead.
+function isSamePlace(a: SnapshotEntry, b: SnapshotEntry): boolean {
+    if (normalizeName(a.name) !== normalizeName(b.name)) return false;
+    if (a.lat !== null && a.lng !== null && b.lat !== null && b.lng !== null) {
+        return haversineKm({ lat: a.lat, lng: a.lng }, { lat: b.lat, lng: b.lng }) <= SAME_PLACE_KM;
+    }
+    return normalizeAddress(a.address) === normalizeAddress(b.address);
+}
+
+/**
+ * What changed between two runs: businesses that are new, ones that were
+ * not found again (possibly closed), and changed contact details or ratings.
+ * Unchanged businesses are left out.
+ */
+export function diffSnapshots(previous: Snapshot, current: Snapshot): SnapshotDiff {
+    const unmatched = new Map(previous.entries.map(entry => [entry.id, entry]));
+    const changes: LeadChange[] = [];
+    const added: SnapshotEntry[] = [];
+
+    current.entries.forEach(entry => {
+        const before = unmatched.get(entry.id);
+        if (!before) {
+            added.push(entry);
+            return;
+        }
+        unmatched.delete(entry.id);
+        const fields = diffEntries(before, entry);
+        if (fields.length > 0) changes.push({ id: entry.id, kind: 'changed', entry, fields });
+    });
+    added.forEach(entry => {
+        const before = [...unmatched.values()].find(candidate => isSamePlace(candidate, entry));
+        if (!before) {
+            changes.push({ id: entry.id, kind: 'new', entry, fields: [] });
+            return;
+        }
+        unmatched.delete(before.id);
+        const fields = diffEntries(before, entry);
+        if (fields.length > 0) changes.push({ id: entry.id, kind: 'changed', entry, fields });
+    });
+    unmatched.forEach(entry => changes.push({ id: entry.id, kind: 'gone', entry, fields: [] }));
+
+    const counts: ChangeCounts = { new: 0, gone: 0, changed: 0 };
+    changes.forEach(change => counts[change.kind]++);
+    return { fromRanAt: previous.ranAt, toRanAt: current.ranAt, changes, counts };
+}
+
+export function describeChange(change: LeadChange): string {
+    switch (change.kind) {
+        case 'new':
+            return 'New since the last run';
+        case 'gone':
+            return 'Not found this run; it may have closed';
+        case 'changed':
+            return change.fields.map(field => `${field.label}: ${field.before || 'none'} → ${field.after || 'none'}`).join('; ');
+    }
+}
+
+// --- Change Report ---
+
+export const CHANGE_LABELS: Record<ChangeKind, string> = { new: 'New', changed: 'Changed', gone: 'Gone' };
+
+/** The diff as CSV, one row per changed field and one per new or gone business. */
+export function toChangeReportCsv(diff: SnapshotDiff, searchName: string): string {
+    const rows: CellValue[][] = [];
+    diff.changes.forEach(({ id, kind, entry, fields }) => {
+        const base = [searchName, CHANGE_LABELS[kind], entry.name, entry.address];
+        if (fields.length === 0) {
+            rows.push([...base, '', '', '', id]);
+            return;
+        }
+        fields.forEach(field => rows.push([...base, field.label, field.before, field.after, id]));
+    });
+    return toCsvTable(['Saved Search', 'Change', 'Name', 'Address', 'Field', 'Before', 'After', 'Lead ID'], rows);
+}
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Business } from './business.ts';
+import { ExportColumn, toCsv } from './export.ts';
+import { JsonSchema } from './providers/index.ts';
+import { LeadMeta } from './workspace.ts';
+
+// --- Types ---
+
+export type OutreachChannel = 'email' | 'dm' | 'call';
+
+export interface OutreachTemplate {
+    id: string;
+    name: string;
+    senderName: string;
+    /** What we offer, in a sentence or two. */
+    pitch: string;
+    tone: string;
+    /** Extra instructions; {{variables}} are filled from the lead first. */
+    guidance: string;
+}
+
+export interface OutreachDraft {
+    channel: OutreachChannel;
+    /** Only used for email. */
+    subject: string;
+    body: string;
+    generatedAt: number;
+    /** Set once a rep has changed the generated text. */
+    edited: boolean;
+}
+
+/** The lead data outreach needs; any Lead satisfies it. */
+export type OutreachLead = Business & Partial<Pick<LeadMeta, 'enrichment' | 'outreach'>>;
+
+// --- Constants ---
+
+export const OUTREACH_CHANNELS: { id: OutreachChannel; label: string }[] = [
+    { id: 'email', label: 'Email' },
+    { id: 'dm', label: 'Instagram / social DM' },
+    { id: 'call', label: 'Call script' },
+];
+
+export const TEMPLATE_VARIABLES = ['name', 'address', 'rating', 'website', 'summary', 'instagram', 'owner', 'senderName', 'pitch'];
+
+export const DEFAULT_OUTREACH_TEMPLATE: OutreachTemplate = {
+    id: 'default',
+    name: 'Website intro',
+    senderName: '',
+    pitch: 'We build fast, mobile-friendly websites for local businesses and handle hosting and updates for a flat monthly fee.',
+    tone: 'Friendly, concise and specific; no hype.',
+    guidance: 'Mention something specific about {{name}} from its summary or rating. If it has no website, lead with that. End with a low-pressure question.',
+};
+
+export const OUTREACH_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        subject: { type: 'string', description: 'Email subject line; empty for other channels.' },
+        body: { type: 'string' },
+    },
+    required: ['body'],
+};
+
+const CHANNEL_INSTRUCTIONS: Record<OutreachChannel, string> = {
+    email: 'Write a cold email of at most 120 words with a short, specific subject line. Sign it with the sender name if one is given.',
+    dm: 'Write an Instagram direct message of at most 60 words. No subject line, no sign-off, at most one emoji.',
+    call: 'Write a phone call script: a one-line opener, two or three discovery questions, the pitch in one sentence, and a closing ask. Use short lines a rep can read aloud. No subject line.',
+};
+
+// --- Templates ---
+
+export function templateVariables(lead: OutreachLead, template: OutreachTemplate): Record<string, string> {
+    return {
+        name: lead.name,
+        address: lead.address,
+        rating: lead.rating !== null ? String(lead.rating) : '',
+        website: lead.website,
+        summary: lead.summary,
+        instagram: lead.socialMedia.instagram ?? '',
+        owner: String(lead.enrichment?.owner?.value ?? ''),
+        senderName: template.senderName,
+        pitch: template.pitch,
+    };
+}
+
+/** Replaces {{variable}} placeholders; unknown variables are left as written. */
+export function fillTemplate(text: string, variables: Record<string, string>): string {
+    return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => (key in variables ? variables[key] : match));
+}
+
+export function buildOutreachPrompt(lead: OutreachLead, template: OutreachTemplate, channel: OutreachChannel): string {
+    const variables = templateVariables(lead, template);
+    const facts = [
+        `Business: ${lead.name}`,
+        lead.address && `Address: ${lead.address}`,
+        lead.summary && `About: ${lead.summary}`,
+        lead.rating !== null && `Customer rating: ${lead.rating} / 5`,
+        lead.website ? `Website: ${lead.website}` : 'Website: none found',
+        ...Object.entries(lead.socialMedia).filter(([, url]) => url).map(([platform, url]) => `${platform}: ${url}`),
+        variables.owner && `Owner: ${variables.owner}`,
+    ].filter(Boolean).join('\n');
+    return [
+        'You write personalized sales outreach for a small business prospect.',
+        '',
+        facts,
+        '',
+        `What we offer: ${template.pitch}`,
+        `Tone: ${template.tone}`,
+        template.senderName ? `Sender name: ${template.senderName}` : null,
+        template.guidance ? `Guidance: ${fillTemplate(template.guidance, variables)}` : null,
+        '',
+        CHANNEL_INSTRUCTIONS[channel],
+        'Only use facts given above; never invent details about the business.',
+    ].filter(line => line !== null).join('\n');
+}
+
+export function parseOutreachDraft(raw: unknown, channel: OutreachChannel, now: number = Date.now()): OutreachDraft | null {
+    if (!raw || typeof raw !== 'object') return null;
+    const { subject, body } = raw as Record<string, unknown>;
+    if (typeof body !== 'string' || !body.trim()) return null;
+    return {
+        channel,
+        subject: channel === 'email' && typeof subject === 'string' ? subject.trim() : '',
+        body: body.trim(),
+        generatedAt: now,
+        edited: false,
+    };
+}
+
+// --- Export ---
+
+const contactEmail = (lead: OutreachLead): string => String(lead.enrichment?.email?.value ?? '');
+
+/** One row per lead, ready for a mail-merge tool; the body keeps its line breaks. */
+export function toMailMergeCsv(leads: OutreachLead[], channel: OutreachChannel): string {
+    const columns: ExportColumn[] = [
+        { id: 'name', label: 'Business', value: b => b.name },
+        { id: 'owner', label: 'Contact Name', value: b => String(b.enrichment?.owner?.value ?? '') },
+        { id: 'email', label: 'Email', value: b => contactEmail(b) },
+        { id: 'phone', label: 'Phone', value: b => b.phone },
+        { id: 'instagram', label: 'Instagram', value: b => b.socialMedia.instagram ?? '' },
+        { id: 'subject', label: 'Subject', value: b => b.outreach?.[channel]?.subject ?? '' },
+        { id: 'body', label: 'Message', value: b => b.outreach?.[channel]?.body ?? '' },
+    ];
+    return toCsv(leads.filter(lead => lead.outreach?.[channel]), columns);
+}
+
+// RFC 2047 encoded-word for non-ASCII header values.
+function encodeHeader(value: string): string {
+    if (/^[\x20-\x7e]*$/.test(value)) return value;
+    const bytes = new TextEncoder().encode(value);
+    return `=?UTF-8?B?${btoa(String.fromCharCode(...bytes))}?=`;
+}
+
+const displayName = (name: string): string => {
+    const encoded = encodeHeader(name);
+    return encoded === name ? `"${name.replace(/["\\]/g, '')}"` : encoded;
+};
+
+/**
+ * An unsent email message (RFC 5322). `X-Unsent` makes Outlook open it as
+ * a draft ready to send; other clients show it as a message to forward.
+ */
+export function toEml(lead: OutreachLead, draft: OutreachDraft): string {
+    const email = contactEmail(lead);
+    const headers = [
+        email ? `To: ${displayName(lead.name)} <${email}>` : 'To: ',
+        `Subject: ${encodeHeader(draft.subject)}`,
+        `Date: ${new Date(draft.generatedAt).toUTCString()}`,
+        'X-Unsent: 1',
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding: 8bit',
+    ];
+    const body = draft.body.replace(/\r?\n/g, '\r\n');
+    return `${headers.join('\r\n')}\r\n\r\n${body}\r\n`;
+}
+
+export const emlFileName = (lead: OutreachLead): string =>
+    `${lead.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'lead'}.eml`;
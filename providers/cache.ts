@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { streamJson } from './stream.ts';
+import { GenerateJsonRequest, GenerateJsonResult, LlmProvider } from './types.ts';
+
+export interface CachedResponse {
+    key: string;
+    data: unknown;
+    text: string;
+    storedAt: number;
+}
+
+/** Where cached responses live; the browser app keeps them in IndexedDB. */
+export interface ResponseStore {
+    get(key: string): Promise<CachedResponse | undefined>;
+    put(response: CachedResponse): Promise<void>;
+    /** Removes the responses stored before `storedAt`. */
+    deleteOlderThan(storedAt: number): Promise<void>;
+}
+
+export interface CacheOptions {
+    /** How long a response stays fresh. Zero turns the cache off. */
+    ttlMs: () => number;
+    now?: () => number;
+}
+
+/**
+ * Wraps a provider so requests carrying a `cacheKey` are answered from the
+ * store while fresh. Entries are keyed by provider, server, model and schema
+ * as well, so switching models never returns another model's answer, and
+ * expired entries are deleted whenever a response is stored. Store failures
+ * fall through to the provider rather than failing the request.
+ */
+export function createCachedProvider(inner: LlmProvider, store: ResponseStore, options: CacheOptions): LlmProvider {
+    const now = options.now ?? Date.now;
+
+    async function answer(request: GenerateJsonRequest, call: () => Promise<GenerateJsonResult>, onText?: (chunk: string) => void): Promise<GenerateJsonResult> {
+        const ttlMs = options.ttlMs();
+        if (!request.cacheKey || ttlMs <= 0) return call();
+
+        const key = [inner.id, inner.baseUrl ?? '', inner.model, request.schemaName, request.cacheKey].join('|');
+        if (!request.refresh) {
+            const cached = await store.get(key).catch(() => undefined);
+            if (cached && now() - cached.storedAt < ttlMs) {
+                onText?.(cached.text);
+                return { data: cached.data, text: cached.text, cachedAt: cached.storedAt };
+            }
+        }
+        const result = await call();
+        const storedAt = now();
+        await store.put({ key, data: result.data, text: result.text, storedAt })
+            .then(() => store.deleteOlderThan(storedAt - ttlMs))
+            .catch(error => {
+                console.error('Response Cache Error:', error);
+            });
+        return result;
+    }
+
+    return {
+        id: inner.id,
+        model: inner.model,
+        baseUrl: inner.baseUrl,
+        generateJson: request => answer(request, () => inner.generateJson(request)),
+        // A cached answer is replayed as one chunk. Only complete streams are stored.
+        streamJson: (request, onText) => answer(request, () => streamJson(inner, request, onText), onText),
+    };
+}
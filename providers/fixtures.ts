@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Deterministic stand-ins for model responses, keyed by schema name. Each
+// fixture gets the prompt and a random generator seeded from it, so the same
+// prompt always produces the same response.
+
+export type Fixture = (prompt: string, random: () => number) => unknown;
+
+interface KnownCity {
+    lat: number;
+    lng: number;
+    areaCode: string;
+    zip: number;
+}
+
+const KNOWN_CITIES: Record<string, KnownCity> = {
+    'san francisco': { lat: 37.7749, lng: -122.4194, areaCode: '415', zip: 94102 },
+    'oakland': { lat: 37.8044, lng: -122.2712, areaCode: '510', zip: 94607 },
+    'austin': { lat: 30.2672, lng: -97.7431, areaCode: '512', zip: 78701 },
+    'denver': { lat: 39.7392, lng: -104.9903, areaCode: '303', zip: 80202 },
+    'new york': { lat: 40.7128, lng: -74.0060, areaCode: '212', zip: 10001 },
+    'chicago': { lat: 41.8781, lng: -87.6298, areaCode: '312', zip: 60601 },
+    'seattle': { lat: 47.6062, lng: -122.3321, areaCode: '206', zip: 98101 },
+};
+const DEFAULT_CITY = 'san francisco';
+
+const NAME_PREFIXES = ['Golden', 'Corner', 'Urban', 'Maple', 'Blue Door', 'Sunset', 'Harbor', 'Little', 'Oak & Iron', 'Northside', 'Juniper', 'Copper'];
+const STREETS = ['Main St', 'Market Street', 'Oak Avenue', '2nd St', 'Valencia St', 'Broadway', 'Elm Street', 'Mission Blvd', 'Park Ave', 'Lake Dr'];
+const SUMMARIES = [
+    'A neighborhood favorite known for friendly staff and consistent quality.',
+    'Family-owned spot that has served the area for over a decade.',
+    'Modern space with a loyal local following and weekend crowds.',
+    'Small independent shop with limited online presence.',
+    'Popular with commuters; often busy during weekday mornings.',
+];
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+function findCity(prompt: string): { name: string; city: KnownCity } {
+    const lower = prompt.toLowerCase();
+    const name = Object.keys(KNOWN_CITIES).find(key => lower.includes(key)) ?? DEFAULT_CITY;
+    return { name, city: KNOWN_CITIES[name] };
+}
+
+const titleCase = (value: string): string => value.replace(/\b\w/g, ch => ch.toUpperCase());
+
+function singularType(prompt: string): string {
+    const match = prompt.match(/^Find (.+?) (?:in or near|located)/);
+    const type = (match?.[1] ?? 'shops').trim();
+    return titleCase(type.replace(/ies$/, 'y').replace(/(?<!s)s$/, ''));
+}
+
+const location: Fixture = (prompt) => {
+    const { city } = findCity(prompt);
+    return { lat: city.lat, lng: city.lng };
+};
+
+const businessList: Fixture = (prompt, random) => {
+    const { name: cityName, city } = findCity(prompt);
+    const coordinates = prompt.match(/\((-?\d+\.\d+), (-?\d+\.\d+)\)/);
+    const center = coordinates ? { lat: Number(coordinates[1]), lng: Number(coordinates[2]) } : city;
+    const radiusMiles = Number(prompt.match(/(\d+(?:\.\d+)?) miles?/)?.[1] ?? 5);
+    const spreadDegrees = radiusMiles / 69;
+    const type = singularType(prompt);
+    const count = 6 + Math.floor(random() * 5);
+    const prefixes = [...NAME_PREFIXES].sort(() => random() - 0.5);
+
+    return Array.from({ length: count }, (_, i) => {
+        const prefix = prefixes[i];
+        const slug = `${prefix}${type}`.toLowerCase().replace(/[^a-z0-9]/g, '');
+        const exchange = 200 + Math.floor(random() * 700);
+        const line = String(Math.floor(random() * 10000)).padStart(4, '0');
+        const business: Record<string, unknown> = {
+            name: `${prefix} ${type}`,
+            address: `${100 + Math.floor(random() * 2900)} ${pick(STREETS, random)}, ${titleCase(cityName)}, ${city.zip + Math.floor(random() * 20)}`,
+            phone: `(${city.areaCode}) ${exchange}-${line}`,
+            website: i % 3 === 2 ? '' : `https://www.${slug}.com`,
+            summary: pick(SUMMARIES, random),
+            rating: Math.round((3 + random() * 2) * 10) / 10,
+            lat: center.lat + (random() - 0.5) * spreadDegrees,
+            lng: center.lng + (random() - 0.5) * spreadDegrees,
+            socialMedia: {
+                instagram: i % 2 === 0 ? `https://www.instagram.com/${slug}` : '',
+                facebook: i % 4 === 1 ? `https://www.facebook.com/${slug}` : '',
+            },
+        };
+        // A couple of the quirks real responses have, to exercise normalization.
+        if (i === 4) business.phone = 'N/A';
+        if (i === 5) [business.lat, business.lng] = [business.lng, business.lat];
+        return business;
+    });
+};
+
+// Answers only the fields each line of the prompt lists as missing.
+const fillMissing: Fixture = (prompt, random) => {
+    const lines = [...prompt.matchAll(/^ref: (\d+) \| (.+?) \| (.*?) \| missing: (.*)$/gm)];
+    return lines.map(([, ref, name, address, missing]) => {
+        const { city } = findCity(address);
+        const slug = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+        const answer: Record<string, unknown> = { ref };
+        if (missing.includes('phone')) {
+            answer.phone = `(${city.areaCode}) ${200 + Math.floor(random() * 700)}-${String(Math.floor(random() * 10000)).padStart(4, '0')}`;
+        }
+        if (missing.includes('website') && random() > 0.3) answer.website = `https://www.${slug}.com`;
+        if (missing.includes('summary')) answer.summary = pick(SUMMARIES, random);
+        if (missing.includes('latitude')) {
+            answer.lat = city.lat + (random() - 0.5) * 0.05;
+            answer.lng = city.lng + (random() - 0.5) * 0.05;
+        }
+        if (missing.includes('social')) answer.socialMedia = { instagram: `https://www.instagram.com/${slug}` };
+        return answer;
+    });
+};
+
+const OWNER_NAMES = ['Maria Lopez', 'James Chen', 'Priya Patel', 'Sam Okafor', 'Elena Rossi', 'David Kim'];
+const HOURS = ['Mon–Fri 7am–6pm, Sat–Sun 8am–4pm', 'Tue–Sat 10am–7pm', 'Daily 6am–9pm', 'Mon–Sat 9am–5pm'];
+
+const deepEnrichment: Fixture = (prompt, random) => {
+    const name = prompt.match(/^Name: (.+)$/m)?.[1] ?? 'business';
+    const slug = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const confidence = () => pick(['high', 'medium', 'low'], random);
+    const answer: Record<string, unknown> = {
+        hours: { value: pick(HOURS, random), confidence: 'high' },
+        owner: { value: pick(OWNER_NAMES, random), confidence: confidence() },
+        employeeCount: { value: 3 + Math.floor(random() * 40), confidence: 'low' },
+        priceTier: { value: pick(['$', '$$', '$$$'], random), confidence: 'medium' },
+        yearsInBusiness: { value: 1 + Math.floor(random() * 25), confidence: confidence() },
+        yelp: { value: `https://www.yelp.com/biz/${slug}`, confidence: 'high' },
+    };
+    if (random() > 0.3) answer.email = { value: `hello@${slug}.com`, confidence: 'medium' };
+    if (random() > 0.5) answer.linkedin = { value: slug, confidence: 'medium' };
+    if (random() > 0.6) answer.tiktok = { value: `@${slug}`, confidence: 'low' };
+    return answer;
+};
+
+const outreachDraft: Fixture = (prompt, random) => {
+    const name = prompt.match(/^Business: (.+)$/m)?.[1] ?? 'there';
+    const sender = prompt.match(/^Sender name: (.+)$/m)?.[1] ?? 'The Scout team';
+    const hasWebsite = !/^Website: none found$/m.test(prompt);
+    const hook = hasWebsite
+        ? `I came across ${name} and really liked what you're doing.`
+        : `I was looking for ${name} online and couldn't find a website.`;
+    if (prompt.includes('phone call script')) {
+        return {
+            subject: '',
+            body: [`Hi, is this ${name}? My name is ${sender}.`, '- How do most new customers find you today?', '- Is an online presence something you have time for?', hasWebsite ? '- When was your site last updated?' : '- Have you thought about a simple website?', 'We help local businesses get found online with no upfront cost.', 'Would a 10-minute chat later this week work?'].join('\n'),
+        };
+    }
+    if (prompt.includes('Instagram direct message')) {
+        return { subject: '', body: `Hey ${name}! ${hook} We help local spots get more customers online. Open to a quick chat? 🙂` };
+    }
+    return {
+        subject: pick([`Quick idea for ${name}`, `${name} + more local customers`, `A question about ${name}`], random),
+        body: `Hi ${name} team,\n\n${hook} We help local businesses turn searches into customers with a fast, simple website.\n\nWould you be open to a short call next week?\n\nBest,\n${sender}`,
+    };
+};
+
+const marketSummary: Fixture = prompt => {
+    const total = prompt.match(/^Businesses found: (\d+)$/m)?.[1] ?? 'Several';
+    const busiest = prompt.match(/^By area: ([^:]+):/m)?.[1] ?? 'the center';
+    const sparse = prompt.match(/^By direction from the center: .*, ([^:,]+): \d+$/m)?.[1];
+    const website = Number(prompt.match(/Website (\d+)%/)?.[1] ?? 100);
+    return {
+        summary: [
+            `${total} businesses compete here, most densely in ${busiest}.`,
+            sparse ? `The ${sparse.toLowerCase()} has the fewest competitors and looks like the most open ground.` : null,
+            website < 100 ? `${100 - website}% have no website, which makes a web offer the natural opening.` : 'Nearly all of them already have a website.',
+        ].filter(Boolean).join(' '),
+    };
+};
+
+export const MOCK_FIXTURES: Record<string, Fixture> = {
+    business_list: businessList,
+    location,
+    fill_missing: fillMissing,
+    deep_enrichment: deepEnrichment,
+    outreach_draft: outreachDraft,
+    market_summary: marketSummary,
+};
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, Schema, Type } from '@google/genai';
+import { GenerateJsonRequest, JsonSchema, LlmProvider, TokenUsage } from './types.ts';
+
+const TYPE_MAP = {
+    string: Type.STRING,
+    number: Type.NUMBER,
+    integer: Type.INTEGER,
+    boolean: Type.BOOLEAN,
+    array: Type.ARRAY,
+    object: Type.OBJECT,
+};
+
+export function toGeminiSchema(schema: JsonSchema): Schema {
+    const mapped: Schema = { type: TYPE_MAP[schema.type] };
+    if (schema.description) mapped.description = schema.description;
+    if (schema.type === 'array') {
+        mapped.items = toGeminiSchema(schema.items);
+    } else if (schema.type === 'object') {
+        mapped.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]));
+        if (schema.required) mapped.required = schema.required;
+    } else if (schema.enum) {
+        mapped.enum = schema.enum;
+    }
+    return mapped;
+}
+
+function toUsage(metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | undefined {
+    return metadata && {
+        inputTokens: metadata.promptTokenCount ?? 0,
+        outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+    };
+}
+
+export function createGeminiProvider(options: { apiKey: string; model: string; temperature: number }): LlmProvider {
+    const ai = new GoogleGenAI({ apiKey: options.apiKey });
+    const buildParams = ({ prompt, schema, signal }: GenerateJsonRequest) => ({
+        model: options.model,
+        contents: prompt,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(schema),
+            temperature: options.temperature,
+            abortSignal: signal,
+        },
+    });
+    return {
+        id: 'gemini',
+        model: options.model,
+        async generateJson(request) {
+            const response = await ai.models.generateContent(buildParams(request));
+            const text = (response.text ?? '').trim();
+            return { data: JSON.parse(text), text, usage: toUsage(response.usageMetadata) };
+        },
+        async streamJson(request, onText) {
+            const stream = await ai.models.generateContentStream(buildParams(request));
+            let text = '';
+            let metadata: GenerateContentResponseUsageMetadata | undefined;
+            for await (const chunk of stream) {
+                const part = chunk.text ?? '';
+                text += part;
+                if (part) onText(part);
+                // Every chunk carries the running totals; the last is complete.
+                metadata = chunk.usageMetadata ?? metadata;
+            }
+            text = text.trim();
+            return { data: JSON.parse(text), text, usage: toUsage(metadata) };
+        },
+    };
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { createGeminiProvider } from './gemini.ts';
+import { createMockProvider } from './mock.ts';
+import { createOpenAiProvider } from './openai.ts';
+import { LlmProvider, ProviderId, ProviderSettings } from './types.ts';
+
+export * from './cache.ts';
+export * from './metered.ts';
+export * from './stream.ts';
+export * from './types.ts';
+
+export interface ProviderInfo {
+    id: ProviderId;
+    label: string;
+    defaultModel: string;
+    suggestedModels: string[];
+}
+
+export const PROVIDERS: ProviderInfo[] = [
+    { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash', suggestedModels: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'] },
+    { id: 'openai', label: 'OpenAI-compatible server', defaultModel: 'llama3.1', suggestedModels: ['llama3.1', 'qwen2.5', 'gpt-4o-mini'] },
+    { id: 'mock', label: 'Offline mock (fixtures)', defaultModel: 'fixtures', suggestedModels: ['fixtures'] },
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    provider: 'gemini',
+    model: 'gemini-2.5-flash',
+    temperature: 0.7,
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+};
+
+/** Creates the provider described by `settings`. `geminiApiKey` comes from the build environment. */
+export function createProvider(settings: ProviderSettings, geminiApiKey: string = ''): LlmProvider {
+    switch (settings.provider) {
+        case 'gemini':
+            return createGeminiProvider({ apiKey: geminiApiKey, model: settings.model, temperature: settings.temperature });
+        case 'openai':
+            return createOpenAiProvider(settings);
+        case 'mock':
+            return createMockProvider();
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { streamJson } from './stream.ts';
+import { GenerateJsonRequest, GenerateJsonResult, LlmProvider, ProviderId, TokenUsage } from './types.ts';
+
+export interface UsageEvent {
+    provider: ProviderId;
+    model: string;
+    label: string;
+    /**
+     * Zero counts when a completed request reported no usage. A stream that
+     * stopped or broke off is estimated from the prompt and the text received.
+     */
+    usage: TokenUsage;
+    at: number;
+}
+
+export interface MeterOptions {
+    /** Called after every request that got a response, including streams that stopped part way. */
+    onUsage: (event: UsageEvent) => void;
+    /** Called before every request; throwing blocks it, e.g. when a budget is spent. */
+    guard?: (request: GenerateJsonRequest) => void;
+}
+
+// Rough size of a token, for requests that ended before the API reported usage.
+const CHARS_PER_TOKEN = 4;
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/** Wraps a provider to report the tokens each request used. */
+export function createMeteredProvider(inner: LlmProvider, options: MeterOptions): LlmProvider {
+    async function meter(
+        request: GenerateJsonRequest,
+        run: (onReceived: (chunk: string) => void) => Promise<GenerateJsonResult>,
+    ): Promise<GenerateJsonResult> {
+        options.guard?.(request);
+        let received = '';
+        let result: GenerateJsonResult | undefined;
+        try {
+            result = await run(chunk => { received += chunk; });
+            return result;
+        } finally {
+            // A stream that stopped part way was still billed for the prompt and what it
+            // generated. A request that failed before any response (e.g. offline) cost nothing.
+            const usage = result
+                ? result.usage ?? { inputTokens: 0, outputTokens: 0 }
+                : received && { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(received) };
+            if (usage) options.onUsage({
+                provider: inner.id,
+                model: inner.model,
+                label: request.label ?? request.schemaName,
+                usage,
+                at: Date.now(),
+            });
+        }
+    }
+
+    return {
+        id: inner.id,
+        model: inner.model,
+        baseUrl: inner.baseUrl,
+        generateJson: request => meter(request, () => inner.generateJson(request)),
+        streamJson: (request, onText) => meter(request, onReceived => streamJson(inner, request, chunk => {
+            onReceived(chunk);
+            onText(chunk);
+        })),
+    };
+}
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { MOCK_FIXTURES } from './fixtures.ts';
+import { LlmProvider } from './types.ts';
+
+const SIMULATED_LATENCY_MS = 400;
+// Streamed responses arrive in this many pieces, one per latency period.
+const STREAM_CHUNKS = 8;
+
+// mulberry32, seeded from an FNV-1a hash of the prompt.
+function seededRandom(seedText: string): () => number {
+    let seed = 0x811c9dc5;
+    for (let i = 0; i < seedText.length; i++) {
+        seed = Math.imul(seed ^ seedText.charCodeAt(i), 0x01000193);
+    }
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        }, { once: true });
+    });
+}
+
+/**
+ * Offline provider that answers from fixtures. Responses depend only on the
+ * prompt, so the whole search → render → export flow can be exercised
+ * without an API key or network.
+ */
+export function createMockProvider(options: { latencyMs?: number } = {}): LlmProvider {
+    const latencyMs = options.latencyMs ?? SIMULATED_LATENCY_MS;
+    const answer = (prompt: string, schemaName: string) => {
+        const fixture = MOCK_FIXTURES[schemaName];
+        if (!fixture) {
+            throw new Error(`The mock provider has no fixture for "${schemaName}".`);
+        }
+        const data = fixture(prompt, seededRandom(prompt));
+        return { data, text: JSON.stringify(data) };
+    };
+    return {
+        id: 'mock',
+        model: 'fixtures',
+        async generateJson({ prompt, schemaName, signal }) {
+            await delay(latencyMs, signal);
+            return answer(prompt, schemaName);
+        },
+        async streamJson({ prompt, schemaName, signal }, onText) {
+            const result = answer(prompt, schemaName);
+            const size = Math.ceil(result.text.length / STREAM_CHUNKS);
+            for (let start = 0; start < result.text.length; start += size) {
+                await delay(latencyMs, signal);
+                onText(result.text.slice(start, start + size));
+            }
+            return result;
+        },
+    };
+}
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GenerateJsonRequest, GenerateJsonResult, JsonSchema, LlmProvider, TokenUsage } from './types.ts';
+
+// Structured output requires an object at the root, so other schemas are
+// wrapped in one and unwrapped from the response.
+const WRAPPER_KEY = 'result';
+
+function stripCodeFences(text: string): string {
+    return text.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
+}
+
+/** The `usage` object of a chat completion or of a stream's final chunk. */
+interface ResponseUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+}
+
+function toUsage(usage: ResponseUsage | null | undefined): TokenUsage | undefined {
+    // Local servers do not always report usage.
+    return usage ? {
+        inputTokens: usage.prompt_tokens ?? 0,
+        outputTokens: usage.completion_tokens ?? 0,
+    } : undefined;
+}
+
+/** Reads a server-sent event stream, calling `onData` with each `data:` payload. */
+async function readEvents(body: ReadableStream<Uint8Array>, onData: (data: string) => void): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        pending += decoder.decode(value, { stream: !done });
+        const lines = pending.split(/\r?\n/);
+        pending = done ? '' : lines.pop()!;
+        lines.filter(line => line.startsWith('data:')).forEach(line => onData(line.slice(5).trim()));
+        if (done) return;
+    }
+}
+
+/**
+ * Provider for any server implementing the OpenAI chat completions API,
+ * including local model servers.
+ */
+export function createOpenAiProvider(options: { baseUrl: string; apiKey: string; model: string; temperature: number }): LlmProvider {
+    const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    async function post({ prompt, schema, schemaName, signal }: GenerateJsonRequest, stream: boolean): Promise<Response> {
+        const rootSchema: JsonSchema = schema.type !== 'object'
+            ? { type: 'object', properties: { [WRAPPER_KEY]: schema }, required: [WRAPPER_KEY] }
+            : schema;
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model: options.model,
+                temperature: options.temperature,
+                messages: [
+                    { role: 'system', content: 'Respond only with JSON that matches the provided schema.' },
+                    { role: 'user', content: prompt },
+                ],
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: schemaName, schema: rootSchema },
+                },
+                ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+            }),
+            signal,
+        });
+        if (!response.ok) {
+            throw new Error(`Model server responded with ${response.status} ${response.statusText}`);
+        }
+        return response;
+    }
+
+    function parse(content: string, schema: JsonSchema, usage: TokenUsage | undefined): GenerateJsonResult {
+        const text = stripCodeFences(content);
+        const parsed = JSON.parse(text);
+        return { data: schema.type !== 'object' ? parsed[WRAPPER_KEY] : parsed, text, usage };
+    }
+
+    return {
+        id: 'openai',
+        model: options.model,
+        baseUrl: options.baseUrl,
+        async generateJson(request) {
+            const body = await (await post(request, false)).json();
+            return parse(body.choices?.[0]?.message?.content ?? '', request.schema, toUsage(body.usage));
+        },
+        async streamJson(request, onText) {
+            const response = await post(request, true);
+            let content = '';
+            let usage: TokenUsage | undefined;
+            await readEvents(response.body!, data => {
+                if (data === '[DONE]') return;
+                const event = JSON.parse(data);
+                const part = event.choices?.[0]?.delta?.content ?? '';
+                content += part;
+                if (part) onText(part);
+                usage = toUsage(event.usage) ?? usage;
+            });
+            return parse(content, request.schema, usage);
+        },
+    };
+}
@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GenerateJsonRequest, GenerateJsonResult, LlmProvider } from './types.ts';
+
+/**
+ * Streams the response when the provider can, and otherwise delivers the
+ * whole response text as a single chunk once it arrives.
+ */
+export async function streamJson(provider: LlmProvider, request: GenerateJsonRequest, onText: (chunk: string) => void): Promise<GenerateJsonResult> {
+    if (provider.streamJson) return provider.streamJson(request, onText);
+    const result = await provider.generateJson(request);
+    onText(result.text);
+    return result;
+}
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- Schema ---
+
+/**
+ * Provider-neutral subset of JSON Schema used to describe structured
+ * responses. Each provider maps it to its own format.
+ */
+export type JsonSchema =
+    | { type: 'string' | 'number' | 'integer' | 'boolean'; description?: string; enum?: string[] }
+    | { type: 'array'; items: JsonSchema; description?: string }
+    | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[]; description?: string };
+
+// --- Providers ---
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface GenerateJsonRequest {
+    prompt: string;
+    schema: JsonSchema;
+    /** Identifier for the schema; also selects the mock provider's fixture. */
+    schemaName: string;
+    signal?: AbortSignal;
+    /** What the request is for, e.g. the search it belongs to. The usage meter groups by it. */
+    label?: string;
+    /**
+     * Normalized identity of the request (query parameters, not prompt text).
+     * Only requests that set it are answered from the response cache.
+     */
+    cacheKey?: string;
+    /** Skip the cached response and replace it with a fresh one. */
+    refresh?: boolean;
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    /** Response tokens, including any the model spent thinking. */
+    outputTokens: number;
+}
+
+export interface GenerateJsonResult {
+    data: unknown;
+    /** Raw response text, before parsing. */
+    text: string;
+    /** Token counts reported by the API, when it reports them. */
+    usage?: TokenUsage;
+    /** Epoch milliseconds the response was first received, when it came from the cache. */
+    cachedAt?: number;
+}
+
+export interface LlmProvider {
+    readonly id: ProviderId;
+    readonly model: string;
+    /** The server requests go to, for providers that can point at different ones. */
+    readonly baseUrl?: string;
+    generateJson(request: GenerateJsonRequest): Promise<GenerateJsonResult>;
+    /**
+     * Like `generateJson`, but hands the response text to `onText` as it is
+     * generated. Providers without a streaming API leave it out.
+     */
+    streamJson?(request: GenerateJsonRequest, onText: (chunk: string) => void): Promise<GenerateJsonResult>;
+}
+
+export interface ProviderSettings {
+    provider: ProviderId;
+    model: string;
+    temperature: number;
+    /** OpenAI-compatible servers only, e.g. http://localhost:11434/v1. */
+    baseUrl: string;
+    /** OpenAI-compatible servers only; Gemini uses the key from the build environment. */
+    apiKey: string;
+}
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { backoffDelay, runQueue, withRetry } from './queue.ts';
+
+const tick = (ms = 1) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('runQueue', () => {
+    it('runs every item without exceeding the concurrency', async () => {
+        let active = 0;
+        let peak = 0;
+        const done: number[] = [];
+        await runQueue([1, 2, 3, 4, 5, 6], async item => {
+            active++;
+            peak = Math.max(peak, active);
+            await tick();
+            active--;
+            done.push(item);
+        }, { concurrency: 2 });
+        expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6]);
+        expect(peak).toBe(2);
+    });
+
+    it('runs follow-up items added by workers', async () => {
+        const seen: string[] = [];
+        await runQueue(['a'], async (item, enqueue) => {
+            seen.push(item);
+            if (item.length < 3) enqueue(`${item}1`, `${item}2`);
+        }, { concurrency: 3 });
+        expect(seen.sort()).toEqual(['a', 'a1', 'a11', 'a12', 'a2', 'a21', 'a22']);
+    });
+
+    it('rejects with the first error only after the other items ran', async () => {
+        const done: number[] = [];
+        const run = runQueue([1, 2, 3], async item => {
+            if (item === 1) throw new Error('first');
+            if (item === 2) throw new Error('second');
+            done.push(item);
+        }, { concurrency: 1 });
+        await expect(run).rejects.toThrow('first');
+        expect(done).toEqual([3]);
+    });
+
+    it('stops starting items once the signal aborts', async () => {
+        const controller = new AbortController();
+        const started: number[] = [];
+        await runQueue([1, 2, 3, 4], async item => {
+            started.push(item);
+            if (item === 2) controller.abort();
+            await tick();
+        }, { concurrency: 1, signal: controller.signal });
+        expect(started).toEqual([1, 2]);
+    });
+
+    it('spaces out starts by the interval', async () => {
+        const starts: number[] = [];
+        await runQueue([1, 2, 3], async () => {
+            starts.push(Date.now());
+        }, { concurrency: 3, intervalMs: 20 });
+        // Timers may fire a millisecond early.
+        expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(19);
+        expect(starts[2] - starts[1]).toBeGreaterThanOrEqual(19);
+    });
+});
+
+describe('backoffDelay', () => {
+    it('doubles the delay for each attempt, plus up to 25% jitter', () => {
+        expect([1, 2, 3].map(attempt => backoffDelay(attempt, 100, () => 0))).toEqual([100, 200, 400]);
+        expect(backoffDelay(2, 100, () => 1)).toBe(250);
+    });
+});
+
+describe('withRetry', () => {
+    it('retries until the task succeeds', async () => {
+        const retried: number[] = [];
+        const result = await withRetry(async attempt => {
+            if (attempt < 3) throw new Error(`attempt ${attempt}`);
+            return attempt;
+        }, { retries: 3, baseDelayMs: 1, onRetry: attempt => retried.push(attempt) });
+        expect(result).toBe(3);
+        expect(retried).toEqual([1, 2]);
+    });
+
+    it('throws the last error once the retries are used up', async () => {
+        let calls = 0;
+        const run = withRetry(async attempt => {
+            calls++;
+            throw new Error(`attempt ${attempt}`);
+        }, { retries: 2, baseDelayMs: 1 });
+        await expect(run).rejects.toThrow('attempt 3');
+        expect(calls).toBe(3);
+    });
+
+    it('stops waiting and rejects when the signal aborts', async () => {
+        const controller = new AbortController();
+        const run = withRetry(async () => {
+            throw new Error('down');
+        }, { retries: 5, baseDelayMs: 60_000, signal: controller.signal, onRetry: () => controller.abort(new Error('stopped')) });
+        await expect(run).rejects.toThrow('stopped');
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface QueueOptions {
+    concurrency: number;
+    /** Minimum gap between starting two items, for rate-limited APIs. */
+    intervalMs?: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * Runs `worker` over a growing list of items with at most `concurrency`
+ * workers in flight. Workers may add follow-up items through `enqueue`.
+ * Resolves once the queue drains, or once in-flight workers settle after
+ * the signal aborts. Rejects with the first worker error after draining.
+ */
+export function runQueue<T>(
+    initial: T[],
+    worker: (item: T, enqueue: (...items: T[]) => void) => Promise<void>,
+    { concurrency, intervalMs = 0, signal }: QueueOptions,
+): Promise<void> {
+    const pending = [...initial];
+    let active = 0;
+    let firstError: unknown = null;
+    let nextStart = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    return new Promise((resolve, reject) => {
+        const enqueue = (...items: T[]) => {
+            pending.push(...items);
+            pump();
+        };
+
+        const finish = () => (firstError ? reject(firstError) : resolve());
+
+        function pump() {
+            while (active < concurrency && pending.length > 0 && !signal?.aborted) {
+                const wait = nextStart - Date.now();
+                if (wait > 0) {
+                    timer ??= setTimeout(() => {
+                        timer = null;
+                        pump();
+                    }, wait);
+                    return;
+                }
+                nextStart = Date.now() + intervalMs;
+                const item = pending.shift()!;
+                active++;
+                worker(item, enqueue)
+                    .catch(error => { firstError ??= error; })
+                    .finally(() => {
+                        active--;
+                        pump();
+                    });
+            }
+            if (active === 0 && (pending.length === 0 || signal?.aborted)) finish();
+        }
+
+        signal?.addEventListener('abort', () => {
+            if (timer) clearTimeout(timer);
+            if (active === 0) finish();
+        });
+        pump();
+    });
+}
+
+export interface RetryOptions {
+    /** Attempts after the first one. */
+    retries: number;
+    /** Wait before the first retry; doubled for each later one. */
+    baseDelayMs: number;
+    signal?: AbortSignal;
+    onRetry?: (attempt: number, error: unknown) => void;
+}
+
+/** Exponential backoff with up to 25% jitter, so parallel retries spread out. */
+export const backoffDelay = (attempt: number, baseDelayMs: number, random: () => number = Math.random): number =>
+    Math.round(baseDelayMs * 2 ** (attempt - 1) * (1 + random() * 0.25));
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        function onAbort() {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Calls `task` until it succeeds or `retries` retries have failed, waiting
+ * longer before each retry. Aborting stops the retries and rejects.
+ */
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, { retries, baseDelayMs, signal, onRetry }: RetryOptions): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await task(attempt);
+        } catch (error) {
+            if (attempt > retries || signal?.aborted) throw error;
+            onRetry?.(attempt, error);
+            await sleep(backoffDelay(attempt, baseDelayMs), signal);
+        }
+    }
+}
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { escapeXml } from './export.ts';
+import { LatLng, haversineKm } from './geo.ts';
+
+export interface RouteStop extends LatLng {
+    id: string;
+    name: string;
+    address: string;
+}
+
+export interface RoutePlan {
+    start: LatLng;
+    /** Stops in visiting order. */
+    stops: RouteStop[];
+    /** Straight-line km of each leg; legsKm[i] ends at stops[i], plus the leg home on a round trip. */
+    legsKm: number[];
+    totalKm: number;
+    returnToStart: boolean;
+}
+
+// Waypoints Google Maps accepts in one directions link, besides origin and destination.
+const MAX_URL_WAYPOINTS = 9;
+// 2-opt converges in a handful of passes; this only guards against pathological input.
+const MAX_TWO_OPT_PASSES = 50;
+
+// --- Ordering ---
+
+// Greedy tour from node 0: always visit the closest node not yet seen.
+function nearestNeighborTour(dist: number[][]): number[] {
+    const tour = [0];
+    const left = new Set(dist.map((_, i) => i).slice(1));
+    while (left.size > 0) {
+        const from = tour[tour.length - 1];
+        let next = -1;
+        left.forEach(i => {
+            if (next === -1 || dist[from][i] < dist[from][next]) next = i;
+        });
+        tour.push(next);
+        left.delete(next);
+    }
+    return tour;
+}
+
+// Reverses stretches of the tour while that shortens it. Position 0 (the start) stays put.
+function twoOpt(tour: number[], dist: number[][], closed: boolean): number[] {
+    const result = [...tour];
+    for (let pass = 0, improved = true; improved && pass < MAX_TWO_OPT_PASSES; pass++) {
+        improved = false;
+        for (let i = 1; i < result.length - 1; i++) {
+            for (let k = i + 1; k < result.length; k++) {
+                const a = result[i - 1], b = result[i], c = result[k];
+                const d = k + 1 < result.length ? result[k + 1] : closed ? result[0] : null;
+                const before = dist[a][b] + (d === null ? 0 : dist[c][d]);
+                const after = dist[a][c] + (d === null ? 0 : dist[b][d]);
+                if (after < before - 1e-9) {
+                    result.splice(i, k - i + 1, ...result.slice(i, k + 1).reverse());
+                    improved = true;
+                }
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Orders the stops into a short visit from `start` using nearest-neighbor
+ * and then 2-opt on great-circle distances. Road distances are longer;
+ * treat the totals as estimates.
+ */
+export function planRoute(start: LatLng, stops: RouteStop[], returnToStart = false): RoutePlan {
+    const nodes: LatLng[] = [start, ...stops];
+    const dist = nodes.map(a => nodes.map(b => haversineKm(a, b)));
+    const tour = twoOpt(nearestNeighborTour(dist), dist, returnToStart);
+
+    const legsKm = tour.slice(1).map((node, i) => dist[tour[i]][node]);
+    if (returnToStart && tour.length > 1) legsKm.push(dist[tour[tour.length - 1]][0]);
+    return {
+        start,
+        stops: tour.slice(1).map(node => stops[node - 1]),
+        legsKm,
+        totalKm: legsKm.reduce((sum, km) => sum + km, 0),
+        returnToStart,
+    };
+}
+
+/** The full path to draw, start and (on a round trip) end included. */
+export function routePath(plan: RoutePlan): LatLng[] {
+    return [plan.start, ...plan.stops, ...(plan.returnToStart ? [plan.start] : [])];
+}
+
+// --- Export ---
+
+const formatPoint = ({ lat, lng }: LatLng): string => `${lat.toFixed(6)},${lng.toFixed(6)}`;
+
+/**
+ * Google Maps directions links for the route. Long routes are split into
+ * consecutive legs, each starting where the previous one ended.
+ */
+export function directionsUrls(plan: RoutePlan): string[] {
+    const path = routePath(plan);
+    const urls: string[] = [];
+    for (let from = 0; from < path.length - 1; from += MAX_URL_WAYPOINTS + 1) {
+        const leg = path.slice(from, from + MAX_URL_WAYPOINTS + 2);
+        const params = new URLSearchParams({
+            api: '1',
+            origin: formatPoint(leg[0]),
+            destination: formatPoint(leg[leg.length - 1]),
+            travelmode: 'driving',
+        });
+        if (leg.length > 2) params.set('waypoints', leg.slice(1, -1).map(formatPoint).join('|'));
+        urls.push(`https://www.google.com/maps/dir/?${params}`);
+    }
+    return urls;
+}
+
+/** GPX 1.1 with a waypoint per stop and the route in visiting order. */
+export function toGpx(plan: RoutePlan, name: string): string {
+    const point = (tag: string, { lat, lng }: LatLng, label: string, desc = '') => [
+        `  <${tag} lat="${lat.toFixed(6)}" lon="${lng.toFixed(6)}">`,
+        `    <name>${escapeXml(label)}</name>`,
+        ...(desc ? [`    <desc>${escapeXml(desc)}</desc>`] : []),
+        `  </${tag}>`,
+    ].join('\n');
+    const stopLabel = (stop: RouteStop, i: number) => `${i + 1}. ${stop.name}`;
+    const routePoints = [
+        point('rtept', plan.start, 'Start'),
+        ...plan.stops.map((stop, i) => point('rtept', stop, stopLabel(stop, i), stop.address)),
+        ...(plan.returnToStart ? [point('rtept', plan.start, 'Finish')] : []),
+    ];
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<gpx version="1.1" creator="Scout AI" xmlns="http://www.topografix.com/GPX/1/1">',
+        `  <metadata><name>${escapeXml(name)}</name></metadata>`,
+        ...plan.stops.map((stop, i) => point('wpt', stop, stopLabel(stop, i), stop.address)),
+        '  <rte>',
+        `    <name>${escapeXml(name)}</name>`,
+        ...routePoints.map(text => text.replace(/^/gm, '  ')),
+        '  </rte>',
+        '</gpx>',
+        '',
+    ].join('\n');
+}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Business } from './business.ts';
+import { KM_PER_MILE, LatLng, haversineKm } from './geo.ts';
+
+// --- Types ---
+
+interface RuleBase {
+    id: string;
+    enabled: boolean;
+    /** Points added when the rule matches; negative values subtract. */
+    points: number;
+}
+
+export type ScoringRule = RuleBase & (
+    | { kind: 'website'; when: 'present' | 'missing' }
+    | { kind: 'phone'; when: 'present' | 'missing' }
+    | { kind: 'rating'; min: number; max: number }
+    | { kind: 'social'; platform: string; when: 'present' | 'missing' }
+    /** Full points at the search center, falling linearly to zero at `maxMiles`. */
+    | { kind: 'distance'; maxMiles: number }
+    | { kind: 'keyword'; keywords: string[] }
+);
+
+export type RuleKind = ScoringRule['kind'];
+
+export interface ScoringProfile {
+    id: string;
+    name: string;
+    rules: ScoringRule[];
+}
+
+export interface ScoreContext {
+    center?: LatLng | null;
+}
+
+export interface ScoreLine {
+    ruleId: string;
+    label: string;
+    points: number;
+}
+
+export interface ScoreResult {
+    /** Sum of matched rule points, clamped to 0–100. */
+    score: number;
+    breakdown: ScoreLine[];
+}
+
+// --- Defaults ---
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+    id: 'default',
+    name: 'Website prospecting',
+    rules: [
+        { id: 'no-website', enabled: true, points: 35, kind: 'website', when: 'missing' },
+        { id: 'has-phone', enabled: true, points: 10, kind: 'phone', when: 'present' },
+        { id: 'rating-high', enabled: true, points: 20, kind: 'rating', min: 4, max: 5 },
+        { id: 'rating-mid', enabled: true, points: 10, kind: 'rating', min: 3, max: 3.9 },
+        { id: 'has-instagram', enabled: true, points: 10, kind: 'social', platform: 'instagram', when: 'present' },
+        { id: 'has-facebook', enabled: true, points: 5, kind: 'social', platform: 'facebook', when: 'present' },
+        { id: 'nearby', enabled: true, points: 15, kind: 'distance', maxMiles: 5 },
+        { id: 'independent', enabled: true, points: 5, kind: 'keyword', keywords: ['family-owned', 'independent', 'local'] },
+    ],
+};
+
+/** A new rule of the given kind with sensible parameters. */
+export function createRule(kind: RuleKind, id: string): ScoringRule {
+    const base = { id, enabled: true, points: 10 };
+    switch (kind) {
+        case 'website': return { ...base, kind, when: 'missing' };
+        case 'phone': return { ...base, kind, when: 'present' };
+        case 'rating': return { ...base, kind, min: 4, max: 5 };
+        case 'social': return { ...base, kind, platform: 'instagram', when: 'present' };
+        case 'distance': return { ...base, kind, maxMiles: 5 };
+        case 'keyword': return { ...base, kind, keywords: [] };
+    }
+}
+
+// --- Scoring ---
+
+export function describeRule(rule: ScoringRule): string {
+    const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+    switch (rule.kind) {
+        case 'website': return rule.when === 'missing' ? 'No website' : 'Has a website';
+        case 'phone': return rule.when === 'missing' ? 'No phone number' : 'Has a phone number';
+        case 'rating': return `Rating ${rule.min}–${rule.max}`;
+        case 'social': return `${rule.when === 'missing' ? 'No' : 'Has'} ${capitalize(rule.platform)}`;
+        case 'distance': return `Within ${rule.maxMiles} mi of the search center`;
+        case 'keyword': return `Summary mentions ${rule.keywords.join(', ') || '(no keywords)'}`;
+    }
+}
+
+/** Fraction (0–1) of the rule's points the business earns. */
+function ruleMatch(rule: ScoringRule, business: Business, context: ScoreContext): number {
+    switch (rule.kind) {
+        case 'website':
+            return Number(!!business.website === (rule.when === 'present'));
+        case 'phone':
+            return Number(!!business.phone === (rule.when === 'present'));
+        case 'rating':
+            return Number(business.rating !== null && business.rating >= rule.min && business.rating <= rule.max);
+        case 'social':
+            return Number(!!business.socialMedia[rule.platform] === (rule.when === 'present'));
+        case 'distance': {
+            if (!context.center || business.lat === null || business.lng === null || rule.maxMiles <= 0) return 0;
+            const miles = haversineKm(context.center, { lat: business.lat, lng: business.lng }) / KM_PER_MILE;
+            return Math.max(0, 1 - miles / rule.maxMiles);
+        }
+        case 'keyword': {
+            const summary = business.summary.toLowerCase();
+            return Number(rule.keywords.some(keyword => keyword && summary.includes(keyword.toLowerCase())));
+        }
+    }
+}
+
+export function scoreBusiness(business: Business, rules: ScoringRule[], context: ScoreContext = {}): ScoreResult {
+    const breakdown: ScoreLine[] = [];
+    rules.filter(rule => rule.enabled).forEach(rule => {
+        const points = Math.round(ruleMatch(rule, business, context) * rule.points);
+        if (points !== 0) breakdown.push({ ruleId: rule.id, label: describeRule(rule), points });
+    });
+    const total = breakdown.reduce((sum, line) => sum + line.points, 0);
+    return { score: Math.min(100, Math.max(0, total)), breakdown };
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { SearchBoundary, describeBoundary } from './area.ts';
+import { JsonSchema } from './providers/index.ts';
+
+// --- Types ---
+
+export interface SearchParams {
+    businessType: string;
+    /** City and state are optional when a boundary is drawn on the map. */
+    city: string;
+    state: string;
+    radiusMiles: number;
+    boundary?: SearchBoundary | null;
+}
+
+// --- Schemas ---
+
+export const BUSINESS_LIST_SCHEMA: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            name: { type: 'string' },
+            address: { type: 'string' },
+            phone: { type: 'string' },
+            website: { type: 'string' },
+            summary: { type: 'string' },
+            rating: { type: 'number' },
+            lat: { type: 'number', description: 'Latitude for mapping.' },
+            lng: { type: 'number', description: 'Longitude for mapping.' },
+            socialMedia: {
+                type: 'object',
+                properties: {
+                    instagram: { type: 'string' },
+                    twitter: { type: 'string' },
+                    facebook: { type: 'string' },
+                },
+            },
+        },
+        required: ['name', 'address', 'lat', 'lng']
+    }
+};
+
+export const LOCATION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        lat: { type: 'number' },
+        lng: { type: 'number' },
+    },
+    required: ['lat', 'lng']
+};
+
+// --- Prompts ---
+
+const FIELD_INSTRUCTIONS = 'For each business, provide the name, full address, phone number, website URL, a 1-2 sentence descriptive summary, an estimated customer rating out of 5 (as a number), and a list of social media URLs (like Instagram, Twitter, Facebook).';
+
+const describePlace = ({ city, state }: SearchParams): string => [city, state].filter(Boolean).join(', ');
+
+/**
+ * Identity of a search for the response cache: casing, spacing and
+ * sub-metre coordinate differences do not make two searches different.
+ */
+export function searchCacheKey(params: SearchParams): string {
+    const text = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+    const round = (_: string, value: unknown) => (typeof value === 'number' ? Number(value.toFixed(5)) : value);
+    return JSON.stringify([
+        text(params.businessType), text(params.city), text(params.state),
+        params.boundary ? null : params.radiusMiles, params.boundary ?? null,
+    ], round);
+}
+
+export const describeSearch = (params: SearchParams): string =>
+    `${params.businessType} · ${describePlace(params) || `drawn ${params.boundary?.kind ?? 'area'}`}`;
+
+/**
+ * Builds the search prompt. `area` narrows the search to part of the
+ * requested region (a deep search tile); otherwise a drawn boundary, then
+ * the city and radius, describe where to look.
+ */
+export function buildSearchPrompt(params: SearchParams, area?: SearchBoundary): string {
+    const { businessType, radiusMiles } = params;
+    const place = describePlace(params);
+    if (area) {
+        return `Find ${businessType} located ${describeBoundary(area)}${place ? ` (part of the ${place} area)` : ''}. Only include businesses inside that smaller area, including lesser-known and independent ones, not just the most popular places nearby. ${FIELD_INSTRUCTIONS}`;
+    }
+    if (params.boundary) {
+        return `Find ${businessType} located ${describeBoundary(params.boundary)}${place ? ` (in or near ${place})` : ''}. Only include businesses inside that area. ${FIELD_INSTRUCTIONS}`;
+    }
+    return `Find ${businessType} in or near ${place} within a ${radiusMiles} mile radius. ${FIELD_INSTRUCTIONS}`;
+}
+
+export const buildCenterPrompt = (city: string, state: string): string =>
+    `Give the latitude and longitude of the center of ${city}, ${state}.`;
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Small preferences live in localStorage; leads and search history live in
+// IndexedDB (see workspace.ts).
+
+const PREFIX = 'scout-ai:';
+
+const isPlainObject = (value: unknown): value is object =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export function loadSetting<T>(key: string, fallback: T): T {
+    try {
+        const raw = localStorage.getItem(PREFIX + key);
+        if (raw === null) return fallback;
+        const value = JSON.parse(raw);
+        // Objects are merged over the fallback so settings added later get defaults.
+        return isPlainObject(fallback) && isPlainObject(value) ? { ...fallback, ...value } : value;
+    } catch {
+        return fallback;
+    }
+}
+
+export function saveSetting<T>(key: string, value: T) {
+    try {
+        localStorage.setItem(PREFIX + key, JSON.stringify(value));
+    } catch (error) {
+        console.error(`Could not save setting "${key}":`, error);
+    }
+}
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { describe, expect, it } from 'vitest';
+import { Exportable, getExportColumns } from './export.ts';
+import { changedSinceLastPush, parseSpreadsheetId, planUpsert, readSheetEdits, recordPushedValues } from './sheets.ts';
+
+function item(fields: Partial<Exportable> & Pick<Exportable, 'id' | 'name'>): Exportable {
+    return {
+        address: '',
+        phone: '',
+        website: '',
+        summary: '',
+        rating: null,
+        lat: null,
+        lng: null,
+        socialMedia: {},
+        warnings: [],
+        sources: {},
+        ...fields,
+    };
+}
+
+const columnsFor = (...ids: string[]) => getExportColumns([]).filter(column => ids.includes(column.id));
+
+const cafe = item({ id: 'lead_a', name: 'Blue Bottle', stage: 'contacted', notes: 'Call back Monday' });
+const salon = item({ id: 'lead_b', name: 'Shear Genius', stage: 'new', notes: '' });
+
+describe('parseSpreadsheetId', () => {
+    it('takes the ID out of a spreadsheet URL and keeps a bare ID', () => {
+        expect(parseSpreadsheetId('https://docs.google.com/spreadsheets/d/1AbC_d-9/edit#gid=0')).toBe('1AbC_d-9');
+        expect(parseSpreadsheetId(' 1AbC_d-9 ')).toBe('1AbC_d-9');
+    });
+});
+
+describe('planUpsert', () => {
+    it('writes the header and every row of an empty tab, ID column first', () => {
+        const plan = planUpsert('Leads', [], [cafe, salon], columnsFor('name', 'stage'));
+        expect(plan).toMatchObject({ appended: 2, updated: 0, conflicts: 0 });
+        expect(plan.writes).toEqual([
+            { range: "'Leads'!A1:A3", values: [['Lead ID'], ['lead_a'], ['lead_b']] },
+            { range: "'Leads'!B1:B3", values: [['Name'], ['Blue Bottle'], ['Shear Genius']] },
+            { range: "'Leads'!C1:C3", values: [['Stage'], ['contacted'], ['new']] },
+        ]);
+    });
+
+    it('updates only changed cells and leaves columns added by hand alone', () => {
+        const existing = [
+            ['Lead ID', 'Owner (ours)', 'Name'],
+            ['lead_b', 'Sam', 'Shear Genius'],
+            ['lead_a', 'Ana', 'Blue Bottle Cafe'],
+        ];
+        const plan = planUpsert("Q3 'hot'", existing, [cafe, salon], columnsFor('name'));
+        expect(plan).toMatchObject({ appended: 0, updated: 1 });
+        expect(plan.writes).toEqual([{ range: "'Q3 ''hot'''!C3:C3", values: [['Blue Bottle']] }]);
+    });
+
+    it('appends new leads below the existing rows and adds missing headers', () => {
+        const existing = [['Lead ID', 'Name'], ['lead_a', 'Blue Bottle']];
+        const plan = planUpsert('Leads', existing, [cafe, salon], columnsFor('name', 'notes'));
+        expect(plan).toMatchObject({ appended: 1, updated: 1 });
+        expect(plan.writes).toEqual([
+            { range: "'Leads'!C1:C3", values: [['Notes'], ['Call back Monday'], ['']] },
+            { range: "'Leads'!A3:A3", values: [['lead_b']] },
+            { range: "'Leads'!B3:B3", values: [['Shear Genius']] },
+        ]);
+    });
+
+    it('keeps Stage and Notes cells edited in the sheet since the last push', () => {
+        const existing = [['Lead ID', 'Stage', 'Notes'], ['lead_a', 'won', 'Call back Monday']];
+        const pushed = { lead_a: { stage: 'contacted' as const, notes: 'Call back Monday' } };
+        const plan = planUpsert('Leads', existing, [{ ...cafe, notes: 'Left a voicemail' }], columnsFor('stage', 'notes'), pushed);
+        expect(plan.conflicts).toBe(1);
+        expect(plan.writes).toEqual([{ range: "'Leads'!C2:C2", values: [['Left a voicemail']] }]);
+        expect(plan.synced).toEqual([{ id: 'lead_a', notes: 'Left a voicemail' }]);
+    });
+
+    it('reports only the pulled columns it exported as synced', () => {
+        expect(planUpsert('Leads', [], [cafe], columnsFor('name')).synced).toEqual([{ id: 'lead_a' }]);
+    });
+});
+
+describe('readSheetEdits', () => {
+    it('reads stages and notes by lead ID, skipping empty notes and unknown stages', () => {
+        const { edits, skipped } = readSheetEdits([
+            ['Name', 'Lead ID', 'Stage', 'Notes'],
+            ['Blue Bottle', 'lead_a', 'Won', 'Signed'],
+            ['Shear Genius', 'lead_b', 'maybe', ''],
+            ['No ID', '', 'lost', 'ignored'],
+        ]);
+        expect(edits).toEqual([{ id: 'lead_a', stage: 'won', notes: 'Signed' }, { id: 'lead_b' }]);
+        expect(skipped).toBe(1);
+    });
+
+    it('finds nothing in a tab without a Lead ID column', () => {
+        expect(readSheetEdits([['Name', 'Stage'], ['Blue Bottle', 'won']])).toEqual({ edits: [], skipped: 0 });
+    });
+});
+
+describe('changedSinceLastPush', () => {
+    it('keeps only the values edited in the sheet since the last push', () => {
+        const pushed = recordPushedValues({}, [{ id: 'lead_a', stage: 'contacted', notes: 'Call back Monday' }]);
+        const edits = [
+            { id: 'lead_a', stage: 'contacted' as const, notes: 'Signed on Tuesday' },
+            { id: 'lead_new', stage: 'won' as const },
+        ];
+        expect(changedSinceLastPush(edits, pushed)).toEqual([
+            { id: 'lead_a', notes: 'Signed on Tuesday' },
+            { id: 'lead_new', stage: 'won' },
+        ]);
+    });
+});
+
+describe('recordPushedValues', () => {
+    it('keeps the earlier value of a field that was not written', () => {
+        const first = recordPushedValues({}, [{ id: 'lead_a', stage: 'contacted', notes: ' Call back ' }]);
+        expect(recordPushedValues(first, [{ id: 'lead_a', stage: 'won' }])).toEqual({ lead_a: { stage: 'won', notes: 'Call back' } });
+    });
+});
@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CellValue, ExportColumn, Exportable, getExportColumns } from './export.ts';
+import { PIPELINE_STAGES, PipelineStage } from './workspace.ts';
+
+// --- Types ---
+
+/** Where pushes and pulls go; remembered between sessions. */
+export interface SheetTarget {
+    spreadsheetId: string;
+    sheetName: string;
+}
+
+export interface SheetWrite {
+    /** A1 range covering one run of cells in a single column. */
+    range: string;
+    values: CellValue[][];
+}
+
+export interface UpsertPlan {
+    writes: SheetWrite[];
+    updated: number;
+    appended: number;
+    /** The stage and notes each lead has in the tab once the writes are made, for recordPushedValues. */
+    synced: SheetEdit[];
+    /** Stage and Notes cells left alone because they were edited in the sheet and not pulled yet. */
+    conflicts: number;
+}
+
+export interface SheetEdit {
+    id: string;
+    stage?: PipelineStage;
+    notes?: string;
+}
+
+/**
+ * Stage and notes of each lead as last pushed to (or pulled from) one tab, by
+ * lead ID. A pull applies only the cells that differ, i.e. ones edited in the sheet.
+ */
+export type PushedValues = Record<string, Pick<SheetEdit, 'stage' | 'notes'>>;
+
+// --- A1 Notation ---
+
+/** Accepts a full spreadsheet URL or a bare ID. */
+export function parseSpreadsheetId(input: string): string {
+    const trimmed = input.trim();
+    return trimmed.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/)?.[1] ?? trimmed;
+}
+
+export function quoteSheetName(name: string): string {
+    return `'${name.replace(/'/g, "''")}'`;
+}
+
+function columnLetter(index: number): string {
+    let letters = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    }
+    return letters;
+}
+
+// --- Columns ---
+
+const labelOf = (id: string): string => getExportColumns([]).find(column => column.id === id)!.label;
+
+/** Rows are matched on the lead ID, so it is always written even if not ticked for export. */
+export function withIdColumn(columns: ExportColumn[]): ExportColumn[] {
+    if (columns.some(column => column.id === 'id')) return columns;
+    return [getExportColumns([]).find(column => column.id === 'id')!, ...columns];
+}
+
+const cellText = (value: CellValue | undefined): string => (value === null || value === undefined ? '' : String(value).trim());
+
+// --- Push ---
+
+// Columns the team edits in the sheet and pulls back into the app.
+const PULLED_COLUMN_IDS = ['stage', 'notes'];
+
+const pulledText = (id: string, value: CellValue | undefined): string =>
+    id === 'stage' ? cellText(value).toLowerCase() : cellText(value);
+
+/**
+ * Works out the cell writes that bring `existing` (the tab's current values,
+ * header row first) up to date with `items`. Rows are matched by the Lead ID
+ * column; matched rows are updated in place and the rest appended. Only the
+ * exported columns are written, and only cells whose value changed, so
+ * columns added by hand in the sheet are never touched. Missing headers are
+ * appended after the last existing column. A Stage or Notes cell that no
+ * longer holds the value in `pushed` was edited in the sheet; it is kept
+ * and counted in `conflicts` until a pull brings it into the app.
+ */
+export function planUpsert(sheetName: string, existing: CellValue[][], items: Exportable[], columns: ExportColumn[], pushed: PushedValues = {}): UpsertPlan {
+    const header = (existing[0] ?? []).map(cellText);
+    const managed = withIdColumn(columns);
+    const changes = new Map<number, Map<number, CellValue>>();
+    const setCell = (row: number, col: number, value: CellValue) => {
+        const column = changes.get(col) ?? new Map<number, CellValue>();
+        column.set(row, value ?? '');
+        changes.set(col, column);
+    };
+
+    const indices = managed.map(column => {
+        let index = header.indexOf(column.label);
+        if (index === -1) {
+            index = header.length;
+            header.push(column.label);
+            setCell(0, index, column.label);
+        }
+        return index;
+    });
+
+    const idIndex = indices[managed.findIndex(column => column.id === 'id')];
+    const rowById = new Map<string, number>();
+    existing.forEach((row, r) => {
+        const id = cellText(row[idIndex]);
+        if (r > 0 && id) rowById.set(id, r);
+    });
+
+    let nextRow = Math.max(existing.length, 1);
+    let updated = 0;
+    let appended = 0;
+    let conflicts = 0;
+    const synced: SheetEdit[] = [];
+    items.forEach(item => {
+        const matched = rowById.get(item.id);
+        const row = matched ?? nextRow++;
+        const sync: SheetEdit = { id: item.id };
+        let changed = false;
+        managed.forEach((column, i) => {
+            const value = column.value(item);
+            const current = matched !== undefined ? existing[row][indices[i]] : undefined;
+            if (PULLED_COLUMN_IDS.includes(column.id) && cellText(current)) {
+                const last = pushed[item.id]?.[column.id as 'stage' | 'notes'];
+                const text = pulledText(column.id, current);
+                if (text !== pulledText(column.id, value) && text !== pulledText(column.id, last)) {
+                    conflicts++;
+                    return;
+                }
+            }
+            if (column.id === 'stage') sync.stage = item.stage;
+            if (column.id === 'notes') sync.notes = cellText(value);
+            if (matched !== undefined && cellText(current) === cellText(value)) return;
+            setCell(row, indices[i], value);
+            changed = true;
+        });
+        synced.push(sync);
+        if (matched === undefined) appended++;
+        else if (changed) updated++;
+    });
+
+    const writes: SheetWrite[] = [];
+    const sheet = quoteSheetName(sheetName);
+    changes.forEach((cells, col) => {
+        const rows = [...cells.keys()].sort((a, b) => a - b);
+        let start = 0;
+        for (let i = 1; i <= rows.length; i++) {
+            if (i < rows.length && rows[i] === rows[i - 1] + 1) continue;
+            const run = rows.slice(start, i);
+            const letter = columnLetter(col);
+            writes.push({
+                range: `${sheet}!${letter}${run[0] + 1}:${letter}${run[run.length - 1] + 1}`,
+                values: run.map(row => [cells.get(row)!]),
+            });
+            start = i;
+        }
+    });
+    return { writes, updated, appended, synced, conflicts };
+}
+
+// --- Pull ---
+
+/**
+ * Reads the Stage and Notes columns back out of a tab. Rows without a Lead
+ * ID are ignored, and unrecognised stages are counted in `skipped` rather
+ * than applied.
+ */
+export function readSheetEdits(existing: CellValue[][]): { edits: SheetEdit[]; skipped: number } {
+    const header = (existing[0] ?? []).map(cellText);
+    const idIndex = header.indexOf(labelOf('id'));
+    const stageIndex = header.indexOf(labelOf('stage'));
+    const notesIndex = header.indexOf(labelOf('notes'));
+    if (idIndex === -1) return { edits: [], skipped: 0 };
+
+    let skipped = 0;
+    const edits: SheetEdit[] = [];
+    existing.slice(1).forEach(row => {
+        const id = cellText(row[idIndex]);
+        if (!id) return;
+        const edit: SheetEdit = { id };
+        if (stageIndex !== -1) {
+            const stage = cellText(row[stageIndex]).toLowerCase();
+            if (PIPELINE_STAGES.includes(stage as PipelineStage)) edit.stage = stage as PipelineStage;
+            else if (stage) skipped++;
+        }
+        // An empty cell is most likely a note nobody wrote, not one deleted in the sheet.
+        const notes = notesIndex !== -1 ? cellText(row[notesIndex]) : '';
+        if (notes) edit.notes = notes;
+        edits.push(edit);
+    });
+    return { edits, skipped };
+}
+
+/** Identifies a tab for the pushed values kept per target. */
+export const sheetTargetKey = (target: SheetTarget): string => `${target.spreadsheetId}|${target.sheetName}`;
+
+/** Records the values now in the tab. Fields left out keep the value recorded before. */
+export function recordPushedValues(pushed: PushedValues, items: SheetEdit[]): PushedValues {
+    const next = { ...pushed };
+    items.forEach(({ id, stage, notes }) => {
+        next[id] = { ...next[id] };
+        if (stage !== undefined) next[id].stage = stage;
+        if (notes !== undefined) next[id].notes = cellText(notes);
+    });
+    return next;
+}
+
+/**
+ * Drops the parts of each edit that still hold the value last pushed, so a
+ * sheet row that was not edited since never overwrites newer changes made
+ * in the app.
+ */
+export function changedSinceLastPush(edits: SheetEdit[], pushed: PushedValues): SheetEdit[] {
+    return edits.map(edit => {
+        const last = pushed[edit.id];
+        if (!last) return edit;
+        const changed: SheetEdit = { id: edit.id };
+        if (edit.stage && edit.stage !== last.stage) changed.stage = edit.stage;
+        if (edit.notes && edit.notes !== last.notes) changed.notes = edit.notes;
+        return changed;
+    });
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { LatLng, haversineKm, milesToKm } from './geo.ts';
+
+export interface Tile {
+    id: string;
+    center: LatLng;
+    /** Half the side length of the square cell, in miles. */
+    halfSideMiles: number;
+    /** Radius of the circle circumscribing the cell; this is what gets searched. */
+    radiusMiles: number;
+    depth: number;
+}
+
+// Deep search stops subdividing below this, since the model cannot place
+// businesses much more precisely than that anyway.
+export const MIN_TILE_HALF_SIDE_MILES = 0.5;
+export const MAX_TILE_DEPTH = 2;
+
+const MILES_PER_DEGREE_LAT = 69.0;
+
+function offset(center: LatLng, northMiles: number, eastMiles: number): LatLng {
+    const milesPerDegreeLng = MILES_PER_DEGREE_LAT * Math.cos(center.lat * Math.PI / 180);
+    return {
+        lat: center.lat + northMiles / MILES_PER_DEGREE_LAT,
+        lng: center.lng + eastMiles / milesPerDegreeLng,
+    };
+}
+
+function makeTile(id: string, center: LatLng, halfSideMiles: number, depth: number): Tile {
+    return { id, center, halfSideMiles, radiusMiles: halfSideMiles * Math.SQRT2, depth };
+}
+
+/** Cells per side of the initial grid: roughly one cell per 2.5 miles of radius, up to 5×5. */
+export const gridSizeForRadius = (radiusMiles: number): number =>
+    Math.min(5, Math.max(2, Math.ceil(radiusMiles / 2.5)));
+
+/**
+ * Covers the circle of `radiusMiles` around `center` with a square grid,
+ * dropping corner cells that lie entirely outside the circle.
+ */
+export function createTileGrid(center: LatLng, radiusMiles: number, gridSize: number = gridSizeForRadius(radiusMiles)): Tile[] {
+    const halfSide = radiusMiles / gridSize;
+    const tiles: Tile[] = [];
+    for (let row = 0; row < gridSize; row++) {
+        for (let col = 0; col < gridSize; col++) {
+            const north = radiusMiles - halfSide * (2 * row + 1);
+            const east = -radiusMiles + halfSide * (2 * col + 1);
+            const cellCenter = offset(center, north, east);
+            const distanceMiles = haversineKm(center, cellCenter) / milesToKm(1);
+            if (distanceMiles - halfSide * Math.SQRT2 <= radiusMiles) {
+                tiles.push(makeTile(`${row}-${col}`, cellCenter, halfSide, 0));
+            }
+        }
+    }
+    return tiles;
+}
+
+/** Splits a tile into four quadrants, or returns none once it is small or deep enough. */
+export function subdivideTile(tile: Tile): Tile[] {
+    const halfSide = tile.halfSideMiles / 2;
+    if (tile.depth >= MAX_TILE_DEPTH || halfSide < MIN_TILE_HALF_SIDE_MILES) return [];
+    return [[1, -1], [1, 1], [-1, -1], [-1, 1]].map(([north, east], i) =>
+        makeTile(`${tile.id}.${i}`, offset(tile.center, north * halfSide, east * halfSide), halfSide, tile.depth + 1));
+}
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { SearchBoundary, boundaryRadiusMiles } from './area.ts';
+import { LatLng, isValidLatLng } from './geo.ts';
+import { SearchParams, searchCacheKey } from './search.ts';
+
+export interface MapViewport extends LatLng {
+    zoom: number;
+}
+
+/** Everything a link needs to reopen the app where it was left. */
+export interface UrlState {
+    /** The search whose results are shown, or null when none is. */
+    search: SearchParams | null;
+    view: 'search' | 'workspace';
+    query: string;
+    stage: string;
+    insideArea: boolean;
+    sort: string;
+    descending: boolean;
+    viewport: MapViewport | null;
+    /** Lead whose details are open. */
+    lead: string | null;
+}
+
+// About a metre of precision, which keeps links short.
+const COORD_DECIMALS = 5;
+
+const formatNumber = (value: number): string => String(Number(value.toFixed(COORD_DECIMALS)));
+const formatPoint = ({ lat, lng }: LatLng): string => `${formatNumber(lat)},${formatNumber(lng)}`;
+
+function parseNumbers(text: string): number[] | null {
+    const values = text.split(',').map(Number);
+    return values.every(Number.isFinite) ? values : null;
+}
+
+function parsePoint(text: string): LatLng | null {
+    const values = parseNumbers(text);
+    if (!values || values.length !== 2 || !isValidLatLng(values[0], values[1])) return null;
+    return { lat: values[0], lng: values[1] };
+}
+
+// --- Boundaries ---
+
+// "c:lat,lng,miles", "r:swLat,swLng,neLat,neLng" or "p:lat,lng;lat,lng;…".
+function formatBoundary(boundary: SearchBoundary): string {
+    switch (boundary.kind) {
+        case 'circle':
+            return `c:${formatPoint(boundary.center)},${formatNumber(boundary.radiusMiles)}`;
+        case 'rectangle':
+            return `r:${formatPoint(boundary.southWest)},${formatPoint(boundary.northEast)}`;
+        case 'polygon':
+            return `p:${boundary.points.map(formatPoint).join(';')}`;
+    }
+}
+
+function parseBoundary(text: string): SearchBoundary | null {
+    const [kind, body = ''] = text.split(/:(.*)/s);
+    if (kind === 'c') {
+        const values = parseNumbers(body);
+        if (!values || values.length !== 3 || !(values[2] > 0)) return null;
+        const center = parsePoint(`${values[0]},${values[1]}`);
+        return center && { kind: 'circle', center, radiusMiles: values[2] };
+    }
+    if (kind === 'r') {
+        const values = parseNumbers(body);
+        if (!values || values.length !== 4) return null;
+        const southWest = parsePoint(`${values[0]},${values[1]}`);
+        const northEast = parsePoint(`${values[2]},${values[3]}`);
+        return southWest && northEast && { kind: 'rectangle', southWest, northEast };
+    }
+    if (kind === 'p') {
+        const points = body.split(';').map(parsePoint);
+        if (points.length < 3 || points.some(point => !point)) return null;
+        return { kind: 'polygon', points: points as LatLng[] };
+    }
+    return null;
+}
+
+// --- Query string ---
+
+/** The query string (without "?") for a state; defaults are left out. */
+export function toQueryString(state: UrlState): string {
+    const params = new URLSearchParams();
+    if (state.search) {
+        params.set('type', state.search.businessType);
+        if (state.search.city) params.set('city', state.search.city);
+        if (state.search.state) params.set('state', state.search.state);
+        if (state.search.boundary) params.set('area', formatBoundary(state.search.boundary));
+        else params.set('radius', formatNumber(state.search.radiusMiles));
+    }
+    if (state.view === 'workspace') params.set('view', 'workspace');
+    if (state.query) params.set('q', state.query);
+    if (state.stage) params.set('stage', state.stage);
+    if (state.insideArea) params.set('inside', '1');
+    if (state.sort) {
+        params.set('sort', state.sort);
+        params.set('dir', state.descending ? 'desc' : 'asc');
+    }
+    if (state.viewport) params.set('map', `${formatPoint(state.viewport)},${state.viewport.zoom}`);
+    if (state.lead) params.set('lead', state.lead);
+    return params.toString();
+}
+
+/**
+ * Reads a state back from `location.search`. Malformed values fall back to
+ * their defaults rather than failing, since links get truncated and edited.
+ */
+export function parseQueryString(search: string): UrlState {
+    const params = new URLSearchParams(search);
+    const get = (key: string): string => params.get(key)?.trim() ?? '';
+
+    let searchParams: SearchParams | null = null;
+    const boundary = get('area') ? parseBoundary(get('area')) : null;
+    const radiusMiles = parseFloat(get('radius'));
+    if (get('type') && (boundary || (get('city') && get('state') && radiusMiles > 0))) {
+        searchParams = {
+            businessType: get('type'),
+            city: get('city'),
+            state: get('state'),
+            radiusMiles: boundary ? boundaryRadiusMiles(boundary) : radiusMiles,
+            boundary,
+        };
+    }
+
+    const map = parseNumbers(get('map'));
+    const viewport = map && map.length === 3 && isValidLatLng(map[0], map[1])
+        ? { lat: map[0], lng: map[1], zoom: Math.round(map[2]) }
+        : null;
+
+    return {
+        search: searchParams,
+        view: get('view') === 'workspace' ? 'workspace' : 'search',
+        query: params.get('q') ?? '',
+        stage: get('stage'),
+        insideArea: get('inside') === '1',
+        sort: get('sort'),
+        descending: get('dir') === 'desc',
+        viewport,
+        lead: get('lead') || null,
+    };
+}
+
+/** Whether two searches would ask for the same thing, ignoring case and spacing. */
+export function isSameSearch(a: SearchParams | null, b: SearchParams | null): boolean {
+    if (!a || !b) return a === b;
+    return searchCacheKey(a) === searchCacheKey(b);
+}
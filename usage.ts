@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { UsageEvent } from './providers/index.ts';
+
+// --- Types ---
+
+export interface UsageTotals {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    /** Estimated from list prices; requests to models without a known price add nothing. */
+    costUsd: number;
+}
+
+/** Usage of one search (or other labelled job), summed over its requests. */
+export interface UsageEntry extends UsageTotals {
+    label: string;
+    model: string;
+    startedAt: number;
+    lastAt: number;
+}
+
+export interface UsageLedger {
+    /** Totals per local calendar day, keyed "YYYY-MM-DD". */
+    days: Record<string, UsageTotals>;
+    /** Most recent first. */
+    recent: UsageEntry[];
+}
+
+// --- Pricing ---
+
+// USD per million tokens, matched by model-name prefix (longest first).
+const PRICES: Record<string, { input: number; output: number }> = {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+    'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+    'gpt-4o': { input: 2.50, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.60 },
+};
+
+/** List price of a request, or null for models without a known price (e.g. local ones). */
+export function estimateCostUsd(model: string, inputTokens: number, outputTokens: number): number | null {
+    const match = Object.keys(PRICES)
+        .filter(prefix => model.toLowerCase().startsWith(prefix))
+        .sort((a, b) => b.length - a.length)[0];
+    if (!match) return null;
+    const price = PRICES[match];
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export const hasKnownPrice = (model: string): boolean => estimateCostUsd(model, 0, 0) !== null;
+
+// --- Ledger ---
+
+const MAX_RECENT_ENTRIES = 50;
+// Requests with the same label this close together belong to the same run,
+// such as the tiles of one deep search.
+const ENTRY_MERGE_WINDOW_MS = 30 * 60 * 1000;
+const KEEP_DAYS = 400;
+
+export const EMPTY_TOTALS: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+
+export const dayKey = (time: number): string => {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export function addTotals(totals: UsageTotals, event: UsageEvent): UsageTotals {
+    const { inputTokens, outputTokens } = event.usage;
+    return {
+        requests: totals.requests + 1,
+        inputTokens: totals.inputTokens + inputTokens,
+        outputTokens: totals.outputTokens + outputTokens,
+        costUsd: totals.costUsd + (estimateCostUsd(event.model, inputTokens, outputTokens) ?? 0),
+    };
+}
+
+/** The ledger with one more request recorded. Days older than about a year are dropped. */
+export function recordUsage(ledger: UsageLedger, event: UsageEvent): UsageLedger {
+    const day = dayKey(event.at);
+    const oldest = dayKey(event.at - KEEP_DAYS * 24 * 60 * 60 * 1000);
+    const days = Object.fromEntries(Object.entries(ledger.days).filter(([key]) => key >= oldest));
+    days[day] = addTotals(days[day] ?? EMPTY_TOTALS, event);
+
+    const index = ledger.recent.findIndex(entry =>
+        entry.label === event.label && entry.model === event.model && event.at - entry.lastAt < ENTRY_MERGE_WINDOW_MS);
+    const previous = index >= 0 ? ledger.recent[index] : null;
+    const entry: UsageEntry = {
+        ...addTotals(previous ?? EMPTY_TOTALS, event),
+        label: event.label,
+        model: event.model,
+        startedAt: previous?.startedAt ?? event.at,
+        lastAt: event.at,
+    };
+    const recent = [entry, ...ledger.recent.filter((_, i) => i !== index)].slice(0, MAX_RECENT_ENTRIES);
+    return { days, recent };
+}
+
+export function dayTotals(ledger: UsageLedger, time: number): UsageTotals {
+    return ledger.days[dayKey(time)] ?? EMPTY_TOTALS;
+}
+
+export function monthTotals(ledger: UsageLedger, time: number): UsageTotals {
+    const month = dayKey(time).slice(0, 7);
+    return Object.entries(ledger.days)
+        .filter(([day]) => day.startsWith(month))
+        .reduce((sum, [, totals]) => ({
+            requests: sum.requests + totals.requests,
+            inputTokens: sum.inputTokens + totals.inputTokens,
+            outputTokens: sum.outputTokens + totals.outputTokens,
+            costUsd: sum.costUsd + totals.costUsd,
+        }), EMPTY_TOTALS);
+}
@@ -0,0 +1,274 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { stateCode } from './batch.ts';
+import { Business, SOCIAL_HOSTS, isFictionalPhone, normalizeUrl, parseAddressParts } from './business.ts';
+import { LatLng, haversineKm, isValidLatLng } from './geo.ts';
+
+// --- Types ---
+
+export type VerificationStatus = 'verified' | 'suspicious' | 'unverified';
+
+export type VerifiedField = 'address' | 'location' | 'phone' | 'website' | 'social';
+
+export interface FieldCheck {
+    status: VerificationStatus;
+    /** Why the check came out this way, shown as the badge tooltip. */
+    note: string;
+    /** The field value that was checked; a check of an older value no longer applies. */
+    value: string;
+    checkedAt: number;
+}
+
+export type Verification = Partial<Record<VerifiedField, FieldCheck>>;
+
+export interface VerificationSettings {
+    /** Base URL of a Nominatim-compatible geocoder. */
+    geocoderUrl: string;
+    /** Coordinates further than this from the geocoded address are suspicious. */
+    maxOffsetKm: number;
+    /** Also request each website and profile to see whether it responds. */
+    checkReachability: boolean;
+    /** Verify new results as soon as a search finishes. */
+    autoVerify: boolean;
+}
+
+export interface VerifyContext {
+    settings: VerificationSettings;
+    /** State the search asked for, used when the address names none. */
+    searchedState?: string;
+    signal?: AbortSignal;
+}
+
+export const VERIFIED_FIELDS: { key: VerifiedField; label: string }[] = [
+    { key: 'address', label: 'Address' },
+    { key: 'location', label: 'Location' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'website', label: 'Website' },
+    { key: 'social', label: 'Social' },
+];
+
+export const DEFAULT_VERIFICATION_SETTINGS: VerificationSettings = {
+    geocoderUrl: 'https://nominatim.openstreetmap.org',
+    maxOffsetKm: 2,
+    checkReachability: false,
+    autoVerify: false,
+};
+
+// Nominatim's usage policy allows one request per second.
+export const GEOCODE_INTERVAL_MS = 1000;
+const REACHABILITY_TIMEOUT_MS = 8000;
+
+// --- Field values ---
+
+/** The value of a field as a check sees it; empty when there is nothing to check. */
+export function fieldValue(business: Business, field: VerifiedField): string {
+    switch (field) {
+        case 'address':
+            return business.address.trim();
+        case 'location':
+            return business.lat !== null && business.lng !== null ? `${business.lat},${business.lng}` : '';
+        case 'phone':
+            return business.phone;
+        case 'website':
+            return business.website;
+        case 'social':
+            return Object.entries(business.socialMedia)
+                .filter(([, url]) => url)
+                .map(([platform, url]) => `${platform}=${url}`)
+                .sort()
+                .join(' ');
+    }
+}
+
+/**
+ * A field's verification status, or null when the field is empty. Fields
+ * never checked, or changed since their check, count as unverified.
+ */
+export function fieldStatus(item: Business & { verification?: Verification }, field: VerifiedField): FieldCheck | null {
+    const value = fieldValue(item, field);
+    if (!value) return null;
+    const check = item.verification?.[field];
+    if (check && check.value === value) return check;
+    return { status: 'unverified', note: check ? 'Changed since it was last checked.' : 'Not checked yet.', value, checkedAt: 0 };
+}
+
+const result = (status: VerificationStatus, note: string, value: string): FieldCheck =>
+    ({ status, note, value, checkedAt: Date.now() });
+
+// --- Phone ---
+
+// Geographic area codes by state. Numbers outside this list (new overlays,
+// territories) are left unverified rather than flagged.
+const AREA_CODES: Record<string, string> = {
+    AL: '205 251 256 334 483 659 938', AK: '907', AZ: '480 520 602 623 928', AR: '327 479 501 870',
+    CA: '209 213 279 310 323 341 350 369 408 415 424 442 510 530 559 562 619 626 628 650 657 661 669 707 714 738 747 760 805 818 820 831 840 858 909 916 925 949 951',
+    CO: '303 719 720 748 970 983', CT: '203 475 860 959', DE: '302', DC: '202 771',
+    FL: '239 305 321 324 352 386 407 448 561 645 656 689 727 728 754 772 786 813 850 863 904 941 954',
+    GA: '229 404 470 478 678 706 762 770 912 943', HI: '808', ID: '208 986',
+    IL: '217 224 309 312 331 447 464 618 630 708 730 773 779 815 847 861 872', IN: '219 260 317 463 574 765 812 930',
+    IA: '319 515 563 641 712', KS: '316 620 785 913', KY: '270 364 502 606 859', LA: '225 318 337 504 985',
+    ME: '207', MD: '227 240 301 410 443 667', MA: '339 351 413 508 617 774 781 857 978',
+    MI: '231 248 269 313 517 586 616 679 734 810 906 947 989', MN: '218 320 507 612 651 763 924 952',
+    MS: '228 471 601 662 769', MO: '235 314 417 557 573 636 660 816 975', MT: '406', NE: '308 402 531',
+    NV: '702 725 775', NH: '603', NJ: '201 551 609 640 732 848 856 862 908 973', NM: '505 575',
+    NY: '212 315 329 332 347 363 516 518 585 607 624 631 646 680 716 718 838 845 914 917 929 934',
+    NC: '252 336 472 704 743 828 910 919 980 984', ND: '701',
+    OH: '216 220 234 283 326 330 380 419 436 440 513 567 614 740 937', OK: '405 539 572 580 918',
+    OR: '458 503 541 971', PA: '215 223 267 272 412 445 484 570 582 610 717 724 814 835 878', RI: '401',
+    SC: '803 821 839 843 854 864', SD: '605', TN: '423 615 629 731 865 901 931',
+    TX: '210 214 254 281 325 346 361 409 430 432 469 512 682 713 726 737 806 817 830 832 903 915 936 940 945 956 972 979',
+    UT: '385 435 801', VT: '802', VA: '276 434 540 571 686 703 757 804 826 948',
+    WA: '206 253 360 425 509 564', WV: '304 681', WI: '262 274 353 414 534 608 715 920', WY: '307',
+};
+
+const STATE_BY_AREA_CODE = new Map(Object.entries(AREA_CODES)
+    .flatMap(([state, codes]) => codes.split(' ').map(code => [code, state] as const)));
+
+const TOLL_FREE = new Set(['800', '833', '844', '855', '866', '877', '888']);
+
+/**
+ * Checks a normalized phone number's shape and, for US numbers, that its
+ * area code belongs to the state the business is in.
+ */
+export function checkPhone(phone: string, state: string): FieldCheck {
+    const us = phone.match(/^\+1(\d{3})(\d{3})(\d{4})$/);
+    if (!us) return result('unverified', 'Not a US number; only its format was checked.', phone);
+    const [, area, exchange, line] = us;
+    if (isFictionalPhone(phone)) return result('suspicious', '555-01xx numbers are reserved for fiction.', phone);
+    if (/^(\d)\1{6}$/.test(exchange + line) || exchange + line === '1234567') {
+        return result('suspicious', 'The number looks like a placeholder.', phone);
+    }
+    if (TOLL_FREE.has(area)) return result('unverified', 'Toll-free numbers cannot be matched to a state.', phone);
+    const areaState = STATE_BY_AREA_CODE.get(area);
+    if (!areaState) return result('unverified', `Area code ${area} is not in the known list.`, phone);
+    if (!state) return result('unverified', `Area code ${area} is in ${areaState}, but the business's state is unknown.`, phone);
+    return areaState === state
+        ? result('verified', `Area code ${area} is in ${state}.`, phone)
+        : result('suspicious', `Area code ${area} is in ${areaState}, not ${state}.`, phone);
+}
+
+// --- Links ---
+
+async function isReachable(url: string, signal?: AbortSignal): Promise<boolean> {
+    const timeout = AbortSignal.timeout(REACHABILITY_TIMEOUT_MS);
+    try {
+        // No-CORS requests cannot read the response, but they do fail when
+        // the host does not resolve or never answers.
+        await fetch(url, { mode: 'no-cors', signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+        return true;
+    } catch {
+        if (signal?.aborted) throw signal.reason;
+        return false;
+    }
+}
+
+function linkProblem(url: string, platform?: string): string | null {
+    if (normalizeUrl(url) === null) return `"${url}" is not a well-formed web address.`;
+    const hosts = platform ? SOCIAL_HOSTS[platform] : null;
+    if (hosts) {
+        const host = new URL(url).hostname.replace(/^(www|m)\./, '');
+        if (!hosts.some(h => host === h || host.endsWith(`.${h}`))) return `The ${platform} link points to ${host}.`;
+    }
+    return null;
+}
+
+/** Well-formedness, and optionally reachability, of one or more links. */
+async function checkLinks(links: [string | undefined, string][], value: string, context: VerifyContext): Promise<FieldCheck> {
+    const problems = links.map(([platform, url]) => linkProblem(url, platform)).filter((p): p is string => !!p);
+    if (problems.length > 0) return result('suspicious', problems.join(' '), value);
+    if (!context.settings.checkReachability) return result('unverified', 'Well-formed; reachability was not checked.', value);
+    const unreachable: string[] = [];
+    for (const [, url] of links) {
+        if (!await isReachable(url, context.signal)) unreachable.push(url);
+    }
+    return unreachable.length > 0
+        ? result('suspicious', `No response from ${unreachable.join(', ')}.`, value)
+        : result('verified', links.length > 1 ? 'All links responded.' : 'The site responded.', value);
+}
+
+// --- Geocoding ---
+
+/** The geocoder's search endpoint, whether the setting names the server or the endpoint itself. */
+function searchEndpoint(baseUrl: string): string {
+    const trimmed = baseUrl.trim().replace(/\/+$/, '');
+    return /\/search$/.test(trimmed) ? trimmed : `${trimmed}/search`;
+}
+
+/** The first match for an address from a Nominatim-compatible geocoder, or null. */
+export async function geocodeAddress(address: string, geocoderUrl: string, signal?: AbortSignal): Promise<LatLng | null> {
+    const params = new URLSearchParams({ q: address, format: 'jsonv2', limit: '1' });
+    const response = await fetch(`${searchEndpoint(geocoderUrl)}?${params}`, { signal, headers: { Accept: 'application/json' } });
+    if (!response.ok) throw new Error(`Geocoder returned HTTP ${response.status}.`);
+    const [match] = await response.json();
+    const lat = parseFloat(match?.lat);
+    const lng = parseFloat(match?.lon);
+    return isValidLatLng(lat, lng) ? { lat, lng } : null;
+}
+
+async function checkLocation(business: Business, context: VerifyContext): Promise<Verification> {
+    const address = fieldValue(business, 'address');
+    const location = fieldValue(business, 'location');
+    if (!address) return {};
+    let match: LatLng | null;
+    try {
+        match = await geocodeAddress(address, context.settings.geocoderUrl, context.signal);
+    } catch (error) {
+        if (context.signal?.aborted) throw error;
+        // An unreachable geocoder says nothing about the record itself.
+        const note = `The geocoder could not be reached: ${error instanceof Error ? error.message : String(error)}`;
+        return {
+            address: result('unverified', note, address),
+            ...(location ? { location: result('unverified', note, location) } : {}),
+        };
+    }
+    if (!match) {
+        return {
+            address: result('suspicious', 'The geocoder could not find this address.', address),
+            ...(location ? { location: result('unverified', 'There is no geocoded address to compare against.', location) } : {}),
+        };
+    }
+    const found = result('verified', `Found at ${match.lat.toFixed(5)}, ${match.lng.toFixed(5)}.`, address);
+    if (!location) return { address: found };
+    const offsetKm = haversineKm({ lat: business.lat!, lng: business.lng! }, match);
+    return {
+        address: found,
+        location: offsetKm <= context.settings.maxOffsetKm
+            ? result('verified', `Within ${offsetKm.toFixed(1)} km of the geocoded address.`, location)
+            : result('suspicious', `${offsetKm.toFixed(1)} km from the geocoded address (limit ${context.settings.maxOffsetKm} km).`, location),
+    };
+}
+
+// --- Pipeline ---
+
+/**
+ * Runs every check on a record. Geocoding makes one request to the
+ * configured geocoder, so callers should pace calls to respect its limits.
+ */
+export async function verifyBusiness(business: Business, context: VerifyContext): Promise<Verification> {
+    const verification: Verification = await checkLocation(business, context);
+    if (business.phone) {
+        const state = parseAddressParts(business.address).state || stateCode(context.searchedState ?? '') || '';
+        verification.phone = checkPhone(business.phone, state);
+    }
+    if (business.website) {
+        verification.website = await checkLinks([[undefined, business.website]], business.website, context);
+    }
+    const social = fieldValue(business, 'social');
+    if (social) {
+        const links = Object.entries(business.socialMedia).filter((entry): entry is [string, string] => !!entry[1]);
+        verification.social = await checkLinks(links, social, context);
+    }
+    return verification;
+}
+
+/** Newest check of each field across several records, for merging duplicates. */
+export function mergeVerifications(verifications: Verification[]): Verification {
+    return verifications
+        .flatMap(v => Object.entries(v) as [VerifiedField, FieldCheck][])
+        .reduce<Verification>((merged, [field, check]) => {
+            if (!merged[field] || check.checkedAt > merged[field]!.checkedAt) merged[field] = check;
+            return merged;
+        }, {});
+}
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Bundles the command-line tool for Node. Dependencies stay external and
+// load from node_modules at run time.
+export default defineConfig({
+    build: {
+        ssr: 'cli.ts',
+        outDir: 'dist-cli',
+        target: 'node20',
+        rollupOptions: {
+            output: {
+                entryFileNames: 'scout.js',
+                banner: '#!/usr/bin/env node',
+            },
+        },
+    },
+});
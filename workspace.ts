@@ -0,0 +1,305 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Business } from './business.ts';
+import { mergeBusinesses } from './dedupe.ts';
+import { EnrichedValue } from './enrich.ts';
+import { Snapshot } from './monitor.ts';
+import { OutreachChannel, OutreachDraft } from './outreach.ts';
+import { CachedResponse, ResponseStore } from './providers/index.ts';
+import { SearchParams } from './search.ts';
+import { Verification, mergeVerifications } from './verify.ts';
+
+// --- Types ---
+
+export type PipelineStage = 'new' | 'contacted' | 'qualified' | 'won' | 'lost';
+
+export const PIPELINE_STAGES: PipelineStage[] = ['new', 'contacted', 'qualified', 'won', 'lost'];
+
+export interface LeadMeta {
+    stage: PipelineStage;
+    notes: string;
+    tags: string[];
+    /** Epoch milliseconds of the last edit made by the team. */
+    lastTouched: number;
+    /** Epoch milliseconds of the first search that found this lead. */
+    createdAt: number;
+    /** Ids of records that were merged into this lead, so later searches map onto it. */
+    aliases: string[];
+    /** Ids of leads the user confirmed are different businesses despite looking alike. */
+    distinctFrom: string[];
+    /** Researched facts (hours, owner, ...) with their confidence, keyed by attribute. */
+    enrichment: Record<string, EnrichedValue>;
+    /** Latest outreach draft for each channel. */
+    outreach: Partial<Record<OutreachChannel, OutreachDraft>>;
+    /** Labels of the searches that returned this lead, oldest first. */
+    queries: string[];
+    /** Latest hallucination check of each field. */
+    verification: Verification;
+}
+
+export interface Lead extends Business, LeadMeta {}
+
+/** A search that was run, kept so its area can be reused later. */
+export interface SearchRecord {
+    id: string;
+    label: string;
+    params: SearchParams;
+    ranAt: number;
+    resultIds: string[];
+}
+
+// --- IndexedDB ---
+
+const DB_NAME = 'scout-ai';
+const DB_VERSION = 4;
+const LEADS_STORE = 'leads';
+const SEARCHES_STORE = 'searches';
+const RESPONSES_STORE = 'responses';
+const SNAPSHOTS_STORE = 'snapshots';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                if (event.oldVersion < 1) {
+                    const leads = db.createObjectStore(LEADS_STORE, { keyPath: 'id' });
+                    leads.createIndex('stage', 'stage');
+                }
+                if (event.oldVersion < 2) {
+                    db.createObjectStore(SEARCHES_STORE, { keyPath: 'id' });
+                }
+                if (event.oldVersion < 3) {
+                    db.createObjectStore(RESPONSES_STORE, { keyPath: 'key' });
+                }
+                if (event.oldVersion < 4) {
+                    const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+                    snapshots.createIndex('savedSearchId', 'savedSearchId');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+// --- Leads ---
+
+export function createLead(business: Business, now: number = Date.now()): Lead {
+    return {
+        ...business,
+        stage: 'new',
+        notes: '',
+        tags: [],
+        lastTouched: now,
+        createdAt: now,
+        aliases: [],
+        distinctFrom: [],
+        enrichment: {},
+        outreach: {},
+        queries: [],
+        verification: {},
+    };
+}
+
+// Leads saved by older versions lack fields added since.
+function withLeadDefaults(lead: Lead): Lead {
+    return { ...createLead(lead, lead.createdAt ?? lead.lastTouched), ...lead, sources: lead.sources ?? {} };
+}
+
+function leadMeta(lead: Lead): LeadMeta {
+    const { stage, notes, tags, lastTouched, createdAt, aliases, distinctFrom, enrichment, outreach, queries, verification } = lead;
+    return { stage, notes, tags, lastTouched, createdAt, aliases, distinctFrom, enrichment, outreach, queries, verification };
+}
+
+/**
+ * Updates a lead with fresh search data while keeping everything the team
+ * entered. Fields the new search did not return keep their previous value.
+ */
+export function refreshLead(lead: Lead, business: Business): Lead {
+    return { ...mergeBusinesses([business, lead]), ...leadMeta(lead), id: lead.id, warnings: business.warnings };
+}
+
+/**
+ * Merges duplicate leads into the first one. The most recently touched
+ * lead decides the stage; notes, tags, aliases and queries are combined, and the
+ * newest enriched fact, outreach draft and field check of each kind wins.
+ */
+export function mergeLeads(leads: Lead[]): Lead {
+    const [primary] = leads;
+    const latest = leads.reduce((a, b) => (b.lastTouched > a.lastTouched ? b : a));
+    const others = leads.slice(1);
+    return {
+        ...mergeBusinesses(leads),
+        stage: latest.stage,
+        notes: [...new Set(leads.map(l => l.notes).filter(Boolean))].join('\n\n'),
+        tags: [...new Set(leads.flatMap(l => l.tags))],
+        lastTouched: Date.now(),
+        createdAt: Math.min(...leads.map(l => l.createdAt)),
+        aliases: [...new Set([...leads.flatMap(l => l.aliases), ...others.map(l => l.id)])],
+        distinctFrom: [...new Set(leads.flatMap(l => l.distinctFrom))].filter(id => id !== primary.id),
+        queries: [...new Set(leads.flatMap(l => l.queries))],
+        enrichment: leads
+            .flatMap(l => Object.entries(l.enrichment))
+            .reduce<Record<string, EnrichedValue>>((merged, [key, entry]) => {
+                if (!merged[key] || entry.enrichedAt > merged[key].enrichedAt) merged[key] = entry;
+                return merged;
+            }, {}),
+        outreach: leads
+            .flatMap(l => Object.values(l.outreach))
+            .reduce<Lead['outreach']>((merged, draft) => {
+                if (!merged[draft.channel] || draft.generatedAt > merged[draft.channel]!.generatedAt) merged[draft.channel] = draft;
+                return merged;
+            }, {}),
+        verification: mergeVerifications(leads.map(l => l.verification)),
+    };
+}
+
+export function parseTags(value: string): string[] {
+    const tags = value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+    return [...new Set(tags)];
+}
+
+export async function loadLeads(): Promise<Lead[]> {
+    const db = await openDb();
+    const leads = await promisify(db.transaction(LEADS_STORE).objectStore(LEADS_STORE).getAll()) as Lead[];
+    return leads.map(withLeadDefaults).sort((a, b) => b.lastTouched - a.lastTouched);
+}
+
+export async function saveLeads(leads: Lead[]): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction(LEADS_STORE, 'readwrite');
+    const store = tx.objectStore(LEADS_STORE);
+    leads.forEach(lead => store.put(lead));
+    await transactionDone(tx);
+}
+
+export async function deleteLeads(ids: string[]): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction(LEADS_STORE, 'readwrite');
+    const store = tx.objectStore(LEADS_STORE);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(tx);
+}
+
+/**
+ * Turns search results into leads. Businesses already in the workspace are
+ * refreshed in place, so their stage, notes and tags carry over. `query`, if
+ * given, is added to each lead's queries.
+ */
+export function mergeSearchResults(businesses: Business[], existing: Map<string, Lead>, query?: string): Lead[] {
+    const byAlias = new Map<string, Lead>();
+    existing.forEach(lead => lead.aliases.forEach(alias => byAlias.set(alias, lead)));
+    const merged = new Map<string, Lead>();
+    businesses.forEach(business => {
+        const lead = merged.get(business.id) ?? existing.get(business.id) ?? byAlias.get(business.id);
+        const updated = lead ? refreshLead(lead, business) : createLead(business);
+        if (query && !updated.queries.includes(query)) updated.queries = [...updated.queries, query];
+        merged.set(updated.id, updated);
+        if (business.id !== updated.id) merged.set(business.id, updated);
+    });
+    return [...new Set(merged.values())];
+}
+
+// --- Search History ---
+
+export async function saveSearchRecord(record: SearchRecord): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction(SEARCHES_STORE, 'readwrite');
+    tx.objectStore(SEARCHES_STORE).put(record);
+    await transactionDone(tx);
+}
+
+export async function loadSearchRecords(): Promise<SearchRecord[]> {
+    const db = await openDb();
+    const records = await promisify(db.transaction(SEARCHES_STORE).objectStore(SEARCHES_STORE).getAll()) as SearchRecord[];
+    return records.sort((a, b) => b.ranAt - a.ranAt);
+}
+
+// --- Saved Search Snapshots ---
+
+/** A saved search's snapshots, newest first. */
+export async function loadSnapshots(savedSearchId: string): Promise<Snapshot[]> {
+    const db = await openDb();
+    const index = db.transaction(SNAPSHOTS_STORE).objectStore(SNAPSHOTS_STORE).index('savedSearchId');
+    const snapshots = await promisify(index.getAll(savedSearchId)) as Snapshot[];
+    return snapshots.sort((a, b) => b.ranAt - a.ranAt);
+}
+
+/** Stores a snapshot and drops the saved search's oldest ones beyond `keep`. */
+export async function saveSnapshot(snapshot: Snapshot, keep: number): Promise<void> {
+    const stale = (await loadSnapshots(snapshot.savedSearchId)).slice(Math.max(keep - 1, 0));
+    const db = await openDb();
+    const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    const store = tx.objectStore(SNAPSHOTS_STORE);
+    store.put(snapshot);
+    stale.forEach(old => store.delete(old.id));
+    await transactionDone(tx);
+}
+
+export async function deleteSnapshots(savedSearchId: string): Promise<void> {
+    const stale = await loadSnapshots(savedSearchId);
+    const db = await openDb();
+    const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    stale.forEach(snapshot => tx.objectStore(SNAPSHOTS_STORE).delete(snapshot.id));
+    await transactionDone(tx);
+}
+
+// --- Response Cache ---
+
+/** Model responses kept by the response cache, keyed by request identity. */
+export const responseStore: ResponseStore = {
+    async get(key) {
+        const db = await openDb();
+        return await promisify(db.transaction(RESPONSES_STORE).objectStore(RESPONSES_STORE).get(key)) as CachedResponse | undefined;
+    },
+    async put(response) {
+        const db = await openDb();
+        const tx = db.transaction(RESPONSES_STORE, 'readwrite');
+        tx.objectStore(RESPONSES_STORE).put(response);
+        await transactionDone(tx);
+    },
+    async deleteOlderThan(storedAt) {
+        const db = await openDb();
+        const tx = db.transaction(RESPONSES_STORE, 'readwrite');
+        const request = tx.objectStore(RESPONSES_STORE).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            if ((cursor.value as CachedResponse).storedAt < storedAt) cursor.delete();
+            cursor.continue();
+        };
+        await transactionDone(tx);
+    },
+};
+
+export async function clearResponseCache(): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction(RESPONSES_STORE, 'readwrite');
+    tx.objectStore(RESPONSES_STORE).clear();
+    await transactionDone(tx);
+}